@@ -0,0 +1,234 @@
+#!/usr/bin/env node
+// Synthesizes the bundled sample kits (808, acoustic and hand percussion
+// drums and a piano) into public/samples/ as 16-bit mono WAV files. The
+// output is the same every run, so the files can be regenerated (or tweaked)
+// without downloading anything.
+//
+//   node scripts/generate-sample-kits.js
+
+const fs = require('fs');
+const path = require('path');
+
+const SAMPLE_RATE = 44100;
+const samplesDir = path.join(__dirname, '..', 'public', 'samples');
+
+// Seeded noise so every run writes identical files
+const createNoise = (seed) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 2147483648 - 1;
+  };
+};
+
+// Render `seconds` of audio from a function of time
+const render = (seconds, sample) => {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = sample(i / SAMPLE_RATE);
+  }
+  return samples;
+};
+
+// Crude one-pole highpass, enough to take the body out of noise
+const highpass = (samples, amount) => {
+  const out = new Float32Array(samples.length);
+  let previousIn = 0;
+  let previousOut = 0;
+  for (let i = 0; i < samples.length; i++) {
+    previousOut = amount * (previousOut + samples[i] - previousIn);
+    previousIn = samples[i];
+    out[i] = previousOut;
+  }
+  return out;
+};
+
+// Scale to a peak of -1 dBFS and fade the last few milliseconds
+const finish = (samples) => {
+  const peak = samples.reduce((max, value) => Math.max(max, Math.abs(value)), 0) || 1;
+  const gain = 0.89 / peak;
+  const fade = Math.round(0.005 * SAMPLE_RATE);
+  return samples.map((value, i) => value * gain * Math.min(1, (samples.length - i) / fade));
+};
+
+// Add layers of different lengths together, each with a gain
+const mix = (...layers) => {
+  const length = Math.max(...layers.map(([samples]) => samples.length));
+  const out = new Float32Array(length);
+  layers.forEach(([samples, gain]) => samples.forEach((value, i) => { out[i] += value * gain; }));
+  return out;
+};
+
+// A decaying sine whose pitch falls from `start` to `end` Hz, like a struck drum head
+const pitchedDrum = (seconds, start, end, drop, decay) => {
+  let phase = 0;
+  return render(seconds, t => {
+    const frequency = end + (start - end) * Math.exp(-t / drop);
+    phase += (2 * Math.PI * frequency) / SAMPLE_RATE;
+    return Math.sin(phase) * Math.exp(-t / decay);
+  });
+};
+
+// Noise with an envelope, e.g. for a stick or hand hitting the head
+const noiseBurst = (seconds, seed, envelope) => {
+  const noise = createNoise(seed);
+  return render(seconds, t => noise() * envelope(t));
+};
+
+// 808
+
+const kick = () => {
+  let phase = 0;
+  return render(0.8, t => {
+    const frequency = 48 + 100 * Math.exp(-t / 0.04);
+    phase += (2 * Math.PI * frequency) / SAMPLE_RATE;
+    return Math.sin(phase) * Math.exp(-t / 0.35);
+  });
+};
+
+const snare = () => {
+  const noise = createNoise(2);
+  const body = render(0.3, t =>
+    (Math.sin(2 * Math.PI * 180 * t) + 0.6 * Math.sin(2 * Math.PI * 330 * t)) * Math.exp(-t / 0.05));
+  const rattle = highpass(render(0.3, t => noise() * Math.exp(-t / 0.09)), 0.9);
+  return body.map((value, i) => 0.6 * value + rattle[i]);
+};
+
+const hihat = () => {
+  // Six detuned square waves, like the original circuit
+  const frequencies = [205.3, 304.4, 369.6, 522.7, 540, 800].map(f => f * 2.5);
+  const metal = render(0.15, t => frequencies
+    .reduce((sum, f) => sum + (Math.sin(2 * Math.PI * f * t) >= 0 ? 1 : -1), 0) / frequencies.length);
+  const shaped = highpass(highpass(metal, 0.7), 0.7);
+  return shaped.map((value, i) => value * Math.exp(-(i / SAMPLE_RATE) / 0.035));
+};
+
+const clap = () => {
+  const noise = createNoise(4);
+  const raw = render(0.35, t => {
+    // Three quick slaps, then the room
+    const burst = [0, 0.011, 0.022].some(start => t >= start && t < start + 0.008) ? Math.exp(-(t % 0.011) / 0.004) : 0;
+    const tail = t >= 0.022 ? Math.exp(-(t - 0.022) / 0.08) : 0;
+    return noise() * Math.max(burst, tail);
+  });
+  return highpass(raw, 0.85);
+};
+
+// 16-bit PCM WAV
+const encodeWav = (samples) => {
+  const buffer = Buffer.alloc(44 + samples.length * 2);
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + samples.length * 2, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(1, 22);
+  buffer.writeUInt32LE(SAMPLE_RATE, 24);
+  buffer.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(samples.length * 2, 40);
+  samples.forEach((value, i) => {
+    buffer.writeInt16LE(Math.round(Math.max(-1, Math.min(1, value)) * 32767), 44 + i * 2);
+  });
+  return buffer;
+};
+
+// Acoustic kit
+
+const acousticKick = () => mix(
+  [pitchedDrum(0.6, 110, 55, 0.03, 0.18), 1],
+  [highpass(noiseBurst(0.05, 11, t => Math.exp(-t / 0.004)), 0.6), 0.5] // Beater
+);
+
+const acousticSnare = () => mix(
+  [render(0.45, t => (Math.sin(2 * Math.PI * 190 * t) + 0.5 * Math.sin(2 * Math.PI * 340 * t)) * Math.exp(-t / 0.07)), 0.5],
+  [highpass(noiseBurst(0.45, 12, t => Math.exp(-t / 0.16)), 0.8), 1] // Snare wires
+);
+
+const acousticHihat = () => highpass(highpass(noiseBurst(0.2, 13, t => Math.exp(-t / 0.05)), 0.6), 0.6);
+
+const floorTom = () => mix(
+  [pitchedDrum(0.7, 120, 82, 0.08, 0.3), 1],
+  [highpass(noiseBurst(0.1, 14, t => Math.exp(-t / 0.015)), 0.7), 0.3]
+);
+
+// Hand percussion
+
+const congaLow = () => mix(
+  [pitchedDrum(0.5, 230, 190, 0.02, 0.12), 1],
+  [pitchedDrum(0.5, 350, 300, 0.02, 0.06), 0.3],
+  [highpass(noiseBurst(0.03, 21, t => Math.exp(-t / 0.005)), 0.7), 0.4] // Slap of the hand
+);
+
+const bongo = () => mix(
+  [pitchedDrum(0.3, 480, 400, 0.01, 0.06), 1],
+  [pitchedDrum(0.3, 780, 650, 0.01, 0.03), 0.3],
+  [highpass(noiseBurst(0.02, 22, t => Math.exp(-t / 0.004)), 0.7), 0.3]
+);
+
+// Beads swelling then settling
+const shaker = () => highpass(highpass(
+  noiseBurst(0.2, 23, t => (t < 0.04 ? t / 0.04 : Math.exp(-(t - 0.04) / 0.05))), 0.5), 0.5);
+
+const tambourine = () => {
+  // Jingles: a few inharmonic partials retriggered as the zils rattle
+  const jingles = [5400, 6900, 8100, 9700];
+  const rattle = t => [0, 0.015, 0.032].reduce((sum, start) => sum + (t >= start ? Math.exp(-(t - start) / 0.06) : 0), 0);
+  return mix(
+    [render(0.4, t => jingles.reduce((sum, f, i) => sum + Math.sin(2 * Math.PI * f * t + i), 0) / jingles.length * rattle(t)), 1],
+    [highpass(noiseBurst(0.4, 24, t => rattle(t) * 0.5), 0.6), 0.6]
+  );
+};
+
+// Piano
+
+const PIANO_SECONDS = 2;
+
+// Slightly stretched harmonics from two detuned strings, with the higher
+// harmonics and higher notes dying away sooner
+const pianoNote = (midi) => {
+  const fundamental = 440 * Math.pow(2, (midi - 69) / 12);
+  const sustain = 0.6 + 3 * Math.exp(-(midi - 36) / 24);
+  const partials = [];
+  for (let n = 1; n <= 24 && n * fundamental < 12000; n++) {
+    partials.push({
+      frequency: n * fundamental * Math.sqrt(1 + 0.0004 * n * n),
+      amplitude: 1 / Math.pow(n, 1.3),
+      decay: sustain / (1 + 0.4 * (n - 1))
+    });
+  }
+  const detune = Math.pow(2, 0.8 / 1200);
+  const strings = render(PIANO_SECONDS, t => partials.reduce((sum, { frequency, amplitude, decay }) =>
+    sum + amplitude * Math.exp(-t / decay) * (Math.sin(2 * Math.PI * frequency * t) + Math.sin(2 * Math.PI * frequency * detune * t)) / 2,
+  0) * Math.min(1, t / 0.002));
+  const hammer = highpass(noiseBurst(0.03, midi, t => Math.exp(-t / 0.008)), 0.5);
+
+  // Fade the end gently so long notes don't stop with a click
+  return mix([strings, 1], [hammer, 0.05])
+    .map((value, i) => value * Math.min(1, (PIANO_SECONDS - i / SAMPLE_RATE) / 0.3));
+};
+
+const PIANO_NOTES = { C2: 36, 'F#2': 42, C3: 48, 'F#3': 54, C4: 60, 'F#4': 66, C5: 72, 'F#5': 78, C6: 84 };
+
+const KITS = {
+  'drums/808': { kick, snare, hihat, clap },
+  'drums/acoustic': { kick: acousticKick, snare: acousticSnare, hihat: acousticHihat, tom: floorTom },
+  'drums/hand-percussion': { 'conga-low': congaLow, bongo, shaker, tambourine },
+  piano: Object.fromEntries(Object.entries(PIANO_NOTES)
+    .map(([note, midi]) => [note.replace('#', 's'), () => pianoNote(midi)]))
+};
+
+Object.entries(KITS).forEach(([folder, sounds]) => {
+  const outputDir = path.join(samplesDir, folder);
+  fs.mkdirSync(outputDir, { recursive: true });
+  Object.entries(sounds).forEach(([name, generate]) => {
+    const file = path.join(outputDir, `${name}.wav`);
+    fs.writeFileSync(file, encodeWav(finish(generate())));
+    console.log(`Wrote ${path.relative(process.cwd(), file)}`);
+  });
+});
@@ -0,0 +1,170 @@
+#!/usr/bin/env node
+// Forwards OSC messages from the app's WebSocket output to UDP, so they reach
+// Max/MSP, Pure Data, SuperCollider and other OSC tools. No dependencies.
+//
+//   npm run osc-bridge -- [--ws-port 8080] [--udp-host 127.0.0.1] [--udp-port 57120]
+//                         [--host 127.0.0.1] [--origin http://localhost:3000,...]
+//
+// Then switch on OSC Output in the app's settings with the address
+// ws://localhost:8080 and listen for OSC on the UDP port (57120 is
+// SuperCollider's default; in Pd use [netreceive -u -b 57120], in Max [udpreceive 57120]).
+//
+// The bridge only listens on this computer (--host) and only accepts web
+// pages from the app's own origins (--origin, comma-separated), so other
+// devices and other sites can't send OSC to your synths.
+
+const crypto = require('crypto');
+const dgram = require('dgram');
+const http = require('http');
+const { homepage } = require('../package.json');
+
+// The development server and the published app
+const appOrigins = ['http://localhost:3000', 'http://127.0.0.1:3000', new URL(homepage).origin];
+
+const options = {
+  'ws-port': 8080,
+  'udp-host': '127.0.0.1',
+  'udp-port': 57120,
+  host: '127.0.0.1',
+  origin: appOrigins.join(',')
+};
+const numericOptions = ['ws-port', 'udp-port'];
+const args = process.argv.slice(2);
+for (let i = 0; i < args.length; i += 2) {
+  const name = args[i].replace(/^--/, '');
+  if (!(name in options) || args[i + 1] === undefined) {
+    console.error(`Unknown option ${args[i]}. Options: ${Object.keys(options).map(option => `--${option}`).join(', ')}`);
+    process.exit(1);
+  }
+  options[name] = numericOptions.includes(name) ? parseInt(args[i + 1], 10) : args[i + 1];
+}
+const allowedOrigins = options.origin.split(',').map(origin => origin.trim()).filter(origin => origin);
+
+const udp = dgram.createSocket('udp4');
+let forwarded = 0;
+
+// Read complete WebSocket frames from the buffered bytes. Returns the frames
+// and whatever is left over (a partial frame).
+const readFrames = (buffer) => {
+  const frames = [];
+  let offset = 0;
+
+  while (buffer.length - offset >= 2) {
+    const fin = (buffer[offset] & 0x80) !== 0;
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let headerLength = 2;
+
+    if (length === 126) {
+      if (buffer.length - offset < 4) break;
+      length = buffer.readUInt16BE(offset + 2);
+      headerLength = 4;
+    } else if (length === 127) {
+      if (buffer.length - offset < 10) break;
+      length = Number(buffer.readBigUInt64BE(offset + 2));
+      headerLength = 10;
+    }
+
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length - offset < headerLength + maskLength + length) break;
+
+    const payload = Buffer.from(buffer.subarray(offset + headerLength + maskLength, offset + headerLength + maskLength + length));
+    if (masked) {
+      const mask = buffer.subarray(offset + headerLength, offset + headerLength + 4);
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i % 4];
+      }
+    }
+
+    frames.push({ fin, opcode, payload });
+    offset += headerLength + maskLength + length;
+  }
+
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+// Build an unmasked frame to send back to the browser
+const makeFrame = (opcode, payload) => {
+  const header = payload.length < 126
+    ? Buffer.from([0x80 | opcode, payload.length])
+    : Buffer.from([0x80 | opcode, 126, payload.length >> 8, payload.length & 0xff]);
+  return Buffer.concat([header, payload]);
+};
+
+const server = http.createServer((request, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end('This is the OSC bridge. Connect with a WebSocket.\n');
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (!key || (request.headers.upgrade || '').toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  // Browsers always send an Origin, so this turns away other web pages.
+  // Programs on this computer (no Origin) could send UDP themselves anyway.
+  const origin = request.headers.origin;
+  if (origin !== undefined && !allowedOrigins.includes(origin)) {
+    console.error(`Refused a connection from ${origin} (allowed: ${allowedOrigins.join(', ')})`);
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return;
+  }
+
+  const accept = crypto
+    .createHash('sha1')
+    .update(key + '258EAFA5-E914-47DA-95CA-C5AB0DC85B11')
+    .digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  console.log(`App connected from ${socket.remoteAddress}`);
+
+  let buffered = Buffer.alloc(0);
+  let fragments = [];
+
+  socket.on('data', (data) => {
+    const { frames, rest } = readFrames(Buffer.concat([buffered, data]));
+    buffered = rest;
+
+    frames.forEach(({ fin, opcode, payload }) => {
+      if (opcode === 0x8) {
+        socket.end(makeFrame(0x8, Buffer.alloc(0)));
+      } else if (opcode === 0x9) {
+        socket.write(makeFrame(0xa, payload));
+      } else if (opcode === 0x0 || opcode === 0x1 || opcode === 0x2) {
+        // Each complete message is one OSC packet
+        fragments.push(payload);
+        if (fin) {
+          const packet = Buffer.concat(fragments);
+          fragments = [];
+          udp.send(packet, options['udp-port'], options['udp-host'], (error) => {
+            if (error) console.error('Error forwarding OSC packet:', error.message);
+          });
+          forwarded++;
+        }
+      }
+    });
+  });
+
+  socket.on('close', () => console.log('App disconnected'));
+  socket.on('error', (error) => console.error('WebSocket error:', error.message));
+});
+
+server.listen(options['ws-port'], options.host, () => {
+  console.log(`OSC bridge: ws://${options.host}:${options['ws-port']} -> udp://${options['udp-host']}:${options['udp-port']}`);
+  console.log(`Accepting the app from ${allowedOrigins.join(', ')}`);
+});
+
+// Show that messages are flowing without printing every one
+setInterval(() => {
+  if (forwarded > 0) {
+    console.log(`Forwarded ${forwarded} OSC messages`);
+    forwarded = 0;
+  }
+}, 10000);
@@ -1,9 +1,36 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import WebcamCapture from './components/WebcamCapture';
 import { MLIntentionDetector, MovementInfo } from './utils/MLIntentionDetector';
+import { OscOutput } from './utils/OscOutput';
+import { SpatialSettings, depthFromZ } from './utils/SpatialSettings';
 import CalibrationComponent from './components/CalibrationComponent';
 import UltraLightQuickPlay from './components/UltraLightQuickPlay';
-import { SoundEngine, SoundPreset } from './utils/SoundEngine';
+import SampleRecorderPanel from './components/SampleRecorderPanel';
+import ModulationMatrixPanel from './components/ModulationMatrixPanel';
+import EffectsChainPanel from './components/EffectsChainPanel';
+import MixerPanel from './components/MixerPanel';
+import LimiterIndicator from './components/LimiterIndicator';
+import TempoClockPanel from './components/TempoClockPanel';
+import LooperPanel from './components/LooperPanel';
+import ArpeggiatorPanel from './components/ArpeggiatorPanel';
+import ChordProgressionPanel from './components/ChordProgressionPanel';
+import ProgressionStatus from './components/ProgressionStatus';
+import SongFollowPanel from './components/SongFollowPanel';
+import SongStatus from './components/SongStatus';
+import PerformanceExport from './components/PerformanceExport';
+import AudioRecorderPanel from './components/AudioRecorderPanel';
+import AmbientPanel from './components/AmbientPanel';
+import AccompanimentPanel from './components/AccompanimentPanel';
+import MidiOutputPanel from './components/MidiOutputPanel';
+import OscOutputPanel from './components/OscOutputPanel';
+import VelocityCurvePanel from './components/VelocityCurvePanel';
+import { SessionKeySettings, SoundEngine, SoundMapping, SoundPreset } from './utils/SoundEngine';
+import { SampleLoadState } from './utils/SampleLibrary';
+import { ThereminSettings } from './utils/Theremin';
+import { SustainSettings } from './utils/HeldNotes';
+import { MAX_CEILING, MIN_CEILING, SafetySettings } from './utils/SafetySettings';
+import { NOTE_NAMES, SCALE_NAMES, ScaleName } from './utils/musicTheory';
+import { downloadFile } from './utils/download';
 import * as poseDetection from '@tensorflow-models/pose-detection';
 import './App.css';
 
@@ -21,17 +48,40 @@ const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.Welcome);
   const [detector] = useState<MLIntentionDetector>(new MLIntentionDetector());
   const [soundEngine] = useState<SoundEngine>(new SoundEngine());
+  const [oscOutput] = useState<OscOutput>(() => new OscOutput());
   const [userId, setUserId] = useState<string>('');
   const [selectedPreset, setSelectedPreset] = useState<string>('Piano');
   const [presets, setPresets] = useState<SoundPreset[]>([]);
   const [detectedMovements, setDetectedMovements] = useState<MovementInfo[]>([]);
   const [isSoundInitialized, setIsSoundInitialized] = useState<boolean>(false);
   const [showDebugInfo, setShowDebugInfo] = useState<boolean>(false);
+  const [showMixer, setShowMixer] = useState<boolean>(false);
+  const [newPresetName, setNewPresetName] = useState<string>('');
+  const [newPresetDescription, setNewPresetDescription] = useState<string>('');
+  const [newPresetInstrument, setNewPresetInstrument] = useState<string>('');
+  const [importMessages, setImportMessages] = useState<string[]>([]);
+  const [drumKit, setDrumKit] = useState<string>(soundEngine.getDrumKit());
+  const [sampleStates, setSampleStates] = useState<Record<string, SampleLoadState>>({});
+  const [sessionKey, setSessionKey] = useState<SessionKeySettings>(soundEngine.getSessionKey());
+  const [safetySettings, setSafetySettings] = useState<SafetySettings>(soundEngine.getSafetySettings());
+  const [spatialSettings, setSpatialSettings] = useState<SpatialSettings>(soundEngine.getSpatialSettings());
+  const [sustainSettings, setSustainSettings] = useState<SustainSettings>(soundEngine.getSustainSettings());
+  const [thereminSettings, setThereminSettings] = useState<ThereminSettings>(soundEngine.getThereminSettings());
+
+  // Reload presets from the sound engine (built-in and custom)
+  const refreshPresets = useCallback(() => {
+    setPresets(soundEngine.getPresets());
+  }, [soundEngine]);
 
   // Load presets from the sound engine
   useEffect(() => {
-    const availablePresets = soundEngine.getPresets();
-    setPresets(availablePresets);
+    refreshPresets();
+  }, [refreshPresets]);
+
+  // Track which bundled samples are ready
+  useEffect(() => {
+    soundEngine.setSampleLoadingCallback(setSampleStates);
+    return () => soundEngine.setSampleLoadingCallback(null);
   }, [soundEngine]);
 
   // Initialize sounds when user loads app
@@ -47,24 +97,70 @@ const App: React.FC = () => {
   }, [soundEngine, selectedPreset]);
 
   // Handle pose detection results
-  const handlePoseDetected = useCallback((poses: poseDetection.Pose[]) => {
+  const handlePoseDetected = useCallback((poses: poseDetection.Pose[], frameSize: { width: number; height: number }) => {
     if (appState === AppState.Performance && poses.length > 0) {
+      // Keep the sound engine up to date with where each keypoint is, from the
+      // performer's side like the positions given to processMovement below
+      poses[0].keypoints.forEach(keypoint => {
+        if (keypoint.name && keypoint.score && keypoint.score > 0.3) {
+          soundEngine.updateKeypointPosition(
+            keypoint.name,
+            1 - keypoint.x / frameSize.width,
+            keypoint.y / frameSize.height
+          );
+        }
+      });
+      
       // Process the pose with the ML detector
       const movements = detector.processPoses(poses);
       setDetectedMovements(movements);
+      oscOutput.sendMovements(movements);
       
-      // Feed intentional movements to the sound engine
+      // Feed intentional movements to the sound engine, with where the
+      // keypoint is from the performer's side (the camera image isn't mirrored)
       movements.forEach(movement => {
         if (movement.isIntentional) {
+          const keypoint = poses[0].keypoints.find(k => k.name === movement.keypoint);
           soundEngine.processMovement(
             movement.keypoint,
             movement.isIntentional,
             movement.direction,
-            movement.velocity
+            movement.velocity,
+            keypoint && {
+              x: 1 - keypoint.x / frameSize.width,
+              y: keypoint.y / frameSize.height,
+              depth: keypoint.z !== undefined ? depthFromZ(keypoint.z, frameSize.width) : undefined
+            }
           );
         }
       });
     }
+  }, [appState, detector, soundEngine, oscOutput]);
+
+  // Stream triggered notes over OSC when it's switched on
+  useEffect(() => {
+    oscOutput.start();
+    soundEngine.setNoteListener(note => oscOutput.sendNote(note));
+    
+    return () => {
+      soundEngine.setNoteListener(null);
+      oscOutput.stop();
+    };
+  }, [oscOutput, soundEngine]);
+
+  // Hold notes while a keypoint rests after a movement, release when it moves again
+  useEffect(() => {
+    if (appState !== AppState.Performance) return;
+    
+    detector.setMovementEventCallback(event => {
+      if (event.type === 'start') {
+        soundEngine.processMovementStart(event.keypoint);
+      } else {
+        soundEngine.processMovementEnd(event.keypoint);
+      }
+    });
+    
+    return () => detector.setMovementEventCallback(null);
   }, [appState, detector, soundEngine]);
 
   // Change the selected sound preset
@@ -73,9 +169,160 @@ const App: React.FC = () => {
     soundEngine.loadPreset(presetName);
   };
 
+  // Save the current mappings as a new custom preset
+  const handleSaveCustomPreset = () => {
+    const name = newPresetName.trim();
+    if (name === '') {
+      alert('Please enter a name for your preset');
+      return;
+    }
+    
+    const saved = soundEngine.saveCustomPreset(
+      name,
+      newPresetDescription.trim() || `Based on ${selectedPreset}`,
+      soundEngine.getMappings(),
+      newPresetInstrument || soundEngine.getCurrentInstrument()
+    );
+    
+    if (!saved) {
+      alert(`Could not save preset "${name}". Please choose a different name.`);
+      return;
+    }
+    
+    setNewPresetName('');
+    setNewPresetDescription('');
+    setNewPresetInstrument('');
+    refreshPresets();
+    handlePresetChange(name);
+  };
+
+  // Replace a custom preset with the current sound setup and switch to it
+  const handleSaveOverCustomPreset = (presetName: string) => {
+    if (!window.confirm(`Replace preset "${presetName}" with the current sound setup?`)) {
+      return;
+    }
+    
+    if (!soundEngine.saveOverCustomPreset(presetName)) {
+      alert(`Could not save over preset "${presetName}".`);
+      return;
+    }
+    
+    refreshPresets();
+    if (selectedPreset !== presetName) {
+      handlePresetChange(presetName);
+    }
+  };
+
+  // Delete a custom preset, switching back to the default if it was selected
+  const handleDeleteCustomPreset = (presetName: string) => {
+    if (!window.confirm(`Delete preset "${presetName}"?`)) {
+      return;
+    }
+    
+    if (soundEngine.deleteCustomPreset(presetName)) {
+      refreshPresets();
+      if (selectedPreset === presetName) {
+        handlePresetChange('Piano');
+      }
+    }
+  };
+
+  // Update the session key in the engine and the UI
+  const updateSessionKey = (settings: Partial<SessionKeySettings>) => {
+    soundEngine.setSessionKey(settings);
+    setSessionKey(soundEngine.getSessionKey());
+  };
+
+  // Update the hearing-safety settings in the engine and the UI
+  const updateSafetySettings = (settings: Partial<SafetySettings>) => {
+    soundEngine.setSafetySettings(settings);
+    setSafetySettings(soundEngine.getSafetySettings());
+  };
+
+  // Update the spatial mode settings in the engine and the UI
+  const updateSpatialSettings = (settings: Partial<SpatialSettings>) => {
+    soundEngine.setSpatialSettings(settings);
+    setSpatialSettings(soundEngine.getSpatialSettings());
+  };
+
+  // Update the note hold settings in the engine and the UI
+  const updateSustainSettings = (settings: Partial<SustainSettings>) => {
+    soundEngine.setSustainSettings(settings);
+    setSustainSettings(soundEngine.getSustainSettings());
+  };
+
+  // Update the theremin settings in the engine and the UI
+  const updateThereminSettings = (settings: Partial<ThereminSettings>) => {
+    soundEngine.setThereminSettings(settings);
+    setThereminSettings(soundEngine.getThereminSettings());
+  };
+
+  // Describe the loading state of the selected drum kit
+  const getDrumKitStatus = () => {
+    switch (sampleStates[drumKit]) {
+      case 'loading':
+        return 'Loading samples... (synthesized drums until ready)';
+      case 'ready':
+        return soundEngine.isUsingSynthDrums() ? 'Using synthesized drums' : 'Samples ready';
+      case 'error':
+        return 'Samples could not be loaded, using synthesized drums';
+      default:
+        return 'Using synthesized drums';
+    }
+  };
+
+  // Download presets as a JSON file
+  const handleExportPresets = (presetNames: string[]) => {
+    const json = soundEngine.exportPresets(presetNames);
+    const filename = presetNames.length === 1
+      ? `${presetNames[0].replace(/[^a-z0-9-_]+/gi, '_')}.preset.json`
+      : 'my-presets.json';
+    downloadFile(json, filename, 'application/json');
+  };
+
+  // Import presets from a JSON file picked by the user
+  const handleImportPresets = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    
+    try {
+      const { imported, errors } = soundEngine.importPresets(await file.text());
+      refreshPresets();
+      setImportMessages([
+        ...(imported.length > 0 ? [`Imported: ${imported.join(', ')}`] : []),
+        ...errors
+      ]);
+    } catch (error) {
+      console.error('Error reading preset file:', error);
+      setImportMessages(['Could not read the selected file']);
+    }
+  };
+
+  // Use a recorded sound for a gesture, replacing whatever it played before.
+  // Custom presets are updated straight away; built-in ones need saving as a new preset.
+  const handleAssignMapping = (mapping: SoundMapping) => {
+    const mappings = [
+      ...soundEngine.getMappings().filter(m => 
+        m.keypoint !== mapping.keypoint || m.direction !== mapping.direction
+      ),
+      mapping
+    ];
+    soundEngine.setMappings(mappings);
+    
+    const preset = presets.find(p => p.name === selectedPreset);
+    if (preset && soundEngine.isCustomPreset(preset.name)) {
+      soundEngine.updateCustomPreset(preset.name, { ...preset, mappings });
+      refreshPresets();
+    }
+  };
+
   // Handle calibration completion
   const handleCalibrationComplete = (calibratedUserId: string) => {
     setUserId(calibratedUserId);
+    soundEngine.loadUserSamples(calibratedUserId);
+    soundEngine.loadVelocityCurve(calibratedUserId);
+    soundEngine.calibrateVelocityCurve(detector.getCalibrationVelocities());
     setAppState(AppState.Performance);
   };
 
@@ -85,6 +332,8 @@ const App: React.FC = () => {
       const success = await detector.loadModel(id);
       if (success) {
         setUserId(id);
+        soundEngine.loadUserSamples(id);
+        soundEngine.loadVelocityCurve(id);
         return true;
       }
       return false;
@@ -201,10 +450,59 @@ const App: React.FC = () => {
                 {presets.find(p => p.name === selectedPreset)?.description}
               </div>
               
+              <div className="key-selector">
+                <label>Key:</label>
+                <select 
+                  value={sessionKey.key}
+                  onChange={(e) => updateSessionKey({ key: e.target.value })}
+                >
+                  {NOTE_NAMES.map(note => (
+                    <option key={note} value={note}>{note}</option>
+                  ))}
+                </select>
+                <select 
+                  value={sessionKey.scale}
+                  onChange={(e) => updateSessionKey({ scale: e.target.value as ScaleName })}
+                >
+                  {SCALE_NAMES.map(scale => (
+                    <option key={scale} value={scale}>{scale}</option>
+                  ))}
+                </select>
+                <label className="checkbox-label">
+                  <input 
+                    type="checkbox"
+                    checked={sessionKey.alwaysConsonant}
+                    onChange={(e) => updateSessionKey({ alwaysConsonant: e.target.checked })}
+                  />
+                  Always in key
+                </label>
+              </div>
+              
+              <SongStatus soundEngine={soundEngine} />
+              
+              {/* Remount when the preset changes so it shows that preset's chords */}
+              <ProgressionStatus key={selectedPreset} soundEngine={soundEngine} />
+              
+              <TempoClockPanel soundEngine={soundEngine} />
+              
+              <AmbientPanel soundEngine={soundEngine} />
+              
+              <AccompanimentPanel soundEngine={soundEngine} />
+              
+              <LooperPanel soundEngine={soundEngine} />
+              
+              <LimiterIndicator soundEngine={soundEngine} />
+              
+              <AudioRecorderPanel soundEngine={soundEngine} />
+              <PerformanceExport soundEngine={soundEngine} />
+              
               <div className="action-buttons">
                 <button onClick={() => setAppState(AppState.Settings)}>
                   Settings
                 </button>
+                <button onClick={() => setShowMixer(!showMixer)}>
+                  {showMixer ? 'Hide' : 'Show'} Mixer
+                </button>
                 <button onClick={() => setShowDebugInfo(!showDebugInfo)}>
                   {showDebugInfo ? 'Hide' : 'Show'} Debug Info
                 </button>
@@ -213,6 +511,11 @@ const App: React.FC = () => {
                 </button>
               </div>
               
+              {showMixer && (
+                // Remount when the preset changes so the mixer shows its saved levels
+                <MixerPanel key={selectedPreset} soundEngine={soundEngine} />
+              )}
+              
               {showDebugInfo && (
                 <div className="debug-info">
                   <h3>Movement Detection:</h3>
@@ -285,6 +588,320 @@ const App: React.FC = () => {
                   }}
                 />
               </div>
+              
+              <div className="form-group">
+                <label>Drum Kit:</label>
+                <select 
+                  value={drumKit}
+                  onChange={(e) => {
+                    setDrumKit(e.target.value);
+                    soundEngine.setDrumKit(e.target.value);
+                  }}
+                >
+                  {soundEngine.getDrumKits().map(kit => (
+                    <option key={kit.id} value={kit.id}>
+                      {kit.name}
+                    </option>
+                  ))}
+                </select>
+                <p className={`sample-status ${sampleStates[drumKit] || 'idle'}`}>
+                  {getDrumKitStatus()}
+                </p>
+              </div>
+              
+              <div className="form-group">
+                <label className="checkbox-label">
+                  <input 
+                    type="checkbox"
+                    checked={sustainSettings.enabled}
+                    onChange={(e) => updateSustainSettings({ enabled: e.target.checked })}
+                  />
+                  Hold notes while I keep still after a movement
+                </label>
+              </div>
+              
+              {sustainSettings.enabled && (
+                <div className="form-group">
+                  <label>Longest Hold: {sustainSettings.maxHoldTime}s</label>
+                  <input 
+                    type="range" 
+                    min="1" 
+                    max="10" 
+                    step="1" 
+                    value={sustainSettings.maxHoldTime}
+                    onChange={(e) => updateSustainSettings({ maxHoldTime: parseInt(e.target.value, 10) })}
+                  />
+                </div>
+              )}
+            </div>
+            
+            <div className="settings-section">
+              <h2>Movement Strength</h2>
+              <p>How the speed of your movements sets the loudness of notes, chords, drums and effects. Calibrating learns your range.</p>
+              <VelocityCurvePanel soundEngine={soundEngine} />
+            </div>
+            
+            <div className="settings-section">
+              <h2>Hearing Safety</h2>
+              <p>Keeps the sound below a maximum level, however fast or big your movements are.</p>
+              
+              <div className="form-group">
+                <label>Maximum Loudness: {safetySettings.maxLevel} dB</label>
+                <input 
+                  type="range" 
+                  min={MIN_CEILING} 
+                  max={MAX_CEILING} 
+                  step="1" 
+                  value={safetySettings.maxLevel}
+                  onChange={(e) => updateSafetySettings({ maxLevel: parseInt(e.target.value, 10) })}
+                />
+              </div>
+              
+              <div className="form-group">
+                <label className="checkbox-label">
+                  <input 
+                    type="checkbox"
+                    checked={safetySettings.softenOnsets}
+                    onChange={(e) => updateSafetySettings({ softenOnsets: e.target.checked })}
+                  />
+                  Soften sudden loud sounds
+                </label>
+              </div>
+            </div>
+            
+            <div className="settings-section">
+              <h2>Spatial Sound</h2>
+              <p>Hear each sound from where it was played: a left-hand movement sounds on the left. Best with headphones.</p>
+              
+              <div className="form-group">
+                <label className="checkbox-label">
+                  <input 
+                    type="checkbox"
+                    checked={spatialSettings.enabled}
+                    onChange={(e) => updateSpatialSettings({ enabled: e.target.checked })}
+                  />
+                  Place sounds by body position
+                </label>
+              </div>
+              
+              <div className="form-group">
+                <label>Width: {Math.round(spatialSettings.width * 100)}%</label>
+                <input 
+                  type="range" 
+                  min="0" 
+                  max="1" 
+                  step="0.05" 
+                  value={spatialSettings.width}
+                  disabled={!spatialSettings.enabled}
+                  onChange={(e) => updateSpatialSettings({ width: parseFloat(e.target.value) })}
+                />
+              </div>
+              
+              <div className="form-group">
+                <label className="checkbox-label">
+                  <input 
+                    type="checkbox"
+                    checked={spatialSettings.useDepth}
+                    disabled={!spatialSettings.enabled}
+                    onChange={(e) => updateSpatialSettings({ useDepth: e.target.checked })}
+                  />
+                  Make movements further from the camera quieter (BlazePose model only)
+                </label>
+              </div>
+            </div>
+            
+            <div className="settings-section">
+              <h2>Effects</h2>
+              <p>Effects for the current preset, applied in order. They are saved when you save a preset.</p>
+              <EffectsChainPanel key={selectedPreset} soundEngine={soundEngine} />
+            </div>
+            
+            <div className="settings-section">
+              <h2>Theremin</h2>
+              <p>Used by mappings that control pitch: raise your hand to play higher notes.</p>
+              
+              <div className="form-group">
+                <label>Scale:</label>
+                <select 
+                  value={thereminSettings.scale}
+                  onChange={(e) => updateThereminSettings({ scale: e.target.value as ScaleName })}
+                >
+                  {SCALE_NAMES.map(scale => (
+                    <option key={scale} value={scale}>
+                      {scale.charAt(0).toUpperCase() + scale.slice(1)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              
+              <div className="form-group">
+                <label>Lowest Note:</label>
+                <select 
+                  value={thereminSettings.lowestNote}
+                  onChange={(e) => updateThereminSettings({ lowestNote: e.target.value })}
+                >
+                  {['C2', 'G2', 'C3', 'G3', 'C4'].map(note => (
+                    <option key={note} value={note}>{note}</option>
+                  ))}
+                </select>
+              </div>
+              
+              <div className="form-group">
+                <label>Range: {thereminSettings.octaves} octave{thereminSettings.octaves > 1 ? 's' : ''}</label>
+                <input 
+                  type="range" 
+                  min="1" 
+                  max="4" 
+                  step="1" 
+                  value={thereminSettings.octaves}
+                  onChange={(e) => updateThereminSettings({ octaves: parseInt(e.target.value, 10) })}
+                />
+              </div>
+              
+              <div className="form-group">
+                <label>Glide Time: {thereminSettings.glideTime.toFixed(2)}s</label>
+                <input 
+                  type="range" 
+                  min="0" 
+                  max="1" 
+                  step="0.05" 
+                  value={thereminSettings.glideTime}
+                  onChange={(e) => updateThereminSettings({ glideTime: parseFloat(e.target.value) })}
+                />
+              </div>
+            </div>
+            
+            <div className="settings-section">
+              <h2>Movement Controls</h2>
+              <p>Shape the sound continuously with the position, speed or spread of your body. Saved with your presets.</p>
+              <ModulationMatrixPanel soundEngine={soundEngine} />
+            </div>
+            
+            <div className="settings-section">
+              <h2>Follow a Song</h2>
+              <SongFollowPanel soundEngine={soundEngine} />
+            </div>
+            
+            <div className="settings-section">
+              <h2>Chord Progression</h2>
+              <p>Play a song's chords in order, one movement at a time. Saved with your presets.</p>
+              <ChordProgressionPanel soundEngine={soundEngine} />
+            </div>
+            
+            <div className="settings-section">
+              <h2>Arpeggiator</h2>
+              <ArpeggiatorPanel 
+                soundEngine={soundEngine}
+                onAssign={handleAssignMapping}
+              />
+            </div>
+            
+            <div className="settings-section">
+              <h2>MIDI Output</h2>
+              <MidiOutputPanel 
+                key={selectedPreset}
+                soundEngine={soundEngine}
+                onAssign={handleAssignMapping}
+              />
+            </div>
+            
+            <div className="settings-section">
+              <h2>OSC Output</h2>
+              <OscOutputPanel oscOutput={oscOutput} />
+            </div>
+            
+            <div className="settings-section">
+              <h2>My Sounds</h2>
+              <SampleRecorderPanel 
+                soundEngine={soundEngine}
+                onAssign={handleAssignMapping}
+              />
+            </div>
+            
+            <div className="settings-section">
+              <h2>My Presets</h2>
+              <p>Save the current sound setup ({selectedPreset}) as your own preset:</p>
+              
+              <div className="form-group">
+                <label>Preset Name:</label>
+                <input 
+                  type="text" 
+                  value={newPresetName}
+                  onChange={(e) => setNewPresetName(e.target.value)}
+                />
+              </div>
+              
+              <div className="form-group">
+                <label>Description:</label>
+                <input 
+                  type="text" 
+                  value={newPresetDescription}
+                  onChange={(e) => setNewPresetDescription(e.target.value)}
+                />
+              </div>
+              
+              <div className="form-group">
+                <label>Instrument:</label>
+                <select 
+                  value={newPresetInstrument || soundEngine.getCurrentInstrument()}
+                  onChange={(e) => setNewPresetInstrument(e.target.value)}
+                >
+                  {soundEngine.getInstruments().map(instrument => (
+                    <option key={instrument.id} value={instrument.id}>
+                      {instrument.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              
+              <button onClick={handleSaveCustomPreset}>
+                Save Preset
+              </button>
+              
+              <ul className="custom-preset-list">
+                {soundEngine.getCustomPresets().map(preset => (
+                  <li key={preset.name}>
+                    <span>{preset.name}</span>
+                    <button onClick={() => handleSaveOverCustomPreset(preset.name)}>
+                      Save Over
+                    </button>
+                    <button onClick={() => handleDeleteCustomPreset(preset.name)}>
+                      Delete
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              
+              <div className="form-group">
+                <label>Share Presets:</label>
+                <button onClick={() => handleExportPresets([selectedPreset])}>
+                  Export {selectedPreset}
+                </button>
+                <button 
+                  onClick={() => handleExportPresets(soundEngine.getCustomPresets().map(p => p.name))}
+                  disabled={soundEngine.getCustomPresets().length === 0}
+                >
+                  Export All My Presets
+                </button>
+              </div>
+              
+              <div className="form-group">
+                <label htmlFor="preset-import">Import Presets From File:</label>
+                <input 
+                  id="preset-import"
+                  type="file" 
+                  accept=".json,application/json"
+                  onChange={handleImportPresets}
+                />
+              </div>
+              
+              {importMessages.length > 0 && (
+                <ul className="import-messages">
+                  {importMessages.map((message, idx) => (
+                    <li key={idx}>{message}</li>
+                  ))}
+                </ul>
+              )}
             </div>
             
             <button 
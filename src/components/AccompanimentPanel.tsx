@@ -0,0 +1,92 @@
+import React, { useState, useEffect } from 'react';
+import { SoundEngine } from '../utils/SoundEngine';
+import { AccompanimentStatus } from '../utils/Accompaniment';
+import {
+  ACCOMPANIMENT_STYLE_IDS,
+  ACCOMPANIMENT_STYLES,
+  AccompanimentSettings,
+  MAX_PAUSE_BEATS,
+  MIN_PAUSE_BEATS
+} from '../utils/AccompanimentSettings';
+import './AccompanimentPanel.css';
+
+interface AccompanimentPanelProps {
+  soundEngine: SoundEngine;
+}
+
+// What the band is doing, in words
+const describeStatus = (status: AccompanimentStatus): string => {
+  switch (status.state) {
+    case 'waiting':
+      return 'Waiting for you to move';
+    case 'playing':
+      return `Playing ${status.chord ?? ''} at ${status.bpm} BPM`;
+    case 'holding':
+      return `Holding ${status.chord ?? 'the chord'} until you move again`;
+  }
+};
+
+// Bass, drums and chords that follow the tempo of the user's movements
+const AccompanimentPanel: React.FC<AccompanimentPanelProps> = ({ soundEngine }) => {
+  const [settings, setSettings] = useState<AccompanimentSettings>(soundEngine.getAccompanimentSettings());
+  const [status, setStatus] = useState<AccompanimentStatus | null>(soundEngine.getAccompanimentStatus());
+
+  useEffect(() => {
+    soundEngine.setAccompanimentCallback(setStatus);
+    return () => soundEngine.setAccompanimentCallback(null);
+  }, [soundEngine]);
+
+  const updateSettings = (changes: Partial<AccompanimentSettings>) => {
+    soundEngine.setAccompanimentSettings(changes);
+    setSettings(soundEngine.getAccompanimentSettings());
+  };
+
+  const toggle = () => {
+    if (status) {
+      soundEngine.stopAccompaniment();
+      return;
+    }
+    soundEngine.startAccompaniment().catch(error => console.error('Error starting the backing band:', error));
+  };
+
+  return (
+    <div className="accompaniment-panel">
+      <div className="accompaniment-controls">
+        <span className="accompaniment-title">Backing Band</span>
+        {ACCOMPANIMENT_STYLE_IDS.map(id => (
+          <button
+            key={id}
+            className={id === settings.style ? 'selected' : ''}
+            title={ACCOMPANIMENT_STYLES[id].description}
+            aria-pressed={id === settings.style}
+            onClick={() => updateSettings({ style: id })}
+          >
+            {ACCOMPANIMENT_STYLES[id].label}
+          </button>
+        ))}
+        <label>
+          Hold after
+          <input
+            type="number"
+            min={MIN_PAUSE_BEATS}
+            max={MAX_PAUSE_BEATS}
+            value={settings.pauseBeats}
+            onChange={(e) => updateSettings({ pauseBeats: parseInt(e.target.value, 10) })}
+          />
+          quiet beats
+        </label>
+        <button className={status ? 'running' : ''} onClick={toggle}>
+          {status ? 'Stop' : 'Start'}
+        </button>
+      </div>
+
+      <p className="accompaniment-status" role="status">
+        {status
+          ? describeStatus(status)
+          : 'The band follows your tempo, stays in the session key and waits when you pause.'}
+      </p>
+    </div>
+  );
+};
+
+export default AccompanimentPanel;
@@ -0,0 +1,82 @@
+import React, { useState, useEffect } from 'react';
+import { SoundEngine } from '../utils/SoundEngine';
+import { AMBIENT_MOOD_IDS, AMBIENT_MOODS, AmbientMood, AmbientState } from '../utils/AmbientSettings';
+import './AmbientPanel.css';
+
+interface AmbientPanelProps {
+  soundEngine: SoundEngine;
+}
+
+// Start a generative pad, drone and texture that movements gently shape
+const AmbientPanel: React.FC<AmbientPanelProps> = ({ soundEngine }) => {
+  const [state, setState] = useState<AmbientState | null>(soundEngine.getAmbientState());
+  const [mood, setMood] = useState<AmbientMood>(state?.mood ?? 'calm');
+
+  useEffect(() => {
+    soundEngine.setAmbientCallback(setState);
+    return () => soundEngine.setAmbientCallback(null);
+  }, [soundEngine]);
+
+  // Switching mood while running changes the sound straight away
+  const chooseMood = (id: AmbientMood) => {
+    setMood(id);
+    if (state) {
+      soundEngine.startAmbient(id).catch(error => console.error('Error changing ambient mood:', error));
+    }
+  };
+
+  const toggle = () => {
+    if (state) {
+      soundEngine.stopAmbient();
+      return;
+    }
+    soundEngine.startAmbient(mood).catch(error => console.error('Error starting ambient mode:', error));
+  };
+
+  return (
+    <div className="ambient-panel">
+      <div className="ambient-controls">
+        <span className="ambient-title">Ambient</span>
+        {AMBIENT_MOOD_IDS.map(id => (
+          <button
+            key={id}
+            className={id === mood ? 'selected' : ''}
+            title={AMBIENT_MOODS[id].description}
+            aria-pressed={id === mood}
+            onClick={() => chooseMood(id)}
+          >
+            {AMBIENT_MOODS[id].label}
+          </button>
+        ))}
+        <button className={state ? 'running' : ''} onClick={toggle}>
+          {state ? 'Stop' : 'Start'}
+        </button>
+      </div>
+
+      {state ? (
+        <div className="ambient-status" role="status">
+          <span>Harmony {state.harmony + 1} of {AMBIENT_MOODS[state.mood].chords.length}</span>
+          <label>
+            Density
+            <span className="ambient-meter" aria-hidden="true">
+              <span className="ambient-meter-bar" style={{ width: `${state.density * 100}%` }} />
+            </span>
+          </label>
+          <label>
+            Brightness
+            <span className="ambient-meter" aria-hidden="true">
+              <span className="ambient-meter-bar" style={{ width: `${state.brightness * 100}%` }} />
+            </span>
+          </label>
+        </div>
+      ) : (
+        <p className="ambient-hint">
+          Movements change the harmony instead of playing notes: up and down make it brighter or darker,
+          left and right thin it out or fill it in.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AmbientPanel;
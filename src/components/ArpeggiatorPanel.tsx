@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { SoundEngine, SoundMapping } from '../utils/SoundEngine';
+import { isValidNoteName } from '../utils/PresetFile';
+import {
+  ARPEGGIO_PATTERNS,
+  ARPEGGIO_RATES,
+  ArpeggiatorSettings,
+  ArpeggioPattern,
+  ArpeggioRate,
+  ArpeggioSource,
+  DEFAULT_ARPEGGIATOR_SETTINGS,
+  MAX_ARPEGGIO_OCTAVES
+} from '../utils/ArpeggiatorSettings';
+import './ArpeggiatorPanel.css';
+
+interface ArpeggiatorPanelProps {
+  soundEngine: SoundEngine;
+  onAssign: (mapping: SoundMapping) => void;
+}
+
+// Keypoints offered for starting and stopping an arpeggio
+const ASSIGNABLE_KEYPOINTS = [
+  'right_wrist', 'left_wrist',
+  'right_elbow', 'left_elbow',
+  'right_shoulder', 'left_shoulder',
+  'nose'
+];
+
+const DIRECTIONS = ['up', 'down', 'left', 'right', 'any'];
+
+// Set up an arpeggio and give it to a gesture
+const ArpeggiatorPanel: React.FC<ArpeggiatorPanelProps> = ({ soundEngine, onAssign }) => {
+  const [settings, setSettings] = useState<ArpeggiatorSettings>({ ...DEFAULT_ARPEGGIATOR_SETTINGS });
+  const [chordText, setChordText] = useState<string>('C4 E4 G4');
+  const [assignKeypoint, setAssignKeypoint] = useState<string>('right_wrist');
+  const [assignDirection, setAssignDirection] = useState<string>('up');
+  const [message, setMessage] = useState<string>('');
+
+  const updateSettings = (changes: Partial<ArpeggiatorSettings>) => {
+    setSettings({ ...settings, ...changes });
+  };
+
+  const assignArpeggio = () => {
+    const notes = chordText.split(/[\s,]+/).filter(note => note);
+    const invalid = notes.filter(note => !isValidNoteName(note));
+    if (notes.length === 0 || invalid.length > 0) {
+      setMessage(`Please enter notes like C4 E4 G4${invalid.length > 0 ? ` ("${invalid[0]}" is not a note)` : ''}`);
+      return;
+    }
+
+    onAssign({
+      ...soundEngine.createCustomMapping(assignKeypoint, assignDirection, 'arpeggio', notes),
+      arpeggio: settings
+    });
+    setMessage(`${assignKeypoint.replace('_', ' ')} ${assignDirection} now starts and stops the arpeggio`);
+  };
+
+  return (
+    <div className="arpeggiator">
+      <p>One movement starts a pattern of notes that keeps going in time with the tempo; the same movement stops it.</p>
+
+      <div className="form-group">
+        <label>Notes from:</label>
+        <select
+          value={settings.source}
+          onChange={(e) => updateSettings({ source: e.target.value as ArpeggioSource })}
+        >
+          <option value="chord">This chord</option>
+          <option value="held">Notes I'm holding (this chord if none)</option>
+        </select>
+        <input
+          type="text"
+          value={chordText}
+          onChange={(e) => setChordText(e.target.value)}
+          aria-label="Chord notes"
+        />
+      </div>
+
+      <div className="arpeggiator-options">
+        <label>
+          Pattern
+          <select
+            value={settings.pattern}
+            onChange={(e) => updateSettings({ pattern: e.target.value as ArpeggioPattern })}
+          >
+            {ARPEGGIO_PATTERNS.map(pattern => (
+              <option key={pattern.id} value={pattern.id}>{pattern.label}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Speed
+          <select
+            value={settings.rate}
+            onChange={(e) => updateSettings({ rate: e.target.value as ArpeggioRate })}
+          >
+            {ARPEGGIO_RATES.map(rate => (
+              <option key={rate.id} value={rate.id}>{rate.label}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Octaves
+          <select
+            value={settings.octaves}
+            onChange={(e) => updateSettings({ octaves: parseInt(e.target.value, 10) })}
+          >
+            {Array.from({ length: MAX_ARPEGGIO_OCTAVES }, (_, i) => i + 1).map(octaves => (
+              <option key={octaves} value={octaves}>{octaves}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Note length: {Math.round(settings.gate * 100)}%
+          <input
+            type="range"
+            min="0.1"
+            max="1"
+            step="0.05"
+            value={settings.gate}
+            onChange={(e) => updateSettings({ gate: parseFloat(e.target.value) })}
+          />
+        </label>
+      </div>
+
+      <div className="arpeggiator-options">
+        <label>Assign to:</label>
+        <select value={assignKeypoint} onChange={(e) => setAssignKeypoint(e.target.value)}>
+          {ASSIGNABLE_KEYPOINTS.map(keypoint => (
+            <option key={keypoint} value={keypoint}>{keypoint.replace('_', ' ')}</option>
+          ))}
+        </select>
+        <select value={assignDirection} onChange={(e) => setAssignDirection(e.target.value)}>
+          {DIRECTIONS.map(direction => (
+            <option key={direction} value={direction}>{direction}</option>
+          ))}
+        </select>
+        <button onClick={assignArpeggio}>Assign</button>
+      </div>
+
+      {message && <p className="arpeggiator-message">{message}</p>}
+    </div>
+  );
+};
+
+export default ArpeggiatorPanel;
@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import { SoundEngine } from '../utils/SoundEngine';
+import { MAX_RECORDING_MINUTES, MAX_WAV_MINUTES, MIN_RECORDING_MINUTES, canConvertToWav } from '../utils/RecordingSettings';
+import { downloadFile } from '../utils/download';
+import './AudioRecorderPanel.css';
+
+interface AudioRecorderPanelProps {
+  soundEngine: SoundEngine;
+}
+
+// Show seconds as m:ss
+const formatTime = (seconds: number): string => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+// File extension for a recording's type (browsers differ in what they record)
+const extensionFor = (recording: Blob): string => {
+  if (recording.type.includes('ogg')) return 'ogg';
+  if (recording.type.includes('mp4')) return 'm4a';
+  return 'webm';
+};
+
+// Record what the performance sounds like and download it as audio
+const AudioRecorderPanel: React.FC<AudioRecorderPanelProps> = ({ soundEngine }) => {
+  const [isRecording, setIsRecording] = useState<boolean>(soundEngine.isAudioRecording());
+  const [elapsed, setElapsed] = useState<number>(0);
+  const [maxMinutes, setMaxMinutes] = useState<number>(soundEngine.getRecordingSettings().maxMinutes);
+  const [recording, setRecording] = useState<{ blob: Blob; name: string; seconds: number } | null>(null);
+  const [message, setMessage] = useState<string>('');
+
+  // Pick up finished recordings, including ones stopped at the maximum length
+  useEffect(() => {
+    soundEngine.setAudioRecordingCallback((blob, seconds) => {
+      const date = new Date().toISOString().slice(0, 16).replace(/[T:]/g, '-');
+      setRecording({ blob, name: `performance-${date}`, seconds });
+      setIsRecording(false);
+    });
+    return () => soundEngine.setAudioRecordingCallback(null);
+  }, [soundEngine]);
+
+  // Update the elapsed time while recording
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const interval = setInterval(() => setElapsed(soundEngine.getAudioRecordingElapsed()), 250);
+    return () => clearInterval(interval);
+  }, [soundEngine, isRecording]);
+
+  if (!soundEngine.canRecordAudio()) {
+    return null;
+  }
+
+  const toggleRecording = async () => {
+    try {
+      if (isRecording) {
+        setElapsed(soundEngine.getAudioRecordingElapsed());
+        await soundEngine.stopAudioRecording();
+        return;
+      }
+
+      setRecording(null);
+      setElapsed(0);
+      setMessage('');
+      if (await soundEngine.startAudioRecording()) {
+        setIsRecording(true);
+      }
+    } catch (error) {
+      console.error('Error recording audio:', error);
+      setIsRecording(soundEngine.isAudioRecording());
+      setMessage('Recording failed');
+    }
+  };
+
+  const changeMaxMinutes = (minutes: number) => {
+    soundEngine.setRecordingSettings({ maxMinutes: minutes });
+    setMaxMinutes(soundEngine.getRecordingSettings().maxMinutes);
+  };
+
+  const downloadWav = async () => {
+    if (!recording) return;
+    setMessage('Converting to WAV...');
+    try {
+      downloadFile(await soundEngine.convertRecordingToWav(recording.blob, recording.seconds), `${recording.name}.wav`);
+      setMessage('');
+    } catch (error) {
+      console.error('Error converting recording to WAV:', error);
+      setMessage('Could not convert the recording to WAV');
+    }
+  };
+
+  return (
+    <div className="audio-recorder">
+      <div className="audio-recorder-controls">
+        <button className={isRecording ? 'recording' : ''} onClick={toggleRecording}>
+          {isRecording ? 'Stop Recording' : 'Record Audio'}
+        </button>
+        <span className="audio-recorder-time" role="timer">
+          {formatTime(elapsed)} / {formatTime(maxMinutes * 60)}
+        </span>
+        <label>
+          Stop after
+          <input
+            type="number"
+            min={MIN_RECORDING_MINUTES}
+            max={MAX_RECORDING_MINUTES}
+            value={maxMinutes}
+            disabled={isRecording}
+            onChange={(e) => changeMaxMinutes(parseInt(e.target.value, 10))}
+          />
+          minutes
+        </label>
+      </div>
+
+      {recording && !isRecording && (
+        <div className="audio-recorder-controls">
+          <button onClick={() => downloadFile(recording.blob, `${recording.name}.${extensionFor(recording.blob)}`)}>
+            Download {extensionFor(recording.blob).toUpperCase()}
+          </button>
+          {canConvertToWav(recording.seconds) ? (
+            <button onClick={downloadWav}>Download WAV</button>
+          ) : (
+            <span className="audio-recorder-note">WAV is available for recordings up to {MAX_WAV_MINUTES} minutes</span>
+          )}
+        </div>
+      )}
+
+      {message && <span className="audio-recorder-message" role="status">{message}</span>}
+    </div>
+  );
+};
+
+export default AudioRecorderPanel;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { SoundEngine } from '../utils/SoundEngine';
+import { ProgressionSettings, formatProgressionText, parseProgressionText } from '../utils/ChordProgression';
+import './ChordProgressionPanel.css';
+
+interface ChordProgressionPanelProps {
+  soundEngine: SoundEngine;
+}
+
+// Keypoints offered for the reset and back gestures
+const GESTURE_KEYPOINTS = [
+  'right_wrist', 'left_wrist',
+  'right_elbow', 'left_elbow',
+  'right_shoulder', 'left_shoulder',
+  'nose'
+];
+
+// Edit the chords that progression mode steps through
+const ChordProgressionPanel: React.FC<ChordProgressionPanelProps> = ({ soundEngine }) => {
+  const [settings, setSettings] = useState<ProgressionSettings>(soundEngine.getProgressionSettings());
+  const [chordText, setChordText] = useState<string>(formatProgressionText(settings.steps));
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const updateSettings = (changes: Partial<ProgressionSettings>) => {
+    soundEngine.setProgressionSettings(changes);
+    setSettings(soundEngine.getProgressionSettings());
+  };
+
+  const applyChords = () => {
+    const { steps, errors: parseErrors } = parseProgressionText(chordText);
+    setErrors(parseErrors);
+    if (parseErrors.length === 0) {
+      updateSettings({ steps });
+    }
+  };
+
+  const gestureSelect = (value: string | null, onChange: (keypoint: string | null) => void, label: string) => (
+    <select value={value || ''} onChange={(e) => onChange(e.target.value || null)} aria-label={label}>
+      <option value="">None</option>
+      {GESTURE_KEYPOINTS.map(keypoint => (
+        <option key={keypoint} value={keypoint}>{keypoint.replace('_', ' ')}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="chord-progression">
+      <label className="checkbox-label">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => updateSettings({ enabled: e.target.checked })}
+        />
+        Every movement plays the next chord
+      </label>
+
+      <div className="form-group">
+        <label>Chords:</label>
+        <div className="chord-progression-input">
+          <input
+            type="text"
+            value={chordText}
+            onChange={(e) => setChordText(e.target.value)}
+            placeholder="e.g. Am F C G"
+          />
+          <button onClick={applyChords}>Use These Chords</button>
+        </div>
+        <p className="chord-progression-help">
+          Write the chords as they are in the song, e.g. G C D Em7. For exact notes, join them with +, e.g. C4+E4+G4.
+        </p>
+        {errors.map(error => (
+          <p key={error} className="chord-progression-error">{error}</p>
+        ))}
+      </div>
+
+      <div className="chord-progression-options">
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={settings.loop}
+            onChange={(e) => updateSettings({ loop: e.target.checked })}
+          />
+          Start again after the last chord
+        </label>
+        <label>
+          Back to the first chord:
+          {gestureSelect(settings.resetKeypoint, keypoint => updateSettings({ resetKeypoint: keypoint }), 'Reset gesture')}
+        </label>
+        <label>
+          Previous chord:
+          {gestureSelect(settings.backKeypoint, keypoint => updateSettings({ backKeypoint: keypoint }), 'Back gesture')}
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default ChordProgressionPanel;
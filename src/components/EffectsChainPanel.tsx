@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { SoundEngine } from '../utils/SoundEngine';
+import {
+  EFFECT_TYPES,
+  EFFECT_TYPE_NAMES,
+  EffectSettings,
+  EffectType,
+  createEffectSettings,
+  moveEffect
+} from '../utils/EffectSettings';
+import './EffectsChainPanel.css';
+
+interface EffectsChainPanelProps {
+  soundEngine: SoundEngine;
+}
+
+const EffectsChainPanel: React.FC<EffectsChainPanelProps> = ({ soundEngine }) => {
+  const [effects, setEffects] = useState<EffectSettings[]>(soundEngine.getEffects());
+  const [newEffectType, setNewEffectType] = useState<EffectType>('delay');
+
+  // Structural changes rebuild the chain
+  const applyEffects = (updated: EffectSettings[]) => {
+    soundEngine.setEffects(updated);
+    setEffects(soundEngine.getEffects());
+  };
+
+  // Parameter changes are applied to the running effect
+  const changeParam = (effect: EffectSettings, param: string, value: number) => {
+    soundEngine.setEffectParam(effect.id, param, value);
+    setEffects(soundEngine.getEffects());
+  };
+
+  const addEffect = () => {
+    applyEffects([...effects, createEffectSettings(newEffectType)]);
+  };
+
+  const toggleBypass = (effect: EffectSettings) => {
+    applyEffects(effects.map(e => (e.id === effect.id ? { ...e, bypassed: !e.bypassed } : e)));
+  };
+
+  const removeEffect = (effect: EffectSettings) => {
+    applyEffects(effects.filter(e => e.id !== effect.id));
+  };
+
+  return (
+    <div className="effects-chain">
+      {effects.length === 0 && <p>No effects: you'll hear the instrument on its own.</p>}
+
+      <ol className="effects-list">
+        {effects.map((effect, index) => {
+          const info = EFFECT_TYPES[effect.type];
+
+          return (
+            <li key={effect.id} className={effect.bypassed ? 'bypassed' : ''}>
+              <div className="effect-header">
+                <strong>{info.label}</strong>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={effect.bypassed}
+                    onChange={() => toggleBypass(effect)}
+                  />
+                  Bypass
+                </label>
+                <button
+                  onClick={() => applyEffects(moveEffect(effects, effect.id, -1))}
+                  disabled={index === 0}
+                  aria-label={`Move ${info.label} earlier`}
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => applyEffects(moveEffect(effects, effect.id, 1))}
+                  disabled={index === effects.length - 1}
+                  aria-label={`Move ${info.label} later`}
+                >
+                  ↓
+                </button>
+                <button onClick={() => removeEffect(effect)}>Remove</button>
+              </div>
+
+              <div className="effect-params">
+                {Object.entries(info.params).map(([param, paramInfo]) => (
+                  <label key={param}>
+                    {paramInfo.label}: {effect.params[param]}
+                    <input
+                      type="range"
+                      min={paramInfo.min}
+                      max={paramInfo.max}
+                      step={paramInfo.step}
+                      value={effect.params[param]}
+                      onChange={(e) => changeParam(effect, param, parseFloat(e.target.value))}
+                    />
+                  </label>
+                ))}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="effect-add">
+        <select
+          value={newEffectType}
+          onChange={(e) => setNewEffectType(e.target.value as EffectType)}
+          aria-label="Effect to add"
+        >
+          {EFFECT_TYPE_NAMES.map(type => (
+            <option key={type} value={type}>{EFFECT_TYPES[type].label}</option>
+          ))}
+        </select>
+        <button onClick={addEffect}>Add Effect</button>
+      </div>
+    </div>
+  );
+};
+
+export default EffectsChainPanel;
@@ -0,0 +1,29 @@
+import React, { useState, useEffect } from 'react';
+import { SoundEngine } from '../utils/SoundEngine';
+
+interface LimiterIndicatorProps {
+  soundEngine: SoundEngine;
+}
+
+// How often to check the limiter (ms)
+const POLL_INTERVAL = 200;
+
+// Shows when the master limiter is holding the volume down
+const LimiterIndicator: React.FC<LimiterIndicatorProps> = ({ soundEngine }) => {
+  const [isLimiting, setIsLimiting] = useState<boolean>(false);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setIsLimiting(soundEngine.isLimiting());
+    }, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [soundEngine]);
+
+  return (
+    <div className={`limiter-indicator ${isLimiting ? 'active' : ''}`} role="status">
+      {isLimiting ? 'Volume limited for safety' : 'Volume within safe level'}
+    </div>
+  );
+};
+
+export default LimiterIndicator;
@@ -0,0 +1,94 @@
+import React, { useState, useEffect } from 'react';
+import { SoundEngine } from '../utils/SoundEngine';
+import { LoopLayer, LoopState } from '../utils/LoopRecording';
+import './LooperPanel.css';
+
+interface LooperPanelProps {
+  soundEngine: SoundEngine;
+}
+
+// Keypoints that can be used to start and stop recording
+const GESTURE_KEYPOINTS = [
+  'right_wrist', 'left_wrist',
+  'right_elbow', 'left_elbow',
+  'right_shoulder', 'left_shoulder',
+  'nose'
+];
+
+const STATE_LABELS: Record<LoopState, string> = {
+  idle: 'Not recording',
+  recording: 'Recording first layer…',
+  overdubbing: 'Recording another layer…'
+};
+
+// Record phrases and layer them into a loop
+const LooperPanel: React.FC<LooperPanelProps> = ({ soundEngine }) => {
+  const [state, setState] = useState<LoopState>(soundEngine.getLooperState());
+  const [layers, setLayers] = useState<LoopLayer[]>(soundEngine.getLoopLayers());
+  const [isPaused, setIsPaused] = useState<boolean>(soundEngine.isLoopPaused());
+  const [gesture, setGesture] = useState<string>(soundEngine.getLooperGesture() || '');
+
+  // Keep up with changes made by the looper gesture and the clock
+  useEffect(() => {
+    soundEngine.setLooperChangeCallback(() => {
+      setState(soundEngine.getLooperState());
+      setLayers(soundEngine.getLoopLayers());
+      setIsPaused(soundEngine.isLoopPaused());
+    });
+    return () => soundEngine.setLooperChangeCallback(null);
+  }, [soundEngine]);
+
+  const toggleRecording = () => {
+    if (state === 'idle') {
+      soundEngine.startLoopRecording();
+    } else {
+      soundEngine.stopLoopRecording();
+    }
+  };
+
+  const updateGesture = (keypoint: string) => {
+    soundEngine.setLooperGesture(keypoint || null);
+    setGesture(keypoint);
+  };
+
+  return (
+    <div className="looper">
+      <div className="looper-controls">
+        <button className={state !== 'idle' ? 'recording' : ''} onClick={toggleRecording}>
+          {state === 'idle' ? (layers.length > 0 ? 'Add Layer' : 'Record Loop') : 'Stop Recording'}
+        </button>
+        <span className="looper-state" role="status">
+          {state === 'idle' && isPaused ? 'Paused until the clock starts' : STATE_LABELS[state]}
+        </span>
+        <label>
+          Record with
+          <select value={gesture} onChange={(e) => updateGesture(e.target.value)}>
+            <option value="">Buttons only</option>
+            {GESTURE_KEYPOINTS.map(keypoint => (
+              <option key={keypoint} value={keypoint}>{keypoint.replace('_', ' ')}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {layers.length > 0 && (
+        <ul className="looper-layers">
+          {layers.map((layer, index) => (
+            <li key={layer.id} className={layer.muted ? 'muted' : ''}>
+              <span>Layer {index + 1} ({layer.events.length} sounds)</span>
+              <button onClick={() => soundEngine.setLoopLayerMuted(layer.id, !layer.muted)} aria-pressed={layer.muted}>
+                {layer.muted ? 'Unmute' : 'Mute'}
+              </button>
+              <button onClick={() => soundEngine.clearLoopLayer(layer.id)}>Clear</button>
+            </li>
+          ))}
+          <li>
+            <button onClick={() => soundEngine.clearLoop()}>Clear All Layers</button>
+          </li>
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LooperPanel;
@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { SoundEngine, SoundMapping } from '../utils/SoundEngine';
+import { MidiPortInfo } from '../utils/MidiOutput';
+import { MIDI_CONTROLLERS, MIDI_OUTPUT_MODES, MidiOutputMode, MidiOutputSettings } from '../utils/MidiOutputSettings';
+import { MIXER_MIDI_CHANNELS, MixerChannelId } from '../utils/MixerSettings';
+import './MidiOutputPanel.css';
+
+interface MidiOutputPanelProps {
+  soundEngine: SoundEngine;
+  onAssign: (mapping: SoundMapping) => void;
+}
+
+// Voice group each kind of mapping plays on (and so its default MIDI channel)
+const GROUP_FOR_TYPE: Record<SoundMapping['soundType'], MixerChannelId> = {
+  note: 'melody',
+  arpeggio: 'melody',
+  chord: 'chords',
+  drum: 'drums',
+  effect: 'effects',
+  sample: 'samples'
+};
+
+const CHANNELS = Array.from({ length: 16 }, (_, i) => i + 1);
+
+// Send gestures to another app or a hardware synth over MIDI
+const MidiOutputPanel: React.FC<MidiOutputPanelProps> = ({ soundEngine, onAssign }) => {
+  const [settings, setSettings] = useState<MidiOutputSettings>(soundEngine.getMidiOutputSettings());
+  const [ports, setPorts] = useState<MidiPortInfo[]>(soundEngine.getMidiOutputPorts());
+  const [error, setError] = useState<string | null>(soundEngine.getMidiOutputError());
+  const [ready, setReady] = useState<boolean>(soundEngine.isMidiOutputReady());
+  const [mappings, setMappings] = useState<SoundMapping[]>(soundEngine.getMappings());
+
+  // Keep up with ports being plugged in and out
+  useEffect(() => {
+    const update = () => {
+      setPorts(soundEngine.getMidiOutputPorts());
+      setError(soundEngine.getMidiOutputError());
+      setReady(soundEngine.isMidiOutputReady());
+    };
+    soundEngine.setMidiOutputCallback(update);
+    return () => soundEngine.setMidiOutputCallback(null);
+  }, [soundEngine]);
+
+  if (!soundEngine.canSendMidi()) {
+    return <p>This browser can't send MIDI. Try Chrome or Edge.</p>;
+  }
+
+  const updateSettings = async (changes: Partial<MidiOutputSettings>) => {
+    setSettings({ ...settings, ...changes });
+    await soundEngine.setMidiOutputSettings(changes);
+    setPorts(soundEngine.getMidiOutputPorts());
+    setError(soundEngine.getMidiOutputError());
+    setReady(soundEngine.isMidiOutputReady());
+  };
+
+  const refreshPorts = async () => {
+    await soundEngine.refreshMidiOutputPorts();
+    setPorts(soundEngine.getMidiOutputPorts());
+    setError(soundEngine.getMidiOutputError());
+    setReady(soundEngine.isMidiOutputReady());
+  };
+
+  const changeChannel = (mapping: SoundMapping, channel: string) => {
+    onAssign({ ...mapping, midiChannel: channel ? parseInt(channel, 10) : undefined });
+    setMappings(soundEngine.getMappings());
+  };
+
+  return (
+    <div className="midi-output">
+      <p>Send your movements as MIDI notes and controller changes to a synth or music app.</p>
+
+      <div className="form-group">
+        <label>MIDI Output:</label>
+        <select
+          value={settings.mode}
+          onChange={(e) => updateSettings({ mode: e.target.value as MidiOutputMode })}
+        >
+          {MIDI_OUTPUT_MODES.map(mode => (
+            <option key={mode.id} value={mode.id}>{mode.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {settings.mode !== 'off' && (
+        <>
+          <div className="form-group">
+            <label>Send to:</label>
+            <div className="midi-output-port">
+              <select
+                value={settings.portId ?? ''}
+                onChange={(e) => updateSettings({ portId: e.target.value || null })}
+              >
+                <option value="">Choose a port...</option>
+                {ports.map(port => (
+                  <option key={port.id} value={port.id}>{port.name}</option>
+                ))}
+                {settings.portId && !ports.some(port => port.id === settings.portId) && (
+                  <option value={settings.portId}>Not connected</option>
+                )}
+              </select>
+              <button onClick={refreshPorts}>Refresh</button>
+            </div>
+          </div>
+
+          {error && <p className="midi-output-error" role="alert">{error}</p>}
+          {!error && ports.length === 0 && <p className="midi-output-status">No MIDI outputs found. Connect a device or start a virtual MIDI port, then press Refresh.</p>}
+          {ready && <p className="midi-output-status">Sending MIDI</p>}
+
+          {mappings.length > 0 && (
+            <table className="midi-output-channels">
+              <thead>
+                <tr>
+                  <th>Movement</th>
+                  <th>Sound</th>
+                  <th>Channel</th>
+                </tr>
+              </thead>
+              <tbody>
+                {mappings.map(mapping => (
+                  <tr key={`${mapping.keypoint}:${mapping.direction}:${mapping.soundType}`}>
+                    <td>{mapping.keypoint.replace('_', ' ')} {mapping.direction}</td>
+                    <td>{mapping.parameter ? `${mapping.parameter} (CC ${MIDI_CONTROLLERS[mapping.parameter]})` : mapping.soundType}</td>
+                    <td>
+                      <select
+                        value={mapping.midiChannel ?? ''}
+                        onChange={(e) => changeChannel(mapping, e.target.value)}
+                      >
+                        <option value="">Default ({MIXER_MIDI_CHANNELS[GROUP_FOR_TYPE[mapping.soundType]] + 1})</option>
+                        {CHANNELS.map(channel => (
+                          <option key={channel} value={channel}>{channel}</option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <p className="midi-output-status">
+            Movement controls are sent on channel 1: filter cutoff CC {MIDI_CONTROLLERS.filterCutoff},
+            resonance CC {MIDI_CONTROLLERS.filterResonance}, reverb CC {MIDI_CONTROLLERS.reverbWet},
+            echo CC {MIDI_CONTROLLERS.delayFeedback}, detune CC {MIDI_CONTROLLERS.detune},
+            pan CC {MIDI_CONTROLLERS.pan}, FM brightness CC {MIDI_CONTROLLERS.modulationIndex}.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MidiOutputPanel;
@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import { SoundEngine } from '../utils/SoundEngine';
+import { MIXER_CHANNELS, MixerChannelId, MixerChannelSettings, MixerSettings } from '../utils/MixerSettings';
+import './MixerPanel.css';
+
+interface MixerPanelProps {
+  soundEngine: SoundEngine;
+}
+
+// How often the level meters refresh (ms)
+const METER_INTERVAL = 100;
+
+// Show levels from -60 dB (empty) to 0 dB (full)
+const levelToPercent = (db: number): number => {
+  if (!isFinite(db)) return 0;
+  return Math.min(Math.max((db + 60) / 60, 0), 1) * 100;
+};
+
+const MixerPanel: React.FC<MixerPanelProps> = ({ soundEngine }) => {
+  const [settings, setSettings] = useState<MixerSettings>(soundEngine.getMixerSettings());
+  const [levels, setLevels] = useState<Record<string, number>>({});
+
+  // Poll the meters while the mixer is on screen
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setLevels(soundEngine.getMixerLevels());
+    }, METER_INTERVAL);
+    return () => clearInterval(interval);
+  }, [soundEngine]);
+
+  const updateChannel = (id: MixerChannelId, changes: Partial<MixerChannelSettings>) => {
+    soundEngine.setMixerChannel(id, changes);
+    setSettings(soundEngine.getMixerSettings());
+  };
+
+  return (
+    <div className="mixer">
+      {MIXER_CHANNELS.map(({ id, label }) => {
+        const channel = settings[id];
+
+        return (
+          <div key={id} className="mixer-channel">
+            <div className="mixer-label">{label}</div>
+
+            <div className="mixer-meter" aria-hidden="true">
+              <div className="mixer-meter-level" style={{ height: `${levelToPercent(levels[id])}%` }} />
+            </div>
+
+            <label>
+              Level
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.05"
+                value={channel.gain}
+                onChange={(e) => updateChannel(id, { gain: parseFloat(e.target.value) })}
+                aria-label={`${label} level`}
+              />
+            </label>
+
+            <label>
+              Pan
+              <input
+                type="range"
+                min="-1"
+                max="1"
+                step="0.1"
+                value={channel.pan}
+                onChange={(e) => updateChannel(id, { pan: parseFloat(e.target.value) })}
+                aria-label={`${label} pan`}
+              />
+            </label>
+
+            <div className="mixer-buttons">
+              <button
+                className={channel.mute ? 'active' : ''}
+                onClick={() => updateChannel(id, { mute: !channel.mute })}
+                aria-pressed={channel.mute}
+                aria-label={`Mute ${label}`}
+              >
+                M
+              </button>
+              <button
+                className={channel.solo ? 'active' : ''}
+                onClick={() => updateChannel(id, { solo: !channel.solo })}
+                aria-pressed={channel.solo}
+                aria-label={`Solo ${label}`}
+              >
+                S
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MixerPanel;
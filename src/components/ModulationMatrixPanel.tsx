@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { SoundEngine } from '../utils/SoundEngine';
+import {
+  MODULATION_CURVES,
+  MODULATION_DESTINATIONS,
+  MODULATION_SOURCE_TYPES,
+  ModulationCurve,
+  ModulationDestination,
+  ModulationRoute,
+  ModulationSourceType,
+  createModulationRoute
+} from '../utils/ModulationMatrix';
+import './ModulationMatrixPanel.css';
+
+interface ModulationMatrixPanelProps {
+  soundEngine: SoundEngine;
+}
+
+// Keypoints offered as control sources
+const SOURCE_KEYPOINTS = [
+  'right_wrist', 'left_wrist',
+  'right_elbow', 'left_elbow',
+  'right_shoulder', 'left_shoulder',
+  'nose'
+];
+
+const SOURCE_LABELS: Record<ModulationSourceType, string> = {
+  x: 'left/right position of',
+  y: 'height of',
+  velocity: 'speed of',
+  distance: 'distance between'
+};
+
+const DESTINATIONS = Object.keys(MODULATION_DESTINATIONS) as ModulationDestination[];
+
+const formatKeypoint = (keypoint: string) => keypoint.replace('_', ' ');
+
+const ModulationMatrixPanel: React.FC<ModulationMatrixPanelProps> = ({ soundEngine }) => {
+  const [routes, setRoutes] = useState<ModulationRoute[]>(soundEngine.getModulationRoutes());
+
+  const applyRoutes = (updated: ModulationRoute[]) => {
+    soundEngine.setModulationRoutes(updated);
+    setRoutes(soundEngine.getModulationRoutes());
+  };
+
+  const addRoute = () => {
+    applyRoutes([...routes, createModulationRoute({ type: 'y', keypoint: 'right_wrist' }, 'filterCutoff')]);
+  };
+
+  const updateRoute = (id: string, changes: Partial<ModulationRoute>) => {
+    applyRoutes(routes.map(route => (route.id === id ? { ...route, ...changes } : route)));
+  };
+
+  // Changing the destination resets the range to suit it
+  const changeDestination = (route: ModulationRoute, destination: ModulationDestination) => {
+    const { min, max } = MODULATION_DESTINATIONS[destination];
+    updateRoute(route.id, { destination, min, max });
+  };
+
+  const changeSourceType = (route: ModulationRoute, type: ModulationSourceType) => {
+    const otherKeypoint = type === 'distance'
+      ? route.source.otherKeypoint || SOURCE_KEYPOINTS.find(k => k !== route.source.keypoint)
+      : undefined;
+    updateRoute(route.id, { source: { ...route.source, type, otherKeypoint } });
+  };
+
+  const removeRoute = (id: string) => {
+    applyRoutes(routes.filter(route => route.id !== id));
+  };
+
+  return (
+    <div className="modulation-matrix">
+      {routes.length === 0 && (
+        <p>No movement controls yet. Add one to shape the sound by moving.</p>
+      )}
+
+      {routes.map(route => {
+        const destination = MODULATION_DESTINATIONS[route.destination];
+        const step = destination.max - destination.min > 10 ? 1 : 0.01;
+
+        return (
+          <div key={route.id} className="modulation-route">
+            <div className="modulation-row">
+              <select
+                value={route.destination}
+                onChange={(e) => changeDestination(route, e.target.value as ModulationDestination)}
+                aria-label="Sound to control"
+              >
+                {DESTINATIONS.map(d => (
+                  <option key={d} value={d}>{MODULATION_DESTINATIONS[d].label}</option>
+                ))}
+              </select>
+              <span>follows the</span>
+              <select
+                value={route.source.type}
+                onChange={(e) => changeSourceType(route, e.target.value as ModulationSourceType)}
+                aria-label="Movement to follow"
+              >
+                {MODULATION_SOURCE_TYPES.map(type => (
+                  <option key={type} value={type}>{SOURCE_LABELS[type]}</option>
+                ))}
+              </select>
+              <select
+                value={route.source.keypoint}
+                onChange={(e) => updateRoute(route.id, { source: { ...route.source, keypoint: e.target.value } })}
+                aria-label="Body part"
+              >
+                {SOURCE_KEYPOINTS.map(keypoint => (
+                  <option key={keypoint} value={keypoint}>{formatKeypoint(keypoint)}</option>
+                ))}
+              </select>
+              {route.source.type === 'distance' && (
+                <>
+                  <span>and</span>
+                  <select
+                    value={route.source.otherKeypoint}
+                    onChange={(e) => updateRoute(route.id, { source: { ...route.source, otherKeypoint: e.target.value } })}
+                    aria-label="Second body part"
+                  >
+                    {SOURCE_KEYPOINTS.map(keypoint => (
+                      <option key={keypoint} value={keypoint}>{formatKeypoint(keypoint)}</option>
+                    ))}
+                  </select>
+                </>
+              )}
+            </div>
+
+            <div className="modulation-row">
+              <label>
+                From
+                <input
+                  type="number"
+                  min={destination.min}
+                  max={destination.max}
+                  step={step}
+                  value={route.min}
+                  onChange={(e) => updateRoute(route.id, { min: parseFloat(e.target.value) || 0 })}
+                />
+              </label>
+              <label>
+                To
+                <input
+                  type="number"
+                  min={destination.min}
+                  max={destination.max}
+                  step={step}
+                  value={route.max}
+                  onChange={(e) => updateRoute(route.id, { max: parseFloat(e.target.value) || 0 })}
+                />
+              </label>
+              {destination.unit && <span>{destination.unit}</span>}
+              <label>
+                Curve
+                <select
+                  value={route.curve}
+                  onChange={(e) => updateRoute(route.id, { curve: e.target.value as ModulationCurve })}
+                >
+                  {MODULATION_CURVES.map(curve => (
+                    <option key={curve} value={curve}>{curve}</option>
+                  ))}
+                </select>
+              </label>
+              {route.curve === 'stepped' && (
+                <label>
+                  Steps
+                  <input
+                    type="number"
+                    min="2"
+                    max="12"
+                    value={route.steps || 4}
+                    onChange={(e) => updateRoute(route.id, { steps: parseInt(e.target.value, 10) || 4 })}
+                  />
+                </label>
+              )}
+            </div>
+
+            <div className="modulation-row">
+              <label>
+                Smoothing
+                <input
+                  type="range"
+                  min="0"
+                  max="0.95"
+                  step="0.05"
+                  value={route.smoothing}
+                  onChange={(e) => updateRoute(route.id, { smoothing: parseFloat(e.target.value) })}
+                />
+              </label>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={route.invert}
+                  onChange={(e) => updateRoute(route.id, { invert: e.target.checked })}
+                />
+                Reverse direction
+              </label>
+              <button onClick={() => removeRoute(route.id)}>Remove</button>
+            </div>
+          </div>
+        );
+      })}
+
+      <button onClick={addRoute}>Add Movement Control</button>
+    </div>
+  );
+};
+
+export default ModulationMatrixPanel;
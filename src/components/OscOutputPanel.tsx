@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from 'react';
+import { OscConnectionState, OscOutput } from '../utils/OscOutput';
+import { MAX_SEND_RATE, MIN_SEND_RATE, OscSettings, isValidOscAddress, isValidWebSocketUrl } from '../utils/OscSettings';
+import './OscOutputPanel.css';
+
+interface OscOutputPanelProps {
+  oscOutput: OscOutput;
+}
+
+const STATE_LABELS: Record<OscConnectionState, string> = {
+  off: 'Off',
+  connecting: 'Connecting...',
+  connected: 'Connected',
+  error: 'Not connected (retrying every few seconds)'
+};
+
+// Stream movement and note data to Max/MSP, Pure Data or SuperCollider
+const OscOutputPanel: React.FC<OscOutputPanelProps> = ({ oscOutput }) => {
+  const [settings, setSettings] = useState<OscSettings>(oscOutput.getSettings());
+  const [draft, setDraft] = useState<OscSettings>(oscOutput.getSettings());
+  const [state, setState] = useState<OscConnectionState>(oscOutput.getState());
+  const [message, setMessage] = useState<string>('');
+
+  useEffect(() => {
+    oscOutput.setStateCallback(setState);
+    return () => oscOutput.setStateCallback(null);
+  }, [oscOutput]);
+
+  const updateSettings = (changes: Partial<OscSettings>) => {
+    oscOutput.setSettings(changes);
+    setSettings(oscOutput.getSettings());
+    setDraft({ ...draft, ...changes });
+  };
+
+  // Check the typed-in connection details before using them
+  const applyDraft = () => {
+    if (!isValidWebSocketUrl(draft.url)) {
+      setMessage('The address must start with ws:// or wss://');
+      return;
+    }
+    const badAddress = [draft.movementAddress, draft.noteAddress].find(address => !isValidOscAddress(address));
+    if (badAddress !== undefined) {
+      setMessage(`"${badAddress}" is not a valid OSC address (e.g. /gesture/movement/{keypoint})`);
+      return;
+    }
+
+    setMessage('');
+    updateSettings({ url: draft.url, movementAddress: draft.movementAddress, noteAddress: draft.noteAddress });
+  };
+
+  const changed = draft.url !== settings.url ||
+    draft.movementAddress !== settings.movementAddress ||
+    draft.noteAddress !== settings.noteAddress;
+
+  return (
+    <div className="osc-output">
+      <p>
+        Send movements and notes as OSC messages over a WebSocket. Run <code>npm run osc-bridge</code> to
+        pass them on to OSC tools listening on UDP.
+      </p>
+
+      <label className="checkbox-label">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => updateSettings({ enabled: e.target.checked })}
+        />
+        Send OSC
+      </label>
+      <p className={`osc-output-state ${state}`} role="status">{STATE_LABELS[state]}</p>
+
+      <div className="form-group">
+        <label htmlFor="osc-url">WebSocket address:</label>
+        <input
+          id="osc-url"
+          type="text"
+          value={draft.url}
+          onChange={(e) => setDraft({ ...draft, url: e.target.value.trim() })}
+        />
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="osc-movement-address">Movement address ({'{keypoint}'} is replaced):</label>
+        <input
+          id="osc-movement-address"
+          type="text"
+          value={draft.movementAddress}
+          onChange={(e) => setDraft({ ...draft, movementAddress: e.target.value.trim() })}
+        />
+        <small>Arguments: keypoint, direction, velocity, confidence, intentional (0 or 1)</small>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="osc-note-address">Note address ({'{group}'} is replaced):</label>
+        <input
+          id="osc-note-address"
+          type="text"
+          value={draft.noteAddress}
+          onChange={(e) => setDraft({ ...draft, noteAddress: e.target.value.trim() })}
+        />
+        <small>Arguments: group, note name, MIDI note, velocity (0 when a held note ends), duration (0 while held)</small>
+      </div>
+
+      {changed && <button onClick={applyDraft}>Apply</button>}
+      {message && <p className="osc-output-error">{message}</p>}
+
+      <div className="form-group">
+        <label>Movement updates: {settings.sendRate} per second for each body part</label>
+        <input
+          type="range"
+          min={MIN_SEND_RATE}
+          max={MAX_SEND_RATE}
+          step="1"
+          value={settings.sendRate}
+          onChange={(e) => updateSettings({ sendRate: parseInt(e.target.value, 10) })}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default OscOutputPanel;
@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+import { SoundEngine } from '../utils/SoundEngine';
+import { downloadFile } from '../utils/download';
+
+interface PerformanceExportProps {
+  soundEngine: SoundEngine;
+}
+
+// Download what has been played as a MIDI file for notation or DAW software
+const PerformanceExport: React.FC<PerformanceExportProps> = ({ soundEngine }) => {
+  const [message, setMessage] = useState<string>('');
+
+  const downloadMidi = () => {
+    const midi = soundEngine.exportPerformanceMidi();
+    if (!midi) {
+      setMessage('Nothing has been played yet');
+      return;
+    }
+
+    const date = new Date().toISOString().slice(0, 16).replace(/[T:]/g, '-');
+    downloadFile(new Blob([midi], { type: 'audio/midi' }), `performance-${date}.mid`);
+    setMessage(`Saved ${soundEngine.getPerformanceNoteCount()} notes`);
+  };
+
+  const clearLog = () => {
+    soundEngine.clearPerformanceLog();
+    setMessage('Started a new recording');
+  };
+
+  return (
+    <div className="performance-export">
+      <button onClick={downloadMidi}>Download MIDI</button>
+      <button onClick={clearLog}>Start New MIDI Recording</button>
+      {message && <span className="performance-export-message" role="status">{message}</span>}
+    </div>
+  );
+};
+
+export default PerformanceExport;
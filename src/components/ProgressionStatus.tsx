@@ -0,0 +1,37 @@
+import React, { useState, useEffect } from 'react';
+import { SoundEngine } from '../utils/SoundEngine';
+import { formatProgressionText } from '../utils/ChordProgression';
+import './ChordProgressionPanel.css';
+
+interface ProgressionStatusProps {
+  soundEngine: SoundEngine;
+}
+
+// Shows the chord progression with the chord played last highlighted
+const ProgressionStatus: React.FC<ProgressionStatusProps> = ({ soundEngine }) => {
+  const [position, setPosition] = useState<number>(soundEngine.getProgressionPosition());
+  const settings = soundEngine.getProgressionSettings();
+
+  useEffect(() => {
+    soundEngine.setProgressionCallback(setPosition);
+    return () => soundEngine.setProgressionCallback(null);
+  }, [soundEngine]);
+
+  if (!settings.enabled || settings.steps.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="progression-status" role="status">
+      <span>Chords:</span>
+      {settings.steps.map((step, index) => (
+        <span key={index} className={`progression-chord ${index === position ? 'current' : ''}`}>
+          {formatProgressionText([step])}
+        </span>
+      ))}
+      <button onClick={() => soundEngine.resetProgression()}>Start Over</button>
+    </div>
+  );
+};
+
+export default ProgressionStatus;
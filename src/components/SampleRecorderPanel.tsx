@@ -0,0 +1,218 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { SoundEngine, SoundMapping } from '../utils/SoundEngine';
+import { SampleRecorder, trimSamples, getChannels } from '../utils/SampleRecorder';
+import { MAX_SAMPLE_DURATION, UserSampleInfo, isPlayableClip } from '../utils/UserSampleStore';
+import './SampleRecorderPanel.css';
+
+interface SampleRecorderPanelProps {
+  soundEngine: SoundEngine;
+  onAssign: (mapping: SoundMapping) => void;
+}
+
+// Keypoints offered when assigning a recorded sound to a gesture
+const ASSIGNABLE_KEYPOINTS = [
+  'right_wrist', 'left_wrist',
+  'right_elbow', 'left_elbow',
+  'right_shoulder', 'left_shoulder',
+  'nose'
+];
+
+const DIRECTIONS = ['up', 'down', 'left', 'right', 'any'];
+
+interface Recording {
+  channels: Float32Array[];
+  sampleRate: number;
+  duration: number;
+}
+
+const SampleRecorderPanel: React.FC<SampleRecorderPanelProps> = ({
+  soundEngine,
+  onAssign
+}) => {
+  const [samples, setSamples] = useState<UserSampleInfo[]>(soundEngine.getUserSamples());
+  const [isRecording, setIsRecording] = useState<boolean>(false);
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [trimStart, setTrimStart] = useState<number>(0);
+  const [trimEnd, setTrimEnd] = useState<number>(0);
+  const [sampleName, setSampleName] = useState<string>('');
+  const [assignKeypoint, setAssignKeypoint] = useState<string>('right_wrist');
+  const [assignDirection, setAssignDirection] = useState<string>('up');
+  const [message, setMessage] = useState<string>('');
+
+  const recorderRef = useRef<SampleRecorder>(new SampleRecorder());
+
+  // Make sure the microphone is released if we leave mid-recording
+  useEffect(() => {
+    const recorder = recorderRef.current;
+    return () => recorder.stop();
+  }, []);
+
+  const startRecording = async () => {
+    setMessage('');
+    setRecording(null);
+    setIsRecording(true);
+
+    try {
+      const audioBuffer = await recorderRef.current.start(MAX_SAMPLE_DURATION);
+      setRecording({
+        channels: getChannels(audioBuffer),
+        sampleRate: audioBuffer.sampleRate,
+        duration: audioBuffer.duration
+      });
+      setTrimStart(0);
+      setTrimEnd(audioBuffer.duration);
+    } catch (error) {
+      console.error('Error recording sound:', error);
+      setMessage('Could not record from the microphone. Please check your browser permissions.');
+    } finally {
+      setIsRecording(false);
+    }
+  };
+
+  const getTrimmedChannels = (current: Recording) => {
+    return trimSamples(current.channels, current.sampleRate, trimStart, trimEnd);
+  };
+
+  const saveRecording = () => {
+    if (!recording) return;
+
+    const saved = soundEngine.saveUserSample(sampleName, getTrimmedChannels(recording), recording.sampleRate);
+    if (!saved) {
+      setMessage('Could not save the sound. Storage may be full - try deleting an old recording.');
+      return;
+    }
+
+    setSamples(soundEngine.getUserSamples());
+    setRecording(null);
+    setSampleName('');
+    setMessage(`Saved "${saved.name}"`);
+  };
+
+  const deleteSample = (sample: UserSampleInfo) => {
+    if (!window.confirm(`Delete recorded sound "${sample.name}"?`)) {
+      return;
+    }
+
+    if (!soundEngine.deleteUserSample(sample.id)) {
+      setMessage(`Could not delete "${sample.name}"`);
+    }
+    setSamples(soundEngine.getUserSamples());
+  };
+
+  const assignSample = (sample: UserSampleInfo) => {
+    onAssign(soundEngine.createCustomMapping(assignKeypoint, assignDirection, 'sample', sample.id));
+    setMessage(`"${sample.name}" will play on ${assignKeypoint.replace('_', ' ')} ${assignDirection}`);
+  };
+
+  // An empty or very short trim can't be played or saved
+  const trimmedChannels = recording ? getTrimmedChannels(recording) : [];
+  const canUseTrim = recording !== null && isPlayableClip(trimmedChannels, recording.sampleRate);
+
+  if (!SampleRecorder.isSupported()) {
+    return <p>Recording sounds is not supported in this browser.</p>;
+  }
+
+  return (
+    <div className="sample-recorder">
+      <p>Record a familiar sound (up to {MAX_SAMPLE_DURATION} seconds) and play it with a movement.</p>
+
+      <div className="action-buttons">
+        {isRecording ? (
+          <button className="recording" onClick={() => recorderRef.current.stop()}>
+            Stop Recording
+          </button>
+        ) : (
+          <button onClick={startRecording}>
+            Record Sound
+          </button>
+        )}
+      </div>
+
+      {recording && (
+        <div className="sample-trim">
+          <div className="form-group">
+            <label>Start: {trimStart.toFixed(2)}s</label>
+            <input
+              type="range"
+              min="0"
+              max={recording.duration}
+              step="0.01"
+              value={trimStart}
+              onChange={(e) => setTrimStart(Math.min(parseFloat(e.target.value), trimEnd - 0.05))}
+            />
+          </div>
+
+          <div className="form-group">
+            <label>End: {trimEnd.toFixed(2)}s</label>
+            <input
+              type="range"
+              min="0"
+              max={recording.duration}
+              step="0.01"
+              value={trimEnd}
+              onChange={(e) => setTrimEnd(Math.max(parseFloat(e.target.value), trimStart + 0.05))}
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Name:</label>
+            <input
+              type="text"
+              placeholder="e.g. Mum saying hello"
+              value={sampleName}
+              onChange={(e) => setSampleName(e.target.value)}
+            />
+          </div>
+
+          <button
+            onClick={() => soundEngine.previewRecording(trimmedChannels, recording.sampleRate)}
+            disabled={!canUseTrim}
+          >
+            Preview
+          </button>
+          <button onClick={saveRecording} disabled={!canUseTrim}>
+            Save Sound
+          </button>
+          <button onClick={() => setRecording(null)}>
+            Discard
+          </button>
+        </div>
+      )}
+
+      {message && <p className="sample-message">{message}</p>}
+
+      {samples.length > 0 && (
+        <>
+          <div className="sample-assign">
+            <label>Assign to:</label>
+            <select value={assignKeypoint} onChange={(e) => setAssignKeypoint(e.target.value)}>
+              {ASSIGNABLE_KEYPOINTS.map(keypoint => (
+                <option key={keypoint} value={keypoint}>{keypoint.replace('_', ' ')}</option>
+              ))}
+            </select>
+            <select value={assignDirection} onChange={(e) => setAssignDirection(e.target.value)}>
+              {DIRECTIONS.map(direction => (
+                <option key={direction} value={direction}>{direction}</option>
+              ))}
+            </select>
+          </div>
+
+          <ul className="custom-preset-list">
+            {samples.map(sample => (
+              <li key={sample.id}>
+                <span>{sample.name} ({sample.duration.toFixed(1)}s)</span>
+                <span>
+                  <button onClick={() => soundEngine.playUserSample(sample.id)}>Play</button>
+                  <button onClick={() => assignSample(sample)}>Assign</button>
+                  <button onClick={() => deleteSample(sample)}>Delete</button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SampleRecorderPanel;
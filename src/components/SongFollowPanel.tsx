@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { SoundEngine } from '../utils/SoundEngine';
+import { MidiFile, parseMidiFile } from '../utils/midiFile';
+import { Song, parseSongJson, songFromMidi } from '../utils/SongFollower';
+import './SongFollowPanel.css';
+
+interface SongFollowPanelProps {
+  soundEngine: SoundEngine;
+}
+
+// Load a MIDI or JSON melody to play one note per movement
+const SongFollowPanel: React.FC<SongFollowPanelProps> = ({ soundEngine }) => {
+  const [song, setSong] = useState<Song | null>(soundEngine.getSong());
+  const [midi, setMidi] = useState<{ file: MidiFile; name: string } | null>(null);
+  const [melodyTrack, setMelodyTrack] = useState<number>(0);
+  const [accompaniment, setAccompaniment] = useState<boolean>(soundEngine.isSongAccompanimentEnabled());
+  const [messages, setMessages] = useState<string[]>([]);
+
+  const selectSong = (newSong: Song | null) => {
+    soundEngine.loadSong(newSong);
+    setSong(newSong);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    const name = file.name.replace(/\.(json|midi?)$/i, '');
+    try {
+      if (/\.json$/i.test(file.name)) {
+        const { song, errors } = parseSongJson(await file.text(), name);
+        if (!song) {
+          setMessages(errors);
+          return;
+        }
+        setMidi(null);
+        selectSong(song);
+      } else {
+        const midiFile = parseMidiFile(await file.arrayBuffer());
+        // Start with the first track that has notes as the melody
+        const track = Math.max(midiFile.tracks.findIndex(t => t.notes.length > 0), 0);
+        setMidi({ file: midiFile, name });
+        setMelodyTrack(track);
+        selectSong(songFromMidi(midiFile, name, track));
+      }
+      setMessages([]);
+    } catch (error) {
+      console.error('Error reading song file:', error);
+      setMessages([error instanceof Error ? error.message : 'Could not read the selected file']);
+    }
+  };
+
+  const changeMelodyTrack = (track: number) => {
+    if (!midi) return;
+    setMelodyTrack(track);
+    selectSong(songFromMidi(midi.file, midi.name, track));
+  };
+
+  const changeAccompaniment = (enabled: boolean) => {
+    soundEngine.setSongAccompanimentEnabled(enabled);
+    setAccompaniment(enabled);
+  };
+
+  return (
+    <div className="song-follow">
+      <p>Load a song and every movement plays its next melody note, at the pitch it is written.</p>
+
+      <div className="form-group">
+        <label htmlFor="song-file">Song file (MIDI or JSON):</label>
+        <input
+          id="song-file"
+          type="file"
+          accept=".mid,.midi,audio/midi,.json,application/json"
+          onChange={handleFile}
+        />
+      </div>
+
+      {messages.length > 0 && (
+        <ul className="song-follow-error">
+          {messages.map((message, idx) => (
+            <li key={idx}>{message}</li>
+          ))}
+        </ul>
+      )}
+
+      {song && (
+        <>
+          <p>
+            <strong>{song.name}</strong>: {song.melody.length} melody notes
+            {song.accompaniment.length > 0 && `, ${song.accompaniment.length} accompaniment notes`}
+          </p>
+
+          {midi && midi.file.tracks.length > 1 && (
+            <div className="form-group">
+              <label>Melody track:</label>
+              <select value={melodyTrack} onChange={(e) => changeMelodyTrack(parseInt(e.target.value, 10))}>
+                {midi.file.tracks.map((track, index) => (
+                  <option key={index} value={index} disabled={track.notes.length === 0}>
+                    {track.name || `Track ${index + 1}`} ({track.notes.length} notes)
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={accompaniment}
+              onChange={(e) => changeAccompaniment(e.target.checked)}
+            />
+            Play the other parts along with me (they wait for my next movement)
+          </label>
+
+          <div className="action-buttons">
+            <button onClick={() => soundEngine.resetSong()}>Start Song Over</button>
+            <button onClick={() => selectSong(null)}>Stop Following Song</button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SongFollowPanel;
@@ -0,0 +1,39 @@
+import React, { useState, useEffect } from 'react';
+import { SoundEngine } from '../utils/SoundEngine';
+import './SongFollowPanel.css';
+
+interface SongStatusProps {
+  soundEngine: SoundEngine;
+}
+
+// Shows how far through the loaded song the user is
+const SongStatus: React.FC<SongStatusProps> = ({ soundEngine }) => {
+  const [position, setPosition] = useState<number>(soundEngine.getSongPosition());
+  const song = soundEngine.getSong();
+
+  useEffect(() => {
+    soundEngine.setSongCallback(setPosition);
+    return () => soundEngine.setSongCallback(null);
+  }, [soundEngine]);
+
+  if (!song || song.melody.length === 0) {
+    return null;
+  }
+
+  const total = song.melody.length;
+  const nextNotes = position < total ? song.melody[position].notes.join(' ') : null;
+
+  return (
+    <div className="song-status" role="status">
+      <span>
+        {song.name}: {nextNotes ? `next ${nextNotes} (${position + 1} of ${total})` : 'finished'}
+      </span>
+      <div className="song-status-progress" aria-hidden="true">
+        <div className="song-status-progress-bar" style={{ width: `${(position / total) * 100}%` }} />
+      </div>
+      <button onClick={() => soundEngine.resetSong()}>Start Over</button>
+    </div>
+  );
+};
+
+export default SongStatus;
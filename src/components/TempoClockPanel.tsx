@@ -0,0 +1,141 @@
+import React, { useState, useEffect } from 'react';
+import { SoundEngine } from '../utils/SoundEngine';
+import {
+  ClockSettings,
+  MAX_BPM,
+  METRONOME_MODES,
+  MIN_BPM,
+  MetronomeMode,
+  QUANTIZE_GRIDS,
+  QuantizeGrid
+} from '../utils/ClockSettings';
+import './TempoClockPanel.css';
+
+interface TempoClockPanelProps {
+  soundEngine: SoundEngine;
+}
+
+const METRONOME_LABELS: Record<MetronomeMode, string> = {
+  off: 'Off',
+  audible: 'Click',
+  visual: 'Flash',
+  both: 'Click and flash'
+};
+
+// Tempo, metronome and quantize controls for playing in time with others
+const TempoClockPanel: React.FC<TempoClockPanelProps> = ({ soundEngine }) => {
+  const [settings, setSettings] = useState<ClockSettings>(soundEngine.getClockSettings());
+  const [isRunning, setIsRunning] = useState<boolean>(soundEngine.isClockRunning());
+  const [currentBeat, setCurrentBeat] = useState<number | null>(null);
+
+  // Flash the beat lights while the panel is shown
+  useEffect(() => {
+    soundEngine.setBeatCallback(beat => setCurrentBeat(beat));
+    return () => soundEngine.setBeatCallback(null);
+  }, [soundEngine]);
+
+  // Keep up with the clock when other features start it or change its tempo
+  useEffect(() => {
+    soundEngine.setClockChangeCallback(() => {
+      setSettings(soundEngine.getClockSettings());
+      setIsRunning(soundEngine.isClockRunning());
+    });
+    return () => soundEngine.setClockChangeCallback(null);
+  }, [soundEngine]);
+
+  const updateSettings = (changes: Partial<ClockSettings>) => {
+    soundEngine.setClockSettings(changes);
+    setSettings(soundEngine.getClockSettings());
+  };
+
+  const toggleRunning = () => {
+    soundEngine.setClockRunning(!isRunning);
+    setIsRunning(soundEngine.isClockRunning());
+    setCurrentBeat(null);
+  };
+
+  const showLights = settings.metronome === 'visual' || settings.metronome === 'both';
+
+  return (
+    <div className="tempo-clock">
+      <div className="tempo-clock-controls">
+        <button onClick={toggleRunning}>
+          {isRunning ? 'Stop Clock' : 'Start Clock'}
+        </button>
+        <label>
+          Tempo: {settings.bpm} BPM
+          <input
+            type="range"
+            min={MIN_BPM}
+            max={MAX_BPM}
+            step="1"
+            value={settings.bpm}
+            onChange={(e) => updateSettings({ bpm: parseFloat(e.target.value) })}
+          />
+        </label>
+        <label>
+          Beats per bar
+          <select
+            value={settings.beatsPerBar}
+            onChange={(e) => updateSettings({ beatsPerBar: parseInt(e.target.value, 10) })}
+          >
+            {[2, 3, 4, 5, 6, 7].map(beats => (
+              <option key={beats} value={beats}>{beats}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Metronome
+          <select
+            value={settings.metronome}
+            onChange={(e) => updateSettings({ metronome: e.target.value as MetronomeMode })}
+          >
+            {METRONOME_MODES.map(mode => (
+              <option key={mode} value={mode}>{METRONOME_LABELS[mode]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="tempo-clock-controls">
+        <label>
+          Play on the beat
+          <select
+            value={settings.quantize}
+            onChange={(e) => updateSettings({ quantize: e.target.value as QuantizeGrid })}
+          >
+            {QUANTIZE_GRIDS.map(grid => (
+              <option key={grid.id} value={grid.id}>{grid.label}</option>
+            ))}
+          </select>
+        </label>
+        {settings.quantize !== 'off' && (
+          <label>
+            Strength: {Math.round(settings.quantizeStrength * 100)}%
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={settings.quantizeStrength}
+              onChange={(e) => updateSettings({ quantizeStrength: parseFloat(e.target.value) })}
+            />
+          </label>
+        )}
+      </div>
+
+      {isRunning && showLights && (
+        <div className="tempo-clock-beats" aria-hidden="true">
+          {Array.from({ length: settings.beatsPerBar }, (_, beat) => (
+            <span
+              key={beat}
+              className={`tempo-clock-beat ${beat === 0 ? 'downbeat' : ''} ${beat === currentBeat ? 'active' : ''}`}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TempoClockPanel;
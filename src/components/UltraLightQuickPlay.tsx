@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import UltraLightWebcam from './UltraLightWebcam';
+import AudioRecorderPanel from './AudioRecorderPanel';
 import { SoundEngine, SoundPreset } from '../utils/SoundEngine';
 import './CalibrationComponent.css';
 import './QuickPlay.css';
@@ -138,6 +139,9 @@ const UltraLightQuickPlay: React.FC<UltraLightQuickPlayProps> = ({
         keypointName = x < width / 2 ? 'left_hip' : 'right_hip';
       }
       
+      // Let continuous controls (like the theremin) follow the motion
+      soundEngine.updateKeypointPosition(keypointName, x / width, y / height);
+      
       // Update UI occasionally (not for every detection)
       if (Math.random() < 0.2) {
         setLastKeypoint(`${keypointName} ${direction}`);
@@ -155,11 +159,13 @@ const UltraLightQuickPlay: React.FC<UltraLightQuickPlayProps> = ({
       lastTriggerTimeRef.current[keypointName] = now;
       
       // Trigger sound
+      // The motion position is already mirrored, so x is from the player's side
       soundEngine.processMovement(
         keypointName,
         true,
         direction,
-        velocity
+        velocity,
+        { x: x / width, y: y / height }
       );
     } catch (error) {
       console.error("Error processing motion:", error);
@@ -294,6 +300,8 @@ const UltraLightQuickPlay: React.FC<UltraLightQuickPlayProps> = ({
           </div>
         </div>
         
+        <AudioRecorderPanel soundEngine={soundEngine} />
+        
         {lastKeypoint && (
           <div className="motion-detected">
             Last detected: {lastKeypoint}
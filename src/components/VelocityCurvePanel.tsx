@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { SoundEngine } from '../utils/SoundEngine';
+import {
+  VELOCITY_CURVE_TYPES,
+  VelocityBreakpoint,
+  VelocityCurveSettings,
+  VelocityCurveType,
+  applyVelocityCurve
+} from '../utils/VelocityCurve';
+import './VelocityCurvePanel.css';
+
+interface VelocityCurvePanelProps {
+  soundEngine: SoundEngine;
+}
+
+const CURVE_DESCRIPTIONS: Record<VelocityCurveType, string> = {
+  linear: 'Loudness follows movement speed evenly',
+  soft: 'Small movements still play clearly',
+  hard: 'Only big movements play loudly',
+  fixed: 'Every sound plays at the same loudness',
+  custom: 'Set your own points'
+};
+
+// Points along the input range drawn in the preview
+const PREVIEW_POINTS = 20;
+
+const VelocityCurvePanel: React.FC<VelocityCurvePanelProps> = ({ soundEngine }) => {
+  const [curve, setCurve] = useState<VelocityCurveSettings>(soundEngine.getVelocityCurve());
+
+  const updateCurve = (changes: Partial<VelocityCurveSettings>) => {
+    soundEngine.setVelocityCurve(changes);
+    setCurve(soundEngine.getVelocityCurve());
+  };
+
+  const updateBreakpoint = (index: number, changes: Partial<VelocityBreakpoint>) => {
+    updateCurve({
+      breakpoints: curve.breakpoints.map((point, i) => (i === index ? { ...point, ...changes } : point))
+    });
+  };
+
+  const addBreakpoint = () => {
+    updateCurve({ breakpoints: [...curve.breakpoints, { input: 1, output: 1 }] });
+  };
+
+  const removeBreakpoint = (index: number) => {
+    updateCurve({ breakpoints: curve.breakpoints.filter((_, i) => i !== index) });
+  };
+
+  // Sample the curve across the input range for the preview
+  const previewPoints = Array.from({ length: PREVIEW_POINTS + 1 }, (_, i) => {
+    const x = i / PREVIEW_POINTS;
+    const velocity = curve.inputMin + x * (curve.inputMax - curve.inputMin);
+    return `${x * 100},${100 - applyVelocityCurve(velocity, curve) * 100}`;
+  }).join(' ');
+
+  return (
+    <div className="velocity-curve">
+      <div className="form-group">
+        <label>Response:</label>
+        <select
+          value={curve.type}
+          onChange={(e) => updateCurve({ type: e.target.value as VelocityCurveType })}
+        >
+          {VELOCITY_CURVE_TYPES.map(type => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+        <p className="velocity-curve-description">{CURVE_DESCRIPTIONS[curve.type]}</p>
+      </div>
+
+      <svg className="velocity-curve-preview" viewBox="0 0 100 100" preserveAspectRatio="none" aria-hidden="true">
+        <polyline points={previewPoints} />
+      </svg>
+
+      {curve.type === 'fixed' ? (
+        <div className="form-group">
+          <label>Loudness: {Math.round(curve.fixedVelocity * 100)}%</label>
+          <input
+            type="range"
+            min="0.1"
+            max="1"
+            step="0.05"
+            value={curve.fixedVelocity}
+            onChange={(e) => updateCurve({ fixedVelocity: parseFloat(e.target.value) })}
+          />
+        </div>
+      ) : (
+        <div className="velocity-curve-range">
+          <label>
+            Softest movement speed
+            <input
+              type="number"
+              min="0"
+              value={Math.round(curve.inputMin)}
+              onChange={(e) => updateCurve({ inputMin: Math.max(0, parseFloat(e.target.value) || 0) })}
+            />
+          </label>
+          <label>
+            Strongest movement speed
+            <input
+              type="number"
+              min="1"
+              value={Math.round(curve.inputMax)}
+              onChange={(e) => updateCurve({ inputMax: Math.max(1, parseFloat(e.target.value) || 1) })}
+            />
+          </label>
+        </div>
+      )}
+
+      {curve.type === 'custom' && (
+        <div className="velocity-breakpoints">
+          {curve.breakpoints.map((point, index) => (
+            <div key={index} className="velocity-breakpoint">
+              <label>
+                Movement %
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={Math.round(point.input * 100)}
+                  onChange={(e) => updateBreakpoint(index, { input: (parseFloat(e.target.value) || 0) / 100 })}
+                />
+              </label>
+              <label>
+                Loudness %
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={Math.round(point.output * 100)}
+                  onChange={(e) => updateBreakpoint(index, { output: (parseFloat(e.target.value) || 0) / 100 })}
+                />
+              </label>
+              <button onClick={() => removeBreakpoint(index)} disabled={curve.breakpoints.length <= 2}>
+                Remove
+              </button>
+            </div>
+          ))}
+          <button onClick={addBreakpoint}>Add Point</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VelocityCurvePanel;
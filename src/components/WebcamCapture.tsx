@@ -8,7 +8,7 @@ import './WebcamCapture.css';
 const Webcam: any = ReactWebcam;
 
 interface WebcamCaptureProps {
-  onPoseDetected: (poses: poseDetection.Pose[]) => void;
+  onPoseDetected: (poses: poseDetection.Pose[], frameSize: { width: number; height: number }) => void;
   showDebugInfo?: boolean;
   highlightIntentional?: boolean;
   intentionalKeypoints?: string[];
@@ -257,7 +257,7 @@ const WebcamCapture: React.FC<WebcamCaptureProps> = ({
             }
             
             // Send poses to parent component
-            onPoseDetected(poses);
+            onPoseDetected(poses, { width: video.videoWidth, height: video.videoHeight });
           }
         } catch (error) {
           console.error('Error detecting poses:', error);
@@ -0,0 +1,178 @@
+import * as Tone from 'tone';
+import {
+  ACCOMPANIMENT_STYLES,
+  AccompanimentSettings,
+  AccompanimentState,
+  BandPosition,
+  DEFAULT_ACCOMPANIMENT_SETTINGS,
+  STEPS_PER_BAR,
+  WAITING_BAND,
+  advanceBand,
+  bassNote,
+  chordAtStep
+} from './AccompanimentSettings';
+import { parseChordName } from './ChordProgression';
+import { TempoFollower } from './TempoFollower';
+
+export type AccompanimentPart = 'bass' | 'drums' | 'chords';
+
+export interface AccompanimentStatus {
+  state: AccompanimentState;
+  chord: string | null; // Current chord in the session key
+  bpm: number;
+}
+
+// How the band's notes reach the engine's voices
+export interface AccompanimentVoices {
+  play(part: AccompanimentPart, notes: string[], duration: number, time: number, velocity: number): void;
+  hold(notes: string[], time: number): void; // A chord that sounds until released
+  release(time: number): void;
+}
+
+const VELOCITY: Record<AccompanimentPart, number> = { bass: 0.7, drums: 0.7, chords: 0.45 };
+
+// A backing band of bass, drums and chords on the tempo clock's transport.
+// It starts when the user first moves, follows the tempo of their
+// triggers and holds its chord when they stop.
+export class Accompaniment {
+  private settings: AccompanimentSettings = { ...DEFAULT_ACCOMPANIMENT_SETTINGS };
+  private follower: TempoFollower;
+  private eventId: number | null = null;
+  private position: BandPosition = { ...WAITING_BAND };
+  private chord: string | null = null;
+  private changeCallback: ((status: AccompanimentStatus | null) => void) | null = null;
+
+  // `transpose` puts notes written in C into the session key; `onTempo` is
+  // called when the followed tempo changes
+  constructor(
+    private transpose: (notes: string[]) => string[],
+    private voices: AccompanimentVoices,
+    private onTempo: (bpm: number) => void
+  ) {
+    this.follower = new TempoFollower(Tone.Transport.bpm.value);
+  }
+
+  public setSettings(settings: AccompanimentSettings): void {
+    this.settings = { ...settings };
+  }
+
+  public isRunning(): boolean {
+    return this.eventId !== null;
+  }
+
+  public getStatus(): AccompanimentStatus | null {
+    if (!this.isRunning()) return null;
+    return { state: this.position.state, chord: this.chord, bpm: this.follower.getBpm() };
+  }
+
+  // Set a function to be called when the band starts, stops, pauses or changes chord
+  public setChangeCallback(callback: ((status: AccompanimentStatus | null) => void) | null): void {
+    this.changeCallback = callback;
+  }
+
+  // Start listening at a tempo; the band comes in on the user's first trigger
+  public start(bpm: number): void {
+    if (this.isRunning()) return;
+
+    this.follower.reset(bpm);
+    this.position = { ...WAITING_BAND };
+    this.chord = null;
+
+    const stepTicks = Tone.Time('8n').toTicks();
+    const firstStep = Math.ceil(Tone.Transport.ticks / stepTicks) * stepTicks;
+    this.eventId = Tone.Transport.scheduleRepeat(time => this.onStep(time), '8n', `${firstStep}i`);
+    this.changeCallback?.(this.getStatus());
+  }
+
+  public stop(): void {
+    if (this.eventId === null) return;
+
+    Tone.Transport.clear(this.eventId);
+    this.eventId = null;
+    if (this.position.state === 'holding') {
+      this.voices.release(Tone.now());
+    }
+    this.position = { ...this.position, state: 'waiting' };
+    this.changeCallback?.(null);
+  }
+
+  // The user triggered a sound (time in seconds): follow their tempo
+  public addTrigger(time: number): void {
+    if (!this.isRunning()) return;
+
+    const previous = this.follower.getBpm();
+    const bpm = this.follower.addTrigger(time);
+    if (bpm !== previous) {
+      this.onTempo(bpm);
+    }
+  }
+
+  private onStep(time: number): void {
+    const { style, pauseBeats } = this.settings;
+
+    try {
+      const previous = this.position.state;
+      const next = advanceBand(this.position, this.follower.isPaused(time, pauseBeats));
+      this.position = next.position;
+
+      if (next.release) {
+        this.voices.release(time);
+      }
+      if (next.hold !== null) {
+        this.voices.hold(this.transpose(parseChordName(chordAtStep(style, next.hold), 3)), time);
+      }
+
+      if (next.play !== null) {
+        this.playStep(next.play, time);
+      } else if (this.position.state !== previous) {
+        this.notify(time);
+      }
+    } catch (error) {
+      console.error('Error playing accompaniment step:', error);
+    }
+  }
+
+  private playStep(step: number, time: number): void {
+    const { style } = this.settings;
+    const pattern = ACCOMPANIMENT_STYLES[style];
+    const stepInBar = step % STEPS_PER_BAR;
+    const stepSeconds = Tone.Time('8n').toSeconds();
+    const chord = chordAtStep(style, step);
+
+    const drums = pattern.drums[stepInBar];
+    if (drums.length > 0) {
+      this.voices.play('drums', drums, stepSeconds / 2, time, VELOCITY.drums);
+    }
+
+    const bass = pattern.bass[stepInBar];
+    if (bass) {
+      this.voices.play('bass', this.transpose([bassNote(chord, bass)]), stepSeconds * 0.9, time, VELOCITY.bass);
+    }
+
+    if (pattern.chordSteps.includes(stepInBar)) {
+      // Let the chord ring until the next one in the bar
+      const next = pattern.chordSteps.find(chordStep => chordStep > stepInBar) ?? STEPS_PER_BAR;
+      const notes = this.transpose(parseChordName(chord, 3));
+      this.voices.play('chords', notes, (next - stepInBar) * stepSeconds * 0.95, time, VELOCITY.chords);
+    }
+
+    if (stepInBar === 0) {
+      this.chord = this.describeChord(chord);
+      this.notify(time);
+    }
+  }
+
+  // The chord's name in the session key, e.g. Am in C becomes Bm in D
+  private describeChord(chord: string): string {
+    const root = /^[A-G][#b]?/.exec(chord)?.[0] ?? '';
+    const transposed = this.transpose([`${root}4`])[0].replace(/-?\d+$/, '');
+    return transposed + chord.slice(root.length);
+  }
+
+  private notify(time: number): void {
+    const callback = this.changeCallback;
+    if (!callback) return;
+    const status = this.getStatus();
+    Tone.Draw.schedule(() => callback(status), time);
+  }
+}
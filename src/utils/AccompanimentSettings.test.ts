@@ -0,0 +1,80 @@
+import {
+  ACCOMPANIMENT_STYLE_IDS,
+  ACCOMPANIMENT_STYLES,
+  DEFAULT_ACCOMPANIMENT_SETTINGS,
+  MAX_HOLD_BARS,
+  STEPS_PER_BAR,
+  WAITING_BAND,
+  advanceBand,
+  bassNote,
+  chordAtStep,
+  clampPauseBeats,
+  nextBarStep
+} from './AccompanimentSettings';
+import { parseChordName } from './ChordProgression';
+
+test('every style has playable chords and a full bar of patterns', () => {
+  ACCOMPANIMENT_STYLE_IDS.forEach(style => {
+    const { chords, bass, drums, chordSteps } = ACCOMPANIMENT_STYLES[style];
+    chords.forEach(chord => expect(() => parseChordName(chord)).not.toThrow());
+    expect(bass).toHaveLength(STEPS_PER_BAR);
+    expect(drums).toHaveLength(STEPS_PER_BAR);
+    chordSteps.forEach(step => expect(step).toBeLessThan(STEPS_PER_BAR));
+  });
+});
+
+test('moves to the next chord every bar and wraps round', () => {
+  expect(chordAtStep('pop', 0)).toBe('C');
+  expect(chordAtStep('pop', 7)).toBe('C');
+  expect(chordAtStep('pop', 8)).toBe('G');
+  expect(chordAtStep('pop', 32)).toBe('C');
+
+  expect(nextBarStep(0)).toBe(0);
+  expect(nextBarStep(11)).toBe(16);
+});
+
+test('plays the bass low under the chord', () => {
+  expect(bassNote('Am', 'root')).toBe('A2');
+  expect(bassNote('G', 'fifth')).toBe('D3');
+  expect(bassNote('F', 'octave')).toBe('F3');
+});
+
+test('keeps the pause length in whole beats within range', () => {
+  expect(clampPauseBeats(1)).toBe(2);
+  expect(clampPauseBeats(100)).toBe(16);
+  expect(clampPauseBeats(5.4)).toBe(5);
+  expect(clampPauseBeats(NaN)).toBe(DEFAULT_ACCOMPANIMENT_SETTINGS.pauseBeats);
+});
+
+test('comes in on the first downbeat and plays on from there', () => {
+  const first = advanceBand(WAITING_BAND, false);
+  expect(first).toMatchObject({ play: 0, release: false, hold: null });
+
+  const second = advanceBand(first.position, false);
+  expect(second.play).toBe(1);
+  expect(second.position).toEqual({ state: 'playing', step: 2, heldSteps: 0 });
+});
+
+test('holds the last chord played when the user pauses, then goes quiet', () => {
+  let band = advanceBand({ state: 'playing', step: 11, heldSteps: 0 }, true);
+  expect(band).toMatchObject({ hold: 10, play: null, position: { state: 'holding' } });
+
+  for (let i = 1; i < MAX_HOLD_BARS * STEPS_PER_BAR; i++) {
+    band = advanceBand(band.position, true);
+    expect(band.release).toBe(false);
+  }
+  band = advanceBand(band.position, true);
+  expect(band.release).toBe(true);
+  expect(band.position.state).toBe('waiting');
+
+  // Nothing more happens while the user stays still
+  expect(advanceBand(band.position, true)).toMatchObject({ release: false, hold: null, play: null });
+});
+
+test('comes back in on the next bar after a pause', () => {
+  const fromHold = advanceBand({ state: 'holding', step: 11, heldSteps: 5 }, false);
+  expect(fromHold).toMatchObject({ release: true, play: 16, position: { state: 'playing', step: 17 } });
+
+  const fromQuiet = advanceBand({ state: 'waiting', step: 11, heldSteps: 32 }, false);
+  expect(fromQuiet).toMatchObject({ release: false, play: 16 });
+});
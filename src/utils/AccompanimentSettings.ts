@@ -0,0 +1,153 @@
+import { parseChordName } from './ChordProgression';
+import { midiToNote, noteToMidi } from './musicTheory';
+import { loadStoredSettings, saveStoredSettings, storedChoice, storedNumber } from './storedSettings';
+
+// Backing band: bass, drums and chords that follow the tempo of the user's
+// movements and wait for them when they pause
+
+export type AccompanimentStyle = 'pop' | 'ballad' | 'rock';
+
+// Which bass note plays on a step
+export type BassStep = 'root' | 'fifth' | 'octave' | null;
+
+export interface AccompanimentStyleSettings {
+  label: string;
+  description: string;
+  chords: string[];     // One chord a bar (in C, like preset chords)
+  bass: BassStep[];     // One entry per eighth note of the bar
+  drums: string[][];    // Drum notes per eighth note (C2 kick, D2 snare, E2 hi-hat)
+  chordSteps: number[]; // Eighth notes the chord is played on
+}
+
+// The band plays in eighth notes, four beats to the bar
+export const STEPS_PER_BAR = 8;
+
+const K = 'C2';
+const S = 'D2';
+const H = 'E2';
+
+export const ACCOMPANIMENT_STYLES: Record<AccompanimentStyle, AccompanimentStyleSettings> = {
+  pop: {
+    label: 'Pop',
+    description: 'Steady eighth-note hi-hats with the bass on the beat',
+    chords: ['C', 'G', 'Am', 'F'],
+    bass: ['root', null, 'root', null, 'root', null, 'fifth', null],
+    drums: [[K, H], [H], [S, H], [H], [K, H], [K, H], [S, H], [H]],
+    chordSteps: [0, 4]
+  },
+  ballad: {
+    label: 'Ballad',
+    description: 'Sparse drums and long chords for slow songs',
+    chords: ['C', 'Am', 'F', 'G'],
+    bass: ['root', null, null, null, 'fifth', null, null, null],
+    drums: [[K], [], [H], [], [S], [], [H], []],
+    chordSteps: [0]
+  },
+  rock: {
+    label: 'Rock',
+    description: 'Driving eighth-note bass and a backbeat',
+    chords: ['C', 'F', 'G', 'F'],
+    bass: ['root', 'root', 'root', 'root', 'root', 'root', 'octave', 'root'],
+    drums: [[K, H], [H], [S, H], [K, H], [K, H], [H], [S, H], [H]],
+    chordSteps: [0, 3, 6]
+  }
+};
+
+export const ACCOMPANIMENT_STYLE_IDS = Object.keys(ACCOMPANIMENT_STYLES) as AccompanimentStyle[];
+
+export interface AccompanimentSettings {
+  style: AccompanimentStyle;
+  pauseBeats: number; // Beats without a trigger before the band holds its chord
+}
+
+export const DEFAULT_ACCOMPANIMENT_SETTINGS: AccompanimentSettings = {
+  style: 'pop',
+  pauseBeats: 8
+};
+
+export const MIN_PAUSE_BEATS = 2;
+export const MAX_PAUSE_BEATS = 16;
+
+const STORAGE_KEY = 'accompaniment-settings';
+
+export const clampPauseBeats = (beats: number): number => {
+  return isNaN(beats)
+    ? DEFAULT_ACCOMPANIMENT_SETTINGS.pauseBeats
+    : Math.min(Math.max(Math.round(beats), MIN_PAUSE_BEATS), MAX_PAUSE_BEATS);
+};
+
+// The chord for a step, counting steps from the start of the progression
+export const chordAtStep = (style: AccompanimentStyle, step: number): string => {
+  const { chords } = ACCOMPANIMENT_STYLES[style];
+  return chords[Math.floor(step / STEPS_PER_BAR) % chords.length];
+};
+
+// The bass note for a chord
+export const bassNote = (chord: string, bass: Exclude<BassStep, null>): string => {
+  const root = noteToMidi(parseChordName(chord, 2)[0]);
+  return midiToNote(root + { root: 0, fifth: 7, octave: 12 }[bass]);
+};
+
+// The first step of the next bar (or this one if the step is on a downbeat)
+export const nextBarStep = (step: number): number => {
+  return Math.ceil(step / STEPS_PER_BAR) * STEPS_PER_BAR;
+};
+
+// Waiting for the user to start, playing along, or holding a chord while they pause
+export type AccompanimentState = 'waiting' | 'playing' | 'holding';
+
+// Where the band is: its state, the next step to play and how many steps
+// it has held a chord for
+export interface BandPosition {
+  state: AccompanimentState;
+  step: number;
+  heldSteps: number;
+}
+
+// What the band does on one step of the clock
+export interface BandStep {
+  position: BandPosition;
+  release: boolean;    // Release the held chord
+  hold: number | null; // Hold the chord of this step
+  play: number | null; // Play the patterns for this step
+}
+
+// Let a held chord ring for this many bars before going quiet
+export const MAX_HOLD_BARS = 4;
+
+export const WAITING_BAND: BandPosition = { state: 'waiting', step: 0, heldSteps: 0 };
+
+// Move the band on one step. When the user pauses it holds the last chord it
+// played, then goes quiet; when they move again it comes back in on a new
+// bar, which after a pause is the next chord.
+export const advanceBand = (position: BandPosition, paused: boolean): BandStep => {
+  const { state, step } = position;
+
+  if (!paused) {
+    const play = state === 'playing' ? step : nextBarStep(step);
+    return { position: { state: 'playing', step: play + 1, heldSteps: 0 }, release: state === 'holding', hold: null, play };
+  }
+
+  if (state === 'playing') {
+    return { position: { ...position, state: 'holding', heldSteps: 0 }, release: false, hold: Math.max(step - 1, 0), play: null };
+  }
+
+  if (state === 'holding') {
+    const heldSteps = position.heldSteps + 1;
+    const release = heldSteps >= MAX_HOLD_BARS * STEPS_PER_BAR;
+    return { position: { ...position, state: release ? 'waiting' : 'holding', heldSteps }, release, hold: null, play: null };
+  }
+
+  return { position, release: false, hold: null, play: null };
+};
+
+export const loadAccompanimentSettings = (): AccompanimentSettings => {
+  return loadStoredSettings(STORAGE_KEY, 'accompaniment settings', DEFAULT_ACCOMPANIMENT_SETTINGS, stored => ({
+    style: storedChoice(stored.style, ACCOMPANIMENT_STYLE_IDS, DEFAULT_ACCOMPANIMENT_SETTINGS.style),
+    pauseBeats: clampPauseBeats(storedNumber(stored.pauseBeats, DEFAULT_ACCOMPANIMENT_SETTINGS.pauseBeats))
+  }));
+};
+
+export const saveAccompanimentSettings = (settings: AccompanimentSettings): boolean => {
+  return saveStoredSettings(STORAGE_KEY, 'accompaniment settings', settings);
+};
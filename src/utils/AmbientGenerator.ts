@@ -0,0 +1,192 @@
+import * as Tone from 'tone';
+import {
+  AMBIENT_DRONE,
+  AMBIENT_MOODS,
+  AmbientMood,
+  AmbientState,
+  FREE_TEXTURE_STEP,
+  ambientPadNotes,
+  applyAmbientMovement,
+  brightnessToCutoff,
+  chooseTextureNote,
+  createAmbientState
+} from './AmbientSettings';
+
+// Called for each texture note so it can be logged like any other note
+export type AmbientNoteCallback = (note: string, duration: number, time: number, velocity: number) => void;
+
+// How long changes to the harmony, brightness and density take (seconds)
+const FADE_TIME = 4;
+
+// Level of the noise wash at no and full density (dB)
+const NOISE_RANGE = [-48, -30];
+const SILENT = -80;
+
+// A pad, a drone and a texture layer of bells and noise that keep evolving
+// on the tempo clock's transport until stopped
+export class AmbientGenerator {
+  private output: Tone.Gain;
+  private filter: Tone.Filter;
+  private drift: Tone.LFO;
+  private pad: Tone.PolySynth;
+  private drone: Tone.PolySynth;
+  private texture: Tone.PolySynth<Tone.FMSynth>;
+  private noise: Tone.Noise;
+  private noiseFilter: Tone.AutoFilter;
+  private state: AmbientState | null = null;
+  private padNotes: string[] = [];
+  private droneNotes: string[] = [];
+  private eventId: number | null = null;
+
+  // `transpose` puts notes written in C into the session key
+  constructor(private transpose: (notes: string[]) => string[], private onNote: AmbientNoteCallback) {
+    this.output = new Tone.Gain(0.8);
+
+    // The pad and drone share a lowpass whose cutoff follows the brightness
+    // and slowly drifts so the sound never sits still
+    this.filter = new Tone.Filter(brightnessToCutoff(0.5), 'lowpass').connect(this.output);
+    this.drift = new Tone.LFO(0.03, -700, 700).connect(this.filter.detune);
+
+    this.pad = new Tone.PolySynth(Tone.Synth, {
+      oscillator: { type: 'fatsawtooth', count: 3, spread: 20 },
+      envelope: { attack: 3, decay: 1, sustain: 0.8, release: 6 },
+      volume: -20
+    }).connect(this.filter);
+
+    this.drone = new Tone.PolySynth(Tone.Synth, {
+      oscillator: { type: 'triangle' },
+      envelope: { attack: 5, decay: 0, sustain: 1, release: 8 },
+      volume: -16
+    }).connect(this.filter);
+
+    this.texture = new Tone.PolySynth(Tone.FMSynth, {
+      harmonicity: 3.01,
+      modulationIndex: 6,
+      envelope: { attack: 0.01, decay: 1.2, sustain: 0, release: 1.5 },
+      volume: -18
+    }).connect(this.output);
+
+    this.noiseFilter = new Tone.AutoFilter({ frequency: 0.05, baseFrequency: 400, octaves: 3 }).connect(this.output);
+    this.noise = new Tone.Noise({ type: 'pink', volume: NOISE_RANGE[0] }).connect(this.noiseFilter);
+  }
+
+  // Route the generator's output
+  public connect(destination: Tone.InputNode): this {
+    this.output.connect(destination);
+    return this;
+  }
+
+  public isRunning(): boolean {
+    return this.state !== null;
+  }
+
+  public getState(): AmbientState | null {
+    return this.state ? { ...this.state } : null;
+  }
+
+  // Start in a mood, or change to it if already running
+  public start(mood: AmbientMood): void {
+    const wasRunning = this.isRunning();
+    this.state = createAmbientState(mood);
+    const now = Tone.now();
+
+    if (!wasRunning) {
+      // The slow LFOs keep running once started
+      if (this.drift.state !== 'started') {
+        this.drift.start(now);
+        this.noiseFilter.start(now);
+      }
+      // Also cancels the stop if the last one is still fading out
+      this.noise.start(now);
+      this.droneNotes = this.transpose(AMBIENT_DRONE);
+      this.drone.triggerAttack(this.droneNotes, now, 0.6);
+    }
+
+    this.scheduleTexture();
+    this.applyState(now);
+  }
+
+  public stop(): void {
+    if (!this.state) return;
+    this.state = null;
+
+    if (this.eventId !== null) {
+      Tone.Transport.clear(this.eventId);
+      this.eventId = null;
+    }
+
+    const now = Tone.now();
+    this.pad.releaseAll(now);
+    this.drone.releaseAll(now);
+    this.noise.volume.rampTo(SILENT, FADE_TIME, now);
+    this.noise.stop(now + FADE_TIME);
+    this.padNotes = [];
+    this.droneNotes = [];
+  }
+
+  // A movement gently changes the harmony, brightness or density
+  public applyMovement(direction: string, time: number): AmbientState | null {
+    if (!this.state) return null;
+    this.state = applyAmbientMovement(this.state, direction);
+    this.applyState(time);
+    return this.getState();
+  }
+
+  // The session key has changed: move the pad and drone into it
+  public retune(): void {
+    if (!this.state) return;
+    const now = Tone.now();
+    this.drone.releaseAll(now);
+    this.droneNotes = this.transpose(AMBIENT_DRONE);
+    this.drone.triggerAttack(this.droneNotes, now + 0.1, 0.6);
+    this.applyState(now);
+  }
+
+  // Fade the pad to the current harmony and ramp brightness and density
+  private applyState(time: number): void {
+    if (!this.state) return;
+
+    const notes = this.transpose(ambientPadNotes(this.state));
+    if (notes.join() !== this.padNotes.join()) {
+      // The pad's slow attack and release crossfade the chords
+      this.pad.releaseAll(time);
+      this.pad.triggerAttack(notes, time + 0.1, 0.5);
+      this.padNotes = notes;
+    }
+
+    this.filter.frequency.rampTo(brightnessToCutoff(this.state.brightness), FADE_TIME, time);
+    this.noise.volume.rampTo(NOISE_RANGE[0] + (NOISE_RANGE[1] - NOISE_RANGE[0]) * this.state.density, FADE_TIME, time);
+  }
+
+  // Give the texture a chance to play on every step of the mood's pulse
+  private scheduleTexture(): void {
+    if (this.eventId !== null) {
+      Tone.Transport.clear(this.eventId);
+    }
+
+    const step = (this.state && AMBIENT_MOODS[this.state.mood].pulse) || FREE_TEXTURE_STEP;
+    const stepTicks = Tone.Time(step).toTicks();
+    const firstStep = Math.ceil(Tone.Transport.ticks / stepTicks) * stepTicks;
+    this.eventId = Tone.Transport.scheduleRepeat(time => this.onStep(time), step, `${firstStep}i`);
+  }
+
+  private onStep(time: number): void {
+    const choice = this.state && chooseTextureNote(this.state);
+    if (!choice) return;
+
+    try {
+      const [note] = this.transpose([choice.note]);
+      const { velocity, duration } = choice;
+      this.texture.triggerAttackRelease(note, duration, time, velocity);
+      this.onNote(note, duration, time, velocity);
+    } catch (error) {
+      console.error('Error playing ambient texture:', error);
+    }
+  }
+
+  public dispose(): void {
+    this.stop();
+    [this.pad, this.drone, this.texture, this.noise, this.noiseFilter, this.drift, this.filter, this.output]
+      .forEach(node => node.dispose());
+  }
+}
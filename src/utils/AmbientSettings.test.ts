@@ -0,0 +1,66 @@
+import {
+  AMBIENT_MOOD_IDS,
+  AMBIENT_MOODS,
+  ambientPadNotes,
+  ambientTextureNotes,
+  applyAmbientMovement,
+  brightnessToCutoff,
+  chooseTextureNote,
+  createAmbientState,
+  textureProbability
+} from './AmbientSettings';
+import { parseChordName } from './ChordProgression';
+
+test('every mood has chords the pad can play', () => {
+  AMBIENT_MOOD_IDS.forEach(mood => {
+    AMBIENT_MOODS[mood].chords.forEach(chord => expect(() => parseChordName(chord)).not.toThrow());
+  });
+});
+
+test('starts at the first chord with the mood\'s density and brightness', () => {
+  expect(createAmbientState('bright')).toEqual({ mood: 'bright', harmony: 0, density: 0.5, brightness: 0.7 });
+  expect(ambientPadNotes(createAmbientState('calm'))).toEqual(['C3', 'E3', 'G3', 'B3']);
+});
+
+test('each movement moves the harmony on and nudges brightness or density', () => {
+  let state = createAmbientState('calm');
+
+  state = applyAmbientMovement(state, 'up');
+  expect(state.harmony).toBe(1);
+  expect(state.brightness).toBeCloseTo(0.5);
+
+  state = applyAmbientMovement(state, 'left');
+  expect(state.density).toBeCloseTo(0.05);
+  state = applyAmbientMovement(state, 'left');
+  expect(state.density).toBe(0);
+
+  state = applyAmbientMovement(state, 'none');
+  expect(state.harmony).toBe(0); // Wrapped round the four chords
+});
+
+test('brighter textures reach higher and denser ones play more often', () => {
+  const dark = ambientTextureNotes({ ...createAmbientState('calm'), brightness: 0.2 });
+  const bright = ambientTextureNotes({ ...createAmbientState('calm'), brightness: 0.9 });
+  expect(dark).toHaveLength(8);
+  expect(bright).toHaveLength(12);
+  expect(bright[bright.length - 1]).toBe('B6');
+
+  expect(textureProbability(1)).toBeGreaterThan(textureProbability(0));
+  expect(brightnessToCutoff(0)).toBe(300);
+  expect(brightnessToCutoff(1)).toBe(9600);
+});
+
+test('chooses texture notes from the pool as often as the density allows', () => {
+  const state = { ...createAmbientState('calm'), density: 0 };
+  const pool = ambientTextureNotes(state);
+  // Each call to `random` returns the next value
+  const sequence = (...values: number[]) => () => values.shift() ?? 0;
+
+  expect(chooseTextureNote(state, sequence(textureProbability(0)))).toBeNull();
+  expect(chooseTextureNote(state, sequence(0, 0, 0))).toEqual({ note: pool[0], velocity: 0.2, duration: 1.5 });
+  expect(chooseTextureNote(state, sequence(0, 0.999, 1))?.note).toBe(pool[pool.length - 1]);
+
+  const rhythmic = chooseTextureNote(createAmbientState('rhythmic'), sequence(0, 0.5, 1));
+  expect(rhythmic?.duration).toBe(0.3);
+  expect(rhythmic?.velocity).toBeCloseTo(0.5);
+});
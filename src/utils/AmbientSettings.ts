@@ -0,0 +1,136 @@
+import { parseChordName } from './ChordProgression';
+import { midiToNote, noteToMidi } from './musicTheory';
+
+// Generative ambient mode: a pad, drone and texture that keep evolving on
+// their own. Movements gently change them rather than playing notes, so even
+// one movement a minute makes music.
+
+export type AmbientMood = 'calm' | 'bright' | 'rhythmic';
+
+export interface AmbientMoodSettings {
+  label: string;
+  description: string;
+  chords: string[];           // Harmony the pad moves through (in C, like preset chords)
+  pulse: '8n' | '16n' | null; // Texture notes on a steady pulse, or drifting freely
+  density: number;            // Starting density, 0-1
+  brightness: number;         // Starting brightness, 0-1
+}
+
+export const AMBIENT_MOODS: Record<AmbientMood, AmbientMoodSettings> = {
+  calm: {
+    label: 'Calm',
+    description: 'A slow, warm pad over a low drone with the odd soft bell',
+    chords: ['Cmaj7', 'Am7', 'Fmaj7', 'Em7'],
+    pulse: null,
+    density: 0.25,
+    brightness: 0.3
+  },
+  bright: {
+    label: 'Bright',
+    description: 'Open, shimmering chords with more bells',
+    chords: ['Cadd9', 'Gsus4', 'Am7', 'Fadd9'],
+    pulse: null,
+    density: 0.5,
+    brightness: 0.7
+  },
+  rhythmic: {
+    label: 'Rhythmic',
+    description: 'A gentle pulse of notes in time with the tempo',
+    chords: ['Am7', 'Fmaj7', 'C', 'G'],
+    pulse: '8n',
+    density: 0.5,
+    brightness: 0.5
+  }
+};
+
+export const AMBIENT_MOOD_IDS = Object.keys(AMBIENT_MOODS) as AmbientMood[];
+
+// The drone stays on the home note and its fifth whatever the harmony does
+export const AMBIENT_DRONE = ['C2', 'G2'];
+
+export interface AmbientState {
+  mood: AmbientMood;
+  harmony: number;    // Index into the mood's chords
+  density: number;    // 0-1: how often texture notes play
+  brightness: number; // 0-1: filter cutoff and how high the texture goes
+}
+
+// How far one movement moves density or brightness
+const MOVEMENT_STEP = 0.2;
+
+// Steps between texture chances when a mood has no pulse
+export const FREE_TEXTURE_STEP = '2n';
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+export const createAmbientState = (mood: AmbientMood): AmbientState => ({
+  mood,
+  harmony: 0,
+  density: AMBIENT_MOODS[mood].density,
+  brightness: AMBIENT_MOODS[mood].brightness
+});
+
+// Every movement moves the harmony on. Up and down also brighten or darken
+// the sound, right and left fill it in or thin it out.
+export const applyAmbientMovement = (state: AmbientState, direction: string): AmbientState => {
+  const { chords } = AMBIENT_MOODS[state.mood];
+  const next = { ...state, harmony: (state.harmony + 1) % chords.length };
+
+  switch (direction) {
+    case 'up':
+      next.brightness = clamp(state.brightness + MOVEMENT_STEP);
+      break;
+    case 'down':
+      next.brightness = clamp(state.brightness - MOVEMENT_STEP);
+      break;
+    case 'right':
+      next.density = clamp(state.density + MOVEMENT_STEP);
+      break;
+    case 'left':
+      next.density = clamp(state.density - MOVEMENT_STEP);
+      break;
+  }
+  return next;
+};
+
+// The pad's notes for the current harmony
+export const ambientPadNotes = (state: AmbientState): string[] => {
+  return parseChordName(AMBIENT_MOODS[state.mood].chords[state.harmony], 3);
+};
+
+// Notes the texture can pick from: the chord's notes, reaching higher when brighter
+export const ambientTextureNotes = (state: AmbientState): string[] => {
+  const chord = ambientPadNotes(state).map(noteToMidi);
+  const octaves = state.brightness > 0.6 ? [12, 24, 36] : [12, 24];
+  return octaves.flatMap(octave => chord.map(midi => midiToNote(midi + octave)));
+};
+
+// Chance that a texture note plays on each step
+export const textureProbability = (density: number): number => {
+  return 0.05 + clamp(density) * 0.75;
+};
+
+export interface AmbientTextureNote {
+  note: string; // In C, like the pad's chords
+  velocity: number;
+  duration: number; // seconds
+}
+
+// The texture note for one step, or null if none plays. `random` returns
+// numbers from 0 up to 1, like Math.random.
+export const chooseTextureNote = (state: AmbientState, random: () => number = Math.random): AmbientTextureNote | null => {
+  if (random() >= textureProbability(state.density)) return null;
+
+  const pool = ambientTextureNotes(state);
+  return {
+    note: pool[Math.floor(random() * pool.length)],
+    velocity: 0.2 + random() * 0.3,
+    // Short notes on a pulse, longer bells when drifting freely
+    duration: AMBIENT_MOODS[state.mood].pulse ? 0.3 : 1.5
+  };
+};
+
+// Filter cutoff for a brightness, from 300 Hz to about 9.6 kHz
+export const brightnessToCutoff = (brightness: number): number => {
+  return 300 * Math.pow(2, clamp(brightness) * 5);
+};
@@ -0,0 +1,57 @@
+import * as Tone from 'tone';
+import { ArpeggiatorSettings, arpeggioNoteAt, buildArpeggio } from './ArpeggiatorSettings';
+
+// Plays one arpeggio step
+export type ArpeggioNoteCallback = (note: string, duration: number, time: number) => void;
+
+// Steps through a chord in time with the tempo clock until stopped
+export class Arpeggiator {
+  private settings: ArpeggiatorSettings;
+  private getNotes: () => string[];
+  private play: ArpeggioNoteCallback;
+  private eventId: number | null = null;
+  private step = 0;
+
+  // `getNotes` is read on every step so the arpeggio can follow held notes
+  constructor(settings: ArpeggiatorSettings, getNotes: () => string[], play: ArpeggioNoteCallback) {
+    this.settings = settings;
+    this.getNotes = getNotes;
+    this.play = play;
+  }
+
+  public isRunning(): boolean {
+    return this.eventId !== null;
+  }
+
+  // Start on the next step of the clock's grid
+  public start(): void {
+    if (this.isRunning()) return;
+
+    const { rate } = this.settings;
+    const stepTicks = Tone.Time(rate).toTicks();
+    const firstStep = Math.ceil(Tone.Transport.ticks / stepTicks) * stepTicks;
+    this.step = 0;
+    this.eventId = Tone.Transport.scheduleRepeat(time => this.onStep(time), rate, `${firstStep}i`);
+  }
+
+  public stop(): void {
+    if (this.eventId !== null) {
+      Tone.Transport.clear(this.eventId);
+      this.eventId = null;
+    }
+  }
+
+  private onStep(time: number): void {
+    const { pattern, octaves, rate, gate } = this.settings;
+
+    try {
+      const note = arpeggioNoteAt(buildArpeggio(this.getNotes(), octaves), this.step, pattern);
+      this.step++;
+      if (note) {
+        this.play(note, Tone.Time(rate).toSeconds() * gate, time);
+      }
+    } catch (error) {
+      console.error('Error playing arpeggio step:', error);
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { arpeggioNoteAt, buildArpeggio } from './ArpeggiatorSettings';
+
+test('sorts the chord and spreads it over octaves', () => {
+  expect(buildArpeggio(['G4', 'C4', 'E4'], 1)).toEqual(['C4', 'E4', 'G4']);
+  expect(buildArpeggio(['C4', 'G4', 'C4'], 2)).toEqual(['C4', 'G4', 'C5', 'G5']);
+  expect(buildArpeggio(['C4'], 10)).toEqual(['C4', 'C5', 'C6']);
+});
+
+test('steps through each pattern', () => {
+  const sequence = ['C4', 'E4', 'G4'];
+  const steps = (pattern: 'up' | 'down' | 'upDown', count: number) =>
+    Array.from({ length: count }, (_, step) => arpeggioNoteAt(sequence, step, pattern));
+
+  expect(steps('up', 4)).toEqual(['C4', 'E4', 'G4', 'C4']);
+  expect(steps('down', 4)).toEqual(['G4', 'E4', 'C4', 'G4']);
+  expect(steps('upDown', 6)).toEqual(['C4', 'E4', 'G4', 'E4', 'C4', 'E4']);
+  expect(arpeggioNoteAt(sequence, 0, 'random', () => 0.99)).toBe('G4');
+  expect(arpeggioNoteAt([], 0, 'up')).toBeNull();
+});
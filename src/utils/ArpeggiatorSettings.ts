@@ -0,0 +1,84 @@
+import { midiToNote, noteToMidi } from './musicTheory';
+
+export type ArpeggioPattern = 'up' | 'down' | 'upDown' | 'random';
+
+// Where the notes come from: the mapping's own chord, or whatever notes are
+// being held down at the time
+export type ArpeggioSource = 'chord' | 'held';
+
+// Step length in tempo-clock note values
+export type ArpeggioRate = '4n' | '8n' | '8t' | '16n';
+
+export interface ArpeggiatorSettings {
+  source: ArpeggioSource;
+  pattern: ArpeggioPattern;
+  rate: ArpeggioRate;
+  octaves: number; // how many octaves the chord is spread over
+  gate: number;    // note length as a fraction of a step (0-1)
+}
+
+export const MAX_ARPEGGIO_OCTAVES = 3;
+
+export const DEFAULT_ARPEGGIATOR_SETTINGS: ArpeggiatorSettings = {
+  source: 'chord',
+  pattern: 'up',
+  rate: '8n',
+  octaves: 1,
+  gate: 0.5
+};
+
+export const ARPEGGIO_PATTERNS: Array<{ id: ArpeggioPattern; label: string }> = [
+  { id: 'up', label: 'Up' },
+  { id: 'down', label: 'Down' },
+  { id: 'upDown', label: 'Up and down' },
+  { id: 'random', label: 'Random' }
+];
+
+export const ARPEGGIO_RATES: Array<{ id: ArpeggioRate; label: string }> = [
+  { id: '4n', label: '1/4' },
+  { id: '8n', label: '1/8' },
+  { id: '8t', label: '1/8 triplet' },
+  { id: '16n', label: '1/16' }
+];
+
+// Sort the notes from low to high and repeat them in each octave above
+export const buildArpeggio = (notes: string[], octaves: number): string[] => {
+  const pitches = Array.from(new Set(notes.map(noteToMidi))).sort((a, b) => a - b);
+  const span = Math.min(Math.max(Math.round(octaves), 1), MAX_ARPEGGIO_OCTAVES);
+
+  const sequence: string[] = [];
+  for (let octave = 0; octave < span; octave++) {
+    pitches.forEach(midi => sequence.push(midiToNote(midi + octave * 12)));
+  }
+  return sequence;
+};
+
+// The note to play at a step of the pattern (null if there are no notes)
+export const arpeggioNoteAt = (
+  sequence: string[],
+  step: number,
+  pattern: ArpeggioPattern,
+  random: () => number = Math.random
+): string | null => {
+  const count = sequence.length;
+  if (count === 0) return null;
+
+  switch (pattern) {
+    case 'down':
+      return sequence[count - 1 - (step % count)];
+
+    case 'upDown': {
+      // Don't repeat the top and bottom notes when turning round
+      if (count < 2) return sequence[0];
+      const cycle = count * 2 - 2;
+      const position = step % cycle;
+      return sequence[position < count ? position : cycle - position];
+    }
+
+    case 'random':
+      return sequence[Math.floor(random() * count)];
+
+    default:
+      return sequence[step % count];
+  }
+};
@@ -0,0 +1,60 @@
+import {
+  ChordProgression,
+  formatProgressionText,
+  parseChordName,
+  parseProgressionText,
+  voiceChordName
+} from './ChordProgression';
+
+test('parses chord names into voicings', () => {
+  expect(parseChordName('C')).toEqual(['C3', 'E3', 'G3']);
+  expect(parseChordName('Am')).toEqual(['A3', 'C4', 'E4']);
+  expect(parseChordName('Bbmaj7')).toEqual(['A#3', 'D4', 'F4', 'A4']);
+  expect(parseChordName('F#dim', 4)).toEqual(['F#4', 'A4', 'C5']);
+  expect(parseChordName('C/G')).toEqual(['G2', 'C3', 'E3', 'G3']);
+  expect(() => parseChordName('Hm')).toThrow('Unknown chord: Hm');
+  expect(() => parseChordName('Cwhatever')).toThrow();
+});
+
+test('reads and writes progressions as text', () => {
+  const { steps, errors } = parseProgressionText('Am, F C4+E4+G4 nope G');
+  expect(steps).toEqual(['Am', 'F', ['C4', 'E4', 'G4'], 'G']);
+  expect(errors).toEqual(['"nope" is not a chord name or a list of notes']);
+  expect(formatProgressionText(steps)).toBe('Am F C4+E4+G4 G');
+});
+
+test('steps forwards, back and round again', () => {
+  const progression = new ChordProgression();
+  progression.setSettings({ steps: ['C', 'F', 'G'], loop: true });
+
+  expect(progression.next()).toEqual(['C3', 'E3', 'G3']);
+  expect(progression.next()).toEqual(['F3', 'A3', 'C4']);
+  expect(progression.back()).toEqual(['C3', 'E3', 'G3']);
+  progression.next();
+  progression.next();
+  expect(progression.getPosition()).toBe(2);
+  expect(progression.next()).toEqual(['C3', 'E3', 'G3']);
+
+  progression.setSettings({ loop: false });
+  progression.reset();
+  progression.next();
+  progression.next();
+  progression.next();
+  expect(progression.next()).toBeNull();
+});
+
+test('reads chord names as absolute chords voiced near the key', () => {
+  const progression = new ChordProgression();
+  progression.setSettings({ steps: ['G', 'C', 'D', 'Em', ['C4', 'E4', 'G4']] });
+  progression.setKey('G');
+
+  expect(progression.next()).toEqual(['G2', 'B2', 'D3']);
+  expect(progression.next()).toEqual(['C3', 'E3', 'G3']);
+  expect(progression.next()).toEqual(['D3', 'F#3', 'A3']);
+  expect(progression.next()).toEqual(['E3', 'G3', 'B3']);
+  expect(progression.next()).toEqual(['C4', 'E4', 'G4']);
+});
+
+test('voices slash chords with the bass below the root', () => {
+  expect(voiceChordName('D/F#', 43)).toEqual(['F#2', 'D3', 'F#3', 'A3']);
+});
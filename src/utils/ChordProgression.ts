@@ -0,0 +1,164 @@
+import { getKeyTransposition, midiToNote, noteToMidi, pitchClassOf } from './musicTheory';
+
+// A chord name such as 'Am' or 'G7', or the exact notes to play
+export type ProgressionStep = string | string[];
+
+export interface ProgressionSettings {
+  enabled: boolean;             // Every movement plays the next chord instead of its mapping
+  steps: ProgressionStep[];
+  loop: boolean;                // Start again after the last chord
+  resetKeypoint: string | null; // Movements of this keypoint go back to the first chord
+  backKeypoint: string | null;  // Movements of this keypoint replay the previous chord
+}
+
+export const DEFAULT_PROGRESSION_SETTINGS: ProgressionSettings = {
+  enabled: false,
+  steps: ['C', 'Am', 'F', 'G'],
+  loop: true,
+  resetKeypoint: null,
+  backKeypoint: null
+};
+
+// Semitones above the root for each chord quality we understand
+const CHORD_QUALITIES: Record<string, number[]> = {
+  '': [0, 4, 7],
+  'maj': [0, 4, 7],
+  'm': [0, 3, 7],
+  'min': [0, 3, 7],
+  '5': [0, 7],
+  '6': [0, 4, 7, 9],
+  'm6': [0, 3, 7, 9],
+  '7': [0, 4, 7, 10],
+  'maj7': [0, 4, 7, 11],
+  'm7': [0, 3, 7, 10],
+  'm7b5': [0, 3, 6, 10],
+  'dim': [0, 3, 6],
+  'dim7': [0, 3, 6, 9],
+  'aug': [0, 4, 8],
+  '+': [0, 4, 8],
+  'sus2': [0, 2, 7],
+  'sus4': [0, 5, 7],
+  '9': [0, 4, 7, 10, 14],
+  'add9': [0, 4, 7, 14]
+};
+
+const CHORD_PATTERN = /^([A-G](?:#|b)?)([^/]*)(?:\/([A-G](?:#|b)?))?$/;
+
+// Lowest root note of a chord name in C (C3); other keys move it to their tonic
+const CHORD_ROOT_FLOOR = 48;
+
+// Turn a chord name like 'Am', 'F#m7' or 'C/G' into notes, with the root in
+// the given octave and any slash bass note below it
+export const parseChordName = (name: string, octave: number = 3): string[] => {
+  return voiceChordName(name, (octave + 1) * 12);
+};
+
+// Turn a chord name into notes with the root in the octave starting at
+// `lowestRoot` (a MIDI note) and any slash bass note in the octave below
+export const voiceChordName = (name: string, lowestRoot: number): string[] => {
+  const match = CHORD_PATTERN.exec(name.trim());
+  const intervals = match ? CHORD_QUALITIES[match[2]] : undefined;
+  if (!match || !intervals) {
+    throw new Error(`Unknown chord: ${name}`);
+  }
+
+  const above = (pitchClass: number) => (((pitchClass - lowestRoot) % 12) + 12) % 12;
+  const root = lowestRoot + above(pitchClassOf(match[1]));
+  const notes = intervals.map(interval => midiToNote(root + interval));
+  if (match[3]) {
+    notes.unshift(midiToNote(lowestRoot - 12 + above(pitchClassOf(match[3]))));
+  }
+  return notes;
+};
+
+// The notes for a step of a progression. Chord names are voiced with their
+// root in the octave starting at `lowestRoot`; exact notes play as written.
+export const stepToNotes = (step: ProgressionStep, lowestRoot: number = CHORD_ROOT_FLOOR): string[] => {
+  if (Array.isArray(step)) {
+    step.forEach(noteToMidi); // Throws for anything that isn't a note
+    return [...step];
+  }
+  return voiceChordName(step, lowestRoot);
+};
+
+// Read a progression typed as text: chord names separated by spaces or
+// commas, or exact notes joined with '+' (e.g. "Am F C4+E4+G4 G")
+export const parseProgressionText = (text: string): { steps: ProgressionStep[]; errors: string[] } => {
+  const steps: ProgressionStep[] = [];
+  const errors: string[] = [];
+
+  text.split(/[\s,]+/).filter(token => token).forEach(token => {
+    const step: ProgressionStep = token.includes('+') ? token.split('+').filter(note => note) : token;
+    try {
+      stepToNotes(step);
+      steps.push(step);
+    } catch (error) {
+      errors.push(`"${token}" is not a chord name or a list of notes`);
+    }
+  });
+
+  return { steps, errors };
+};
+
+export const formatProgressionText = (steps: ProgressionStep[]): string => {
+  return steps.map(step => (Array.isArray(step) ? step.join('+') : step)).join(' ');
+};
+
+// Steps through a chord progression, one chord per movement
+export class ChordProgression {
+  private settings: ProgressionSettings = { ...DEFAULT_PROGRESSION_SETTINGS };
+  private position = -1; // Index of the chord played last
+  private lowestRoot = CHORD_ROOT_FLOOR;
+
+  public getSettings(): ProgressionSettings {
+    return { ...this.settings, steps: [...this.settings.steps] };
+  }
+
+  public setSettings(settings: Partial<ProgressionSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+    if (settings.steps) {
+      this.reset();
+    }
+  }
+
+  // Voice chord names near a key's tonic. The names themselves are absolute:
+  // 'G' is a G chord whatever the key.
+  public setKey(key: string): void {
+    this.lowestRoot = CHORD_ROOT_FLOOR + getKeyTransposition(key);
+  }
+
+  public isEnabled(): boolean {
+    return this.settings.enabled && this.settings.steps.length > 0;
+  }
+
+  // Index of the chord played last (-1 before the first chord)
+  public getPosition(): number {
+    return this.position;
+  }
+
+  // Move on to the next chord and return its notes, or null at the end of a
+  // progression that doesn't loop
+  public next(): string[] | null {
+    const { steps, loop } = this.settings;
+    if (steps.length === 0) return null;
+
+    if (this.position + 1 >= steps.length) {
+      if (!loop) return null;
+      this.position = -1;
+    }
+    this.position++;
+    return stepToNotes(steps[this.position], this.lowestRoot);
+  }
+
+  // Step back one chord and return its notes
+  public back(): string[] | null {
+    if (this.settings.steps.length === 0) return null;
+
+    this.position = Math.max(this.position - 1, 0);
+    return stepToNotes(this.settings.steps[this.position], this.lowestRoot);
+  }
+
+  public reset(): void {
+    this.position = -1;
+  }
+}
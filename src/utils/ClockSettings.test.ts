@@ -0,0 +1,15 @@
+import { DEFAULT_CLOCK_SETTINGS, MAX_BPM, MIN_BPM, clampBpm, quantizeTriggerTime } from './ClockSettings';
+
+test('keeps the tempo within the supported range', () => {
+  expect(clampBpm(120.4)).toBe(120);
+  expect(clampBpm(10)).toBe(MIN_BPM);
+  expect(clampBpm(500)).toBe(MAX_BPM);
+  expect(clampBpm(NaN)).toBe(DEFAULT_CLOCK_SETTINGS.bpm);
+});
+
+test('moves triggers towards the next grid point by the strength', () => {
+  expect(quantizeTriggerTime(10, 10.4, 1)).toBeCloseTo(10.4);
+  expect(quantizeTriggerTime(10, 10.4, 0.5)).toBeCloseTo(10.2);
+  expect(quantizeTriggerTime(10, 10.4, 0)).toBe(10);
+  expect(quantizeTriggerTime(10, 9.9, 1)).toBe(10);
+});
@@ -0,0 +1,45 @@
+// Settings for the musical clock, metronome and quantized triggering
+
+export type MetronomeMode = 'off' | 'audible' | 'visual' | 'both';
+
+// Grid that gesture triggers are delayed to ('off' plays immediately)
+export type QuantizeGrid = 'off' | '4n' | '8n' | '16n';
+
+export interface ClockSettings {
+  bpm: number;
+  beatsPerBar: number;
+  metronome: MetronomeMode;
+  quantize: QuantizeGrid;
+  quantizeStrength: number; // 0 = play immediately, 1 = exactly on the grid
+}
+
+export const MIN_BPM = 40;
+export const MAX_BPM = 200;
+
+export const METRONOME_MODES: MetronomeMode[] = ['off', 'audible', 'visual', 'both'];
+
+export const QUANTIZE_GRIDS: Array<{ id: QuantizeGrid; label: string }> = [
+  { id: 'off', label: 'Off' },
+  { id: '4n', label: '1/4' },
+  { id: '8n', label: '1/8' },
+  { id: '16n', label: '1/16' }
+];
+
+export const DEFAULT_CLOCK_SETTINGS: ClockSettings = {
+  bpm: 90,
+  beatsPerBar: 4,
+  metronome: 'off',
+  quantize: 'off',
+  quantizeStrength: 1
+};
+
+export const clampBpm = (bpm: number): number => {
+  return isNaN(bpm) ? DEFAULT_CLOCK_SETTINGS.bpm : Math.min(Math.max(Math.round(bpm), MIN_BPM), MAX_BPM);
+};
+
+// Move a trigger towards the next grid point. With a strength of 1 it lands
+// on the grid point; with 0.5 it lands halfway there.
+export const quantizeTriggerTime = (now: number, nextGridTime: number, strength: number): number => {
+  const amount = Math.min(Math.max(strength, 0), 1);
+  return now + Math.max(nextGridTime - now, 0) * amount;
+};
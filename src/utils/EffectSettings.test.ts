@@ -0,0 +1,22 @@
+import { clampEffectParam, createEffectSettings, moveEffect } from './EffectSettings';
+
+test('creates effects with default parameters and overrides', () => {
+  const reverb = createEffectSettings('reverb', { decay: 4 });
+  expect(reverb).toMatchObject({ type: 'reverb', bypassed: false, params: { decay: 4, wet: 0.3 } });
+  expect(createEffectSettings('eq').params).toEqual({ low: 0, mid: 0, high: 0 });
+});
+
+test('clamps parameters to their range', () => {
+  expect(clampEffectParam('delay', 'feedback', 1.5)).toBe(0.9);
+  expect(clampEffectParam('compressor', 'threshold', -80)).toBe(-60);
+  expect(clampEffectParam('eq', 'unknown', 5)).toBe(5);
+});
+
+test('reorders effects within the chain', () => {
+  const chain = [createEffectSettings('delay'), createEffectSettings('chorus'), createEffectSettings('reverb')];
+  const ids = (effects: typeof chain) => effects.map(effect => effect.type);
+
+  expect(ids(moveEffect(chain, chain[2].id, -1))).toEqual(['delay', 'reverb', 'chorus']);
+  expect(ids(moveEffect(chain, chain[0].id, -1))).toEqual(['delay', 'chorus', 'reverb']);
+  expect(ids(moveEffect(chain, chain[0].id, 1))).toEqual(['chorus', 'delay', 'reverb']);
+});
@@ -0,0 +1,122 @@
+// Effects that can be placed in a preset's effects chain, and their parameters
+
+export type EffectType = 'delay' | 'chorus' | 'distortion' | 'phaser' | 'compressor' | 'eq' | 'reverb';
+
+export interface EffectSettings {
+  id: string;
+  type: EffectType;
+  bypassed: boolean;
+  params: Record<string, number>;
+}
+
+export interface EffectParamInfo {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+export interface EffectInfo {
+  label: string;
+  params: Record<string, EffectParamInfo>;
+}
+
+const wetParam: EffectParamInfo = { label: 'Mix', min: 0, max: 1, step: 0.05, default: 0.5 };
+
+// Parameter names match the Tone.js option names for each effect
+export const EFFECT_TYPES: Record<EffectType, EffectInfo> = {
+  delay: {
+    label: 'Echo',
+    params: {
+      delayTime: { label: 'Time (s)', min: 0.05, max: 1, step: 0.05, default: 0.25 },
+      feedback: { label: 'Feedback', min: 0, max: 0.9, step: 0.05, default: 0.3 },
+      wet: { ...wetParam, default: 0.25 }
+    }
+  },
+  chorus: {
+    label: 'Chorus',
+    params: {
+      frequency: { label: 'Speed (Hz)', min: 0.1, max: 10, step: 0.1, default: 1.5 },
+      depth: { label: 'Depth', min: 0, max: 1, step: 0.05, default: 0.7 },
+      wet: wetParam
+    }
+  },
+  distortion: {
+    label: 'Distortion',
+    params: {
+      distortion: { label: 'Drive', min: 0, max: 1, step: 0.05, default: 0.4 },
+      wet: wetParam
+    }
+  },
+  phaser: {
+    label: 'Phaser',
+    params: {
+      frequency: { label: 'Speed (Hz)', min: 0.1, max: 10, step: 0.1, default: 0.5 },
+      octaves: { label: 'Width (octaves)', min: 1, max: 6, step: 1, default: 3 },
+      baseFrequency: { label: 'Base (Hz)', min: 100, max: 1000, step: 10, default: 350 },
+      wet: wetParam
+    }
+  },
+  compressor: {
+    label: 'Compressor',
+    params: {
+      threshold: { label: 'Threshold (dB)', min: -60, max: 0, step: 1, default: -24 },
+      ratio: { label: 'Ratio', min: 1, max: 20, step: 0.5, default: 4 },
+      attack: { label: 'Attack (s)', min: 0.001, max: 0.5, step: 0.001, default: 0.01 },
+      release: { label: 'Release (s)', min: 0.01, max: 1, step: 0.01, default: 0.25 }
+    }
+  },
+  eq: {
+    label: 'EQ',
+    params: {
+      low: { label: 'Low (dB)', min: -24, max: 12, step: 1, default: 0 },
+      mid: { label: 'Mid (dB)', min: -24, max: 12, step: 1, default: 0 },
+      high: { label: 'High (dB)', min: -24, max: 12, step: 1, default: 0 }
+    }
+  },
+  reverb: {
+    label: 'Reverb',
+    params: {
+      decay: { label: 'Length (s)', min: 0.5, max: 10, step: 0.5, default: 2 },
+      wet: { ...wetParam, default: 0.3 }
+    }
+  }
+};
+
+export const EFFECT_TYPE_NAMES = Object.keys(EFFECT_TYPES) as EffectType[];
+
+// Create an effect with default parameters, optionally overriding some
+export const createEffectSettings = (type: EffectType, params: Record<string, number> = {}): EffectSettings => {
+  const defaults: Record<string, number> = {};
+  Object.entries(EFFECT_TYPES[type].params).forEach(([name, info]) => {
+    defaults[name] = info.default;
+  });
+
+  return {
+    id: `fx-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    type,
+    bypassed: false,
+    params: { ...defaults, ...params }
+  };
+};
+
+// Keep a parameter value inside its allowed range
+export const clampEffectParam = (type: EffectType, param: string, value: number): number => {
+  const info = EFFECT_TYPES[type].params[param];
+  if (!info) return value;
+  return Math.min(Math.max(value, info.min), info.max);
+};
+
+// Move an effect up (-1) or down (+1) the chain
+export const moveEffect = (effects: EffectSettings[], id: string, offset: number): EffectSettings[] => {
+  const index = effects.findIndex(effect => effect.id === id);
+  const target = index + offset;
+  if (index === -1 || target < 0 || target >= effects.length) {
+    return effects;
+  }
+
+  const reordered = [...effects];
+  [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+  return reordered;
+};
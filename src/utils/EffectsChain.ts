@@ -0,0 +1,119 @@
+import * as Tone from 'tone';
+import { EffectSettings, EffectType, clampEffectParam } from './EffectSettings';
+
+// How long a replaced chain keeps playing so echoes and reverb tails can fade out (ms)
+const TAIL_TIME = 5000;
+
+// Build the Tone.js node for an effect
+const createEffectNode = (settings: EffectSettings): Tone.ToneAudioNode => {
+  const params = settings.params;
+
+  switch (settings.type) {
+    case 'delay':
+      return new Tone.FeedbackDelay({ delayTime: params.delayTime, feedback: params.feedback, wet: params.wet });
+    case 'chorus':
+      return new Tone.Chorus({ frequency: params.frequency, depth: params.depth, wet: params.wet }).start();
+    case 'distortion':
+      return new Tone.Distortion({ distortion: params.distortion, wet: params.wet });
+    case 'phaser':
+      return new Tone.Phaser({
+        frequency: params.frequency,
+        octaves: params.octaves,
+        baseFrequency: params.baseFrequency,
+        wet: params.wet
+      });
+    case 'compressor':
+      return new Tone.Compressor({
+        threshold: params.threshold,
+        ratio: params.ratio,
+        attack: params.attack,
+        release: params.release
+      });
+    case 'eq':
+      return new Tone.EQ3({ low: params.low, mid: params.mid, high: params.high });
+    case 'reverb':
+      return new Tone.Reverb({ decay: params.decay, wet: params.wet });
+  }
+};
+
+// An ordered, rebuildable chain of effects between a fixed input and output
+export class EffectsChain {
+  public readonly input = new Tone.Gain();
+  private output = new Tone.Gain();
+  private effects: EffectSettings[] = [];
+  // Nodes for effects that aren't bypassed, in chain order
+  private nodes: Array<{ id: string; type: EffectType; node: Tone.ToneAudioNode }> = [];
+
+  constructor() {
+    this.input.connect(this.output);
+  }
+
+  // Route the chain's output
+  public connect(destination: Tone.InputNode): this {
+    this.output.connect(destination);
+    return this;
+  }
+
+  public getEffects(): EffectSettings[] {
+    return this.effects.map(effect => ({ ...effect, params: { ...effect.params } }));
+  }
+
+  // Replace the whole chain
+  public setEffects(effects: EffectSettings[]): void {
+    this.effects = effects.map(effect => ({ ...effect, params: { ...effect.params } }));
+    this.rebuild();
+  }
+
+  // Change one parameter of an effect while it plays
+  public setParam(id: string, param: string, value: number): void {
+    const effect = this.effects.find(e => e.id === id);
+    if (!effect) return;
+
+    const clamped = clampEffectParam(effect.type, param, value);
+    effect.params[param] = clamped;
+
+    const active = this.nodes.find(n => n.id === id);
+    if (active) {
+      active.node.set({ [param]: clamped });
+    }
+  }
+
+  // Get the node of the first active effect of a type (for live modulation)
+  public getNode<T extends Tone.ToneAudioNode>(type: EffectType): T | undefined {
+    return this.nodes.find(n => n.type === type)?.node as T | undefined;
+  }
+
+  // Wire up fresh nodes for the current settings. The old nodes stop receiving
+  // sound straight away but stay connected long enough for their tails to fade.
+  private rebuild(): void {
+    const oldNodes = this.nodes.map(n => n.node);
+    this.input.disconnect();
+
+    this.nodes = this.effects
+      .filter(effect => !effect.bypassed)
+      .map(effect => {
+        try {
+          return { id: effect.id, type: effect.type, node: createEffectNode(effect) };
+        } catch (error) {
+          console.error(`Error creating ${effect.type} effect:`, error);
+          return null;
+        }
+      })
+      .filter((n): n is { id: string; type: EffectType; node: Tone.ToneAudioNode } => n !== null);
+
+    let previous: Tone.ToneAudioNode = this.input;
+    this.nodes.forEach(({ node }) => {
+      previous.connect(node);
+      previous = node;
+    });
+    previous.connect(this.output);
+
+    setTimeout(() => oldNodes.forEach(node => node.dispose()), TAIL_TIME);
+  }
+
+  public dispose(): void {
+    this.nodes.forEach(({ node }) => node.dispose());
+    this.input.dispose();
+    this.output.dispose();
+  }
+}
@@ -0,0 +1,55 @@
+import { HeldNotes } from './HeldNotes';
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+test('holds notes until the keypoint moves away from its end position', () => {
+  const held = new HeldNotes();
+  const release = jest.fn();
+
+  expect(held.hold('left_wrist', ['C4'], release)).toBe(true);
+  held.move('left_wrist', 0.9, 0.9); // still moving, not settled yet
+  expect(release).not.toHaveBeenCalled();
+
+  held.settle('left_wrist', { x: 0.5, y: 0.5 });
+  held.move('left_wrist', 0.52, 0.51);
+  expect(release).not.toHaveBeenCalled();
+
+  held.move('left_wrist', 0.7, 0.5);
+  expect(release).toHaveBeenCalledTimes(1);
+  expect(held.getHeld()).toEqual({});
+});
+
+test('releases held notes after the hold time runs out', () => {
+  const held = new HeldNotes();
+  held.setSettings({ maxHoldTime: 2 });
+  const release = jest.fn();
+
+  held.hold('right_wrist', ['E4', 'G4'], release);
+  jest.advanceTimersByTime(1999);
+  expect(release).not.toHaveBeenCalled();
+  jest.advanceTimersByTime(1);
+  expect(release).toHaveBeenCalledTimes(1);
+});
+
+test('does not retrigger the same notes mid-movement but replaces different ones', () => {
+  const held = new HeldNotes();
+  const first = jest.fn();
+  const second = jest.fn();
+
+  held.hold('nose', ['C4'], first);
+  expect(held.hold('nose', ['C4'], second)).toBe(false);
+  expect(first).not.toHaveBeenCalled();
+
+  expect(held.hold('nose', ['D4'], second)).toBe(true);
+  expect(first).toHaveBeenCalledTimes(1);
+  expect(held.getHeld()).toEqual({ nose: ['D4'] });
+
+  held.releaseAll();
+  expect(second).toHaveBeenCalledTimes(1);
+});
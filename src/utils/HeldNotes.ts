@@ -0,0 +1,112 @@
+export interface SustainSettings {
+  enabled: boolean;
+  maxHoldTime: number;     // seconds before a held note always releases
+  releaseDistance: number; // how far (0-1 of the frame) a keypoint can drift before release
+}
+
+export const DEFAULT_SUSTAIN_SETTINGS: SustainSettings = {
+  enabled: false,
+  maxHoldTime: 4,
+  releaseDistance: 0.08
+};
+
+interface HeldNote {
+  notes: string[];
+  release: () => void;
+  // Set once the movement has ended and the keypoint is holding its position
+  settled: boolean;
+  endPosition: { x: number; y: number } | null;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Tracks the notes each keypoint is holding down. A note is held from the
+// start of an intentional movement, keeps sounding while the keypoint stays
+// in its end position, and is released when the keypoint moves away, a new
+// movement starts or the hold time runs out.
+export class HeldNotes {
+  private held = new Map<string, HeldNote>();
+  private settings: SustainSettings = { ...DEFAULT_SUSTAIN_SETTINGS };
+
+  public getSettings(): SustainSettings {
+    return { ...this.settings };
+  }
+
+  public setSettings(settings: Partial<SustainSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+  }
+
+  public isEnabled(): boolean {
+    return this.settings.enabled;
+  }
+
+  // Start holding notes for a keypoint. `release` is called once when the
+  // notes should stop. Returns false if the keypoint is already holding the
+  // same notes mid-movement, so the caller shouldn't attack them again.
+  public hold(keypoint: string, notes: string[], release: () => void): boolean {
+    const existing = this.held.get(keypoint);
+    if (existing && !existing.settled && sameNotes(existing.notes, notes)) {
+      return false;
+    }
+
+    this.release(keypoint);
+    this.held.set(keypoint, {
+      notes,
+      release,
+      settled: false,
+      endPosition: null,
+      timer: setTimeout(() => this.release(keypoint), this.settings.maxHoldTime * 1000)
+    });
+    return true;
+  }
+
+  // The keypoint's movement has ended; keep holding while it stays near here
+  public settle(keypoint: string, position?: { x: number; y: number }): void {
+    const note = this.held.get(keypoint);
+    if (!note) return;
+
+    note.settled = true;
+    note.endPosition = position ? { ...position } : null;
+  }
+
+  // Release the keypoint's notes if it has drifted away from its end position
+  public move(keypoint: string, x: number, y: number): void {
+    const note = this.held.get(keypoint);
+    if (!note || !note.endPosition) return;
+
+    const distance = Math.hypot(x - note.endPosition.x, y - note.endPosition.y);
+    if (distance > this.settings.releaseDistance) {
+      this.release(keypoint);
+    }
+  }
+
+  // Release whatever a keypoint is holding
+  public release(keypoint: string): void {
+    const note = this.held.get(keypoint);
+    if (!note) return;
+
+    clearTimeout(note.timer);
+    this.held.delete(keypoint);
+    try {
+      note.release();
+    } catch (error) {
+      console.error(`Error releasing held notes for ${keypoint}:`, error);
+    }
+  }
+
+  public releaseAll(): void {
+    Array.from(this.held.keys()).forEach(keypoint => this.release(keypoint));
+  }
+
+  // Notes currently held, by keypoint
+  public getHeld(): Record<string, string[]> {
+    const result: Record<string, string[]> = {};
+    this.held.forEach((note, keypoint) => {
+      result[keypoint] = [...note.notes];
+    });
+    return result;
+  }
+}
+
+const sameNotes = (a: string[], b: string[]): boolean => {
+  return a.length === b.length && a.every((note, i) => note === b[i]);
+};
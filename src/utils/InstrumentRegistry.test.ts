@@ -0,0 +1,80 @@
+import * as Tone from 'tone';
+import { BUILT_IN_INSTRUMENTS, InstrumentDefinition, InstrumentRegistry, InstrumentVoice } from './InstrumentRegistry';
+
+// Stand-ins for the Tone.js voices, so no audio context is needed
+jest.mock('tone', () => {
+  class PolySynth {
+    set = jest.fn();
+  }
+  class Sampler {
+    attack = 0;
+    release = 0;
+  }
+  return { PolySynth, Sampler, Synth: 'Synth', MembraneSynth: 'MembraneSynth', FMSynth: 'FMSynth', AMSynth: 'AMSynth' };
+});
+
+const definition = (id: string, createVoice: () => unknown): InstrumentDefinition => ({
+  id,
+  name: id,
+  createVoice: createVoice as () => InstrumentVoice,
+  envelope: { attack: 0.2, release: 1.5 },
+  filterFrequency: 4000,
+  reverbDecay: 2,
+  testSound: { notes: 'C4', duration: '8n', velocity: 0.5 }
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('registers, looks up and removes instruments', () => {
+  const registry = new InstrumentRegistry();
+  const harp = definition('harp', () => new Tone.PolySynth());
+  registry.register(harp);
+
+  expect(registry.has('harp')).toBe(true);
+  expect(registry.get('harp')).toBe(harp);
+  expect(registry.list()).toEqual([harp]);
+
+  const replacement = definition('harp', () => new Tone.PolySynth());
+  registry.register(replacement);
+  expect(registry.get('harp')).toBe(replacement);
+  expect(registry.list()).toHaveLength(1);
+
+  expect(registry.unregister('harp')).toBe(true);
+  expect(registry.has('harp')).toBe(false);
+});
+
+test('has no voice for an unknown instrument, so callers can fall back', () => {
+  const registry = new InstrumentRegistry();
+  BUILT_IN_INSTRUMENTS.forEach(instrument => registry.register(instrument));
+
+  expect(registry.get('kazoo')).toBeUndefined();
+  expect(registry.createVoice('kazoo')).toBeNull();
+  expect(registry.createVoice('piano')).not.toBeNull();
+});
+
+test('builds a fresh voice every time, with the instrument\'s envelope', () => {
+  const registry = new InstrumentRegistry();
+  BUILT_IN_INSTRUMENTS.forEach(instrument => registry.register(instrument));
+
+  BUILT_IN_INSTRUMENTS.forEach(({ id, envelope }) => {
+    const first = registry.createVoice(id) as unknown as { set: jest.Mock };
+    const second = registry.createVoice(id) as unknown as { set: jest.Mock };
+    expect(first).not.toBe(second);
+    expect(first.set).toHaveBeenCalledWith({ envelope });
+  });
+});
+
+test('applies the envelope to sampled voices', () => {
+  const registry = new InstrumentRegistry();
+  registry.register(definition('sampled-harp', () => new Tone.Sampler()));
+
+  const voice = registry.createVoice('sampled-harp') as unknown as Tone.Sampler;
+  expect(voice.attack).toBe(0.2);
+  expect(voice.release).toBe(1.5);
+});
@@ -0,0 +1,181 @@
+import * as Tone from 'tone';
+
+// The subset of the Tone.js instrument API the sound engine relies on.
+// PolySynth and Sampler both satisfy it.
+export interface InstrumentVoice {
+  volume: Tone.Param<'decibels'>;
+  triggerAttack(notes: Tone.Unit.Frequency | Tone.Unit.Frequency[], time?: Tone.Unit.Time, velocity?: number): unknown;
+  triggerRelease(notes: Tone.Unit.Frequency | Tone.Unit.Frequency[], time?: Tone.Unit.Time): unknown;
+  triggerAttackRelease(
+    notes: Tone.Unit.Frequency | Tone.Unit.Frequency[],
+    duration: Tone.Unit.Time | Tone.Unit.Time[],
+    time?: Tone.Unit.Time,
+    velocity?: number
+  ): unknown;
+  releaseAll(time?: Tone.Unit.Time): unknown;
+  connect(destination: Tone.InputNode): unknown;
+  dispose(): unknown;
+}
+
+export interface InstrumentTestSound {
+  notes: string | string[];
+  duration: Tone.Unit.Time;
+  velocity: number;
+  // Which part of the engine should play it (defaults to the instrument voice)
+  source?: 'voice' | 'effect' | 'drums';
+}
+
+export interface InstrumentDefinition {
+  id: string;
+  name: string;
+  // Build a fresh voice graph; the engine connects its output to the effects chain
+  createVoice: () => InstrumentVoice;
+  // Default envelope applied to every new voice
+  envelope: Partial<Tone.EnvelopeOptions>;
+  // Shared effect settings restored whenever a preset using this instrument loads
+  filterFrequency: number;
+  // Reverb length for presets that don't define their own effects chain
+  reverbDecay: number;
+  effectSynth?: Partial<Pick<Tone.FMSynthOptions, 'harmonicity' | 'modulationIndex'>>;
+  testSound: InstrumentTestSound;
+}
+
+// Keeps track of every instrument a preset can reference by id
+export class InstrumentRegistry {
+  private instruments = new Map<string, InstrumentDefinition>();
+
+  // Add (or replace) an instrument definition
+  public register(definition: InstrumentDefinition): void {
+    if (this.instruments.has(definition.id)) {
+      console.warn(`Replacing registered instrument: ${definition.id}`);
+    }
+    this.instruments.set(definition.id, definition);
+  }
+
+  // Remove an instrument definition
+  public unregister(id: string): boolean {
+    return this.instruments.delete(id);
+  }
+
+  // Look up an instrument by id
+  public get(id: string): InstrumentDefinition | undefined {
+    return this.instruments.get(id);
+  }
+
+  // Check if an instrument id is registered
+  public has(id: string): boolean {
+    return this.instruments.has(id);
+  }
+
+  // List all registered instruments
+  public list(): InstrumentDefinition[] {
+    return Array.from(this.instruments.values());
+  }
+
+  // Create a voice for an instrument with its default envelope applied
+  public createVoice(id: string): InstrumentVoice | null {
+    const definition = this.instruments.get(id);
+    if (!definition) {
+      return null;
+    }
+
+    const voice = definition.createVoice();
+    if (voice instanceof Tone.PolySynth) {
+      voice.set({ envelope: definition.envelope });
+    } else if (voice instanceof Tone.Sampler) {
+      if (definition.envelope.attack !== undefined) voice.attack = definition.envelope.attack;
+      if (definition.envelope.release !== undefined) voice.release = definition.envelope.release;
+    }
+    return voice;
+  }
+}
+
+// Instruments available out of the box
+export const BUILT_IN_INSTRUMENTS: InstrumentDefinition[] = [
+  {
+    id: 'piano',
+    name: 'Piano',
+    createVoice: () => new Tone.PolySynth(Tone.Synth, { oscillator: { type: 'triangle' } }),
+    envelope: { attack: 0.01, decay: 0.1, sustain: 0.8, release: 2 },
+    filterFrequency: 5000,
+    reverbDecay: 1,
+    testSound: { notes: 'C4', duration: '16n', velocity: 0.5 }
+  },
+  {
+    id: 'drums',
+    name: 'Drums',
+    createVoice: () => new Tone.PolySynth(Tone.MembraneSynth),
+    envelope: { attack: 0.001, decay: 0.1, sustain: 0.1, release: 0.1 },
+    filterFrequency: 8000,
+    reverbDecay: 0.5,
+    testSound: { notes: 'C2', duration: '16n', velocity: 0.5, source: 'drums' }
+  },
+  {
+    id: 'electronic',
+    name: 'Electronic',
+    createVoice: () => new Tone.PolySynth(Tone.Synth, { oscillator: { type: 'sawtooth' } }),
+    envelope: { attack: 0.05, decay: 0.2, sustain: 0.5, release: 0.5 },
+    filterFrequency: 2000,
+    reverbDecay: 2,
+    effectSynth: { harmonicity: 3 },
+    testSound: { notes: 'C3', duration: '16n', velocity: 0.5, source: 'effect' }
+  },
+  {
+    id: 'theremin',
+    name: 'Theremin',
+    createVoice: () => new Tone.PolySynth(Tone.Synth, { oscillator: { type: 'sine' }, volume: -10 }),
+    envelope: { attack: 0.1, decay: 0.3, sustain: 0.9, release: 1.5 },
+    filterFrequency: 3000,
+    reverbDecay: 2,
+    testSound: { notes: 'G4', duration: '8n', velocity: 0.3 }
+  },
+  {
+    id: 'orchestral',
+    name: 'Orchestral',
+    createVoice: () => new Tone.PolySynth(Tone.Synth, { oscillator: { type: 'sine' } }),
+    envelope: { attack: 0.1, decay: 0.3, sustain: 0.7, release: 3 },
+    filterFrequency: 4000,
+    reverbDecay: 4,
+    testSound: { notes: ['C4', 'E4', 'G4'], duration: '16n', velocity: 0.4 }
+  },
+  {
+    id: 'plucked',
+    name: 'Plucked Strings',
+    createVoice: () => new Tone.PolySynth(Tone.Synth, { oscillator: { type: 'fattriangle', count: 2, spread: 12 } }),
+    envelope: { attack: 0.002, decay: 0.4, sustain: 0, release: 0.6 },
+    filterFrequency: 3500,
+    reverbDecay: 1.5,
+    testSound: { notes: 'E4', duration: '8n', velocity: 0.6 }
+  },
+  {
+    id: 'bells',
+    name: 'Bells',
+    createVoice: () => new Tone.PolySynth(Tone.FMSynth, { harmonicity: 3.01, modulationIndex: 14 }),
+    envelope: { attack: 0.001, decay: 1.2, sustain: 0, release: 2 },
+    filterFrequency: 9000,
+    reverbDecay: 3,
+    testSound: { notes: 'C5', duration: '8n', velocity: 0.4 }
+  },
+  {
+    id: 'organ',
+    name: 'Organ',
+    createVoice: () => new Tone.PolySynth(Tone.Synth, { oscillator: { type: 'custom', partials: [1, 0.5, 0.33, 0.25, 0.2] } }),
+    envelope: { attack: 0.02, decay: 0.1, sustain: 1, release: 0.3 },
+    filterFrequency: 4500,
+    reverbDecay: 2.5,
+    testSound: { notes: ['C4', 'G4'], duration: '8n', velocity: 0.4 }
+  },
+  {
+    id: 'pad',
+    name: 'Soft Pad',
+    createVoice: () => new Tone.PolySynth(Tone.AMSynth, { harmonicity: 1.5 }),
+    envelope: { attack: 0.8, decay: 0.5, sustain: 0.8, release: 4 },
+    filterFrequency: 2500,
+    reverbDecay: 5,
+    testSound: { notes: ['C4', 'E4', 'G4'], duration: '2n', velocity: 0.3 }
+  }
+];
+
+// Shared registry used by the sound engine; register new instruments here
+export const instrumentRegistry = new InstrumentRegistry();
+BUILT_IN_INSTRUMENTS.forEach(instrument => instrumentRegistry.register(instrument));
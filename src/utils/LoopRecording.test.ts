@@ -0,0 +1,77 @@
+import { LoopRecording } from './LoopRecording';
+
+const kick = { soundType: 'drum' as const, soundValue: 'C1', velocity: 0.8 };
+const note = { soundType: 'note' as const, soundValue: 'E4', velocity: 0.5 };
+
+test('rounds the first layer up to whole bars from the bar where recording began', () => {
+  const loop = new LoopRecording();
+  expect(loop.start(2.5, 2)).toBe(true);
+  loop.record(kick, 2.5);
+  loop.record(note, 4.5);
+
+  const result = loop.stop(5);
+  expect(loop.getLoopLength()).toBe(4);
+  expect(result?.startTime).toBe(6);
+  expect(result?.layer.events.map(e => e.offset)).toEqual([0.5, 2.5]);
+  expect(loop.getState()).toBe('idle');
+});
+
+test('places overdubs relative to the loop and starts them on the next loop', () => {
+  const loop = new LoopRecording();
+  loop.start(0, 2);
+  loop.record(kick, 0);
+  loop.stop(1); // one-bar loop starting at 2
+
+  expect(loop.start(5.5, 2)).toBe(true);
+  expect(loop.getState()).toBe('overdubbing');
+  loop.record(note, 5.5);
+  const result = loop.stop(7);
+  expect(result?.layer.events[0].offset).toBe(1.5);
+  expect(result?.startTime).toBe(8);
+  expect(loop.getLayers()).toHaveLength(2);
+});
+
+test('finds the next time round the loop', () => {
+  const loop = new LoopRecording();
+  loop.start(0.5, 2);
+  loop.record(kick, 0.5);
+  loop.stop(3); // two-bar loop starting at 4
+
+  expect(loop.nextLoopStart(1)).toBe(4);
+  expect(loop.nextLoopStart(8)).toBe(8);
+  expect(loop.nextLoopStart(8.1)).toBe(12);
+});
+
+test('ignores events when not recording and keeps no empty layers', () => {
+  const loop = new LoopRecording();
+  loop.record(kick, 1);
+  loop.start(0, 2);
+  expect(loop.stop(1)).toBeNull();
+  expect(loop.getLayers()).toEqual([]);
+});
+
+test('mutes and clears layers, starting a new loop once all are gone', () => {
+  const loop = new LoopRecording();
+  loop.start(0, 2);
+  loop.record(kick, 0.5);
+  const id = loop.stop(1)!.layer.id;
+
+  expect(loop.setLayerMuted(id, true)).toBe(true);
+  expect(loop.getLayers()[0].muted).toBe(true);
+  expect(loop.clearLayer(id)).toBe(true);
+  expect(loop.getLoopLength()).toBe(0);
+
+  loop.start(3, 2);
+  expect(loop.getState()).toBe('recording');
+});
+
+test('cancels a recording in progress without keeping its events', () => {
+  const loop = new LoopRecording();
+  loop.start(0, 2);
+  loop.record(kick, 0.5);
+  loop.cancel();
+
+  expect(loop.getState()).toBe('idle');
+  expect(loop.getLayers()).toEqual([]);
+  expect(loop.stop(1)).toBeNull();
+});
@@ -0,0 +1,132 @@
+import { SoundEvent } from './SoundEvent';
+
+export interface LoopEvent extends SoundEvent {
+  offset: number; // seconds from the start of the loop
+}
+
+export interface LoopLayer {
+  id: number;
+  events: LoopEvent[];
+  muted: boolean;
+}
+
+export type LoopState = 'idle' | 'recording' | 'overdubbing';
+
+// Keep an offset inside the loop
+const wrap = (offset: number, length: number): number => ((offset % length) + length) % length;
+
+// The layers of a loop and the timing to record new ones. All times are in
+// transport seconds. The first layer is measured from the start of the bar
+// where recording began and rounded up to whole bars; it starts looping on
+// the bar after recording stops. Overdubs are placed relative to that loop.
+export class LoopRecording {
+  private layers: LoopLayer[] = [];
+  private state: LoopState = 'idle';
+  private pending: LoopEvent[] = [];
+  private recordStart = 0;
+  private barLength = 0;
+  private loopStart = 0;
+  private loopLength = 0;
+  private nextLayerId = 1;
+
+  public getState(): LoopState {
+    return this.state;
+  }
+
+  public getLayers(): LoopLayer[] {
+    return this.layers.map(layer => ({ ...layer }));
+  }
+
+  // Length of the loop in seconds (0 until the first layer is recorded)
+  public getLoopLength(): number {
+    return this.loopLength;
+  }
+
+  // Start recording the first layer or an overdub
+  public start(now: number, barLength: number): boolean {
+    if (this.state !== 'idle') return false;
+
+    if (this.layers.length === 0) {
+      this.barLength = barLength;
+      this.recordStart = Math.floor(now / barLength) * barLength;
+      this.state = 'recording';
+    } else {
+      this.state = 'overdubbing';
+    }
+    this.pending = [];
+    return true;
+  }
+
+  // Capture an event while recording (ignored otherwise)
+  public record(event: SoundEvent, time: number): void {
+    if (this.state === 'idle') return;
+
+    const offset = this.state === 'recording'
+      ? time - this.recordStart
+      : wrap(time - this.loopStart, this.loopLength);
+    this.pending.push({ ...event, offset });
+  }
+
+  // Finish recording. Returns the new layer and the transport time it should
+  // start looping from, or null if nothing was played.
+  public stop(now: number): { layer: LoopLayer; startTime: number } | null {
+    if (this.state === 'idle') return null;
+
+    const wasFirstLayer = this.state === 'recording';
+    const events = this.pending;
+    this.state = 'idle';
+    this.pending = [];
+    if (events.length === 0) return null;
+
+    if (wasFirstLayer) {
+      const bars = Math.max(1, Math.ceil((now - this.recordStart) / this.barLength));
+      this.loopLength = bars * this.barLength;
+      this.loopStart = this.recordStart + this.loopLength;
+    }
+
+    const layer: LoopLayer = {
+      id: this.nextLayerId++,
+      events: events.map(event => ({ ...event, offset: wrap(event.offset, this.loopLength) })),
+      muted: false
+    };
+    this.layers.push(layer);
+    return { layer: { ...layer }, startTime: this.nextLoopStart(now) };
+  }
+
+  // Throw away a recording in progress (e.g. when the clock stops under it)
+  public cancel(): void {
+    this.state = 'idle';
+    this.pending = [];
+  }
+
+  // First time the loop comes round again at or after `now`
+  public nextLoopStart(now: number): number {
+    if (now <= this.loopStart) return this.loopStart;
+    return this.loopStart + Math.ceil((now - this.loopStart) / this.loopLength) * this.loopLength;
+  }
+
+  public setLayerMuted(id: number, muted: boolean): boolean {
+    const layer = this.layers.find(l => l.id === id);
+    if (!layer) return false;
+
+    layer.muted = muted;
+    return true;
+  }
+
+  // Remove a layer; once every layer is gone the next recording starts a new loop
+  public clearLayer(id: number): boolean {
+    const count = this.layers.length;
+    this.layers = this.layers.filter(l => l.id !== id);
+    if (this.layers.length === 0 && this.state === 'idle') {
+      this.loopLength = 0;
+    }
+    return this.layers.length < count;
+  }
+
+  public clearAll(): void {
+    this.layers = [];
+    this.pending = [];
+    this.state = 'idle';
+    this.loopLength = 0;
+  }
+}
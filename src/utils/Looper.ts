@@ -0,0 +1,128 @@
+import * as Tone from 'tone';
+import { LoopEvent, LoopLayer, LoopRecording, LoopState } from './LoopRecording';
+import { SoundEvent } from './SoundEvent';
+import { TempoClock } from './TempoClock';
+
+// Plays a looped event again at a given audio time
+export type LoopPlayCallback = (event: SoundEvent, time: number) => void;
+
+// Loop events as Tone.Part expects them
+type PartEvent = LoopEvent & { time: number };
+
+// Records phrases against the tempo clock and loops each one as a layer
+export class Looper {
+  private recording = new LoopRecording();
+  private parts = new Map<number, Tone.Part<PartEvent>>();
+  private clock: TempoClock;
+  private play: LoopPlayCallback;
+  private changeCallback: (() => void) | null = null;
+
+  constructor(clock: TempoClock, play: LoopPlayCallback) {
+    this.clock = clock;
+    this.play = play;
+  }
+
+  public getState(): LoopState {
+    return this.recording.getState();
+  }
+
+  public getLayers(): LoopLayer[] {
+    return this.recording.getLayers();
+  }
+
+  // Whether there are layers that will play again when the clock restarts
+  public isPaused(): boolean {
+    return this.recording.getLayers().length > 0 && !this.clock.isRunning();
+  }
+
+  // Called whenever recording starts or stops, a layer changes or the clock
+  // starts or stops
+  public setChangeCallback(callback: (() => void) | null): void {
+    this.changeCallback = callback;
+  }
+
+  // Start recording a layer, starting the clock if it isn't running
+  public startRecording(): boolean {
+    this.clock.start();
+    const barLength = Tone.Time('1m').toSeconds();
+    const started = this.recording.start(Tone.Transport.seconds, barLength);
+    if (started) this.notifyChange();
+    return started;
+  }
+
+  // Stop recording and loop what was played from the next bar or loop start
+  public stopRecording(): boolean {
+    if (this.recording.getState() === 'idle') return false;
+
+    const result = this.recording.stop(Tone.Transport.seconds);
+    if (result) {
+      const { layer, startTime } = result;
+      const part = new Tone.Part<PartEvent>(
+        (time, event) => this.play(event, time),
+        layer.events.map(event => ({ ...event, time: event.offset }))
+      );
+      part.loop = true;
+      part.loopEnd = this.recording.getLoopLength();
+      part.start(startTime);
+      this.parts.set(layer.id, part);
+    }
+    this.notifyChange();
+    return true;
+  }
+
+  // Start or stop recording (for a looper gesture)
+  public toggleRecording(): void {
+    if (this.recording.getState() === 'idle') {
+      this.startRecording();
+    } else {
+      this.stopRecording();
+    }
+  }
+
+  // The tempo clock started, stopped or changed. Layers pause while it is
+  // stopped; a recording in progress is dropped, as its timing is lost.
+  public handleClockChange(): void {
+    if (!this.clock.isRunning() && this.recording.getState() !== 'idle') {
+      this.recording.cancel();
+    }
+    this.notifyChange();
+  }
+
+  // Capture a sound triggered at an audio time while recording
+  public record(event: SoundEvent, time: number): void {
+    if (this.recording.getState() === 'idle') return;
+    this.recording.record(event, Tone.Transport.getSecondsAtTime(time));
+  }
+
+  public setLayerMuted(id: number, muted: boolean): void {
+    const part = this.parts.get(id);
+    if (part && this.recording.setLayerMuted(id, muted)) {
+      part.mute = muted;
+      this.notifyChange();
+    }
+  }
+
+  public clearLayer(id: number): void {
+    this.parts.get(id)?.dispose();
+    this.parts.delete(id);
+    if (this.recording.clearLayer(id)) {
+      this.notifyChange();
+    }
+  }
+
+  public clearAll(): void {
+    this.parts.forEach(part => part.dispose());
+    this.parts.clear();
+    this.recording.clearAll();
+    this.notifyChange();
+  }
+
+  private notifyChange(): void {
+    this.changeCallback?.();
+  }
+
+  public dispose(): void {
+    this.parts.forEach(part => part.dispose());
+    this.parts.clear();
+  }
+}
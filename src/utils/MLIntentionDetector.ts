@@ -41,6 +41,15 @@ export interface MovementInfo {
   confidence: number;
 }
 
+// Fired when a keypoint starts moving or comes to rest
+export interface MovementEvent {
+  keypoint: string;
+  type: 'start' | 'end';
+  direction: string;
+  duration: number; // seconds the movement lasted (0 for 'start')
+  timestamp: number;
+}
+
 export interface CalibrationSample {
   features: MovementFeatures;
   isIntentional: boolean;
@@ -71,6 +80,7 @@ export class MLIntentionDetector {
   private useMLPrediction = false; // Only use ML after training
   private isTfInitialized = false;
   private trainingProgressCallback: ((progress: number) => void) | null = null;
+  private movementEventCallback: ((event: MovementEvent) => void) | null = null;
   
   // Azure integration
   private azureConfig: AzureServiceConfig = {
@@ -114,6 +124,11 @@ export class MLIntentionDetector {
   public setTrainingProgressCallback(callback: (progress: number) => void): void {
     this.trainingProgressCallback = callback;
   }
+
+  // Set a callback for movement start/end events (used for holding notes)
+  public setMovementEventCallback(callback: ((event: MovementEvent) => void) | null): void {
+    this.movementEventCallback = callback;
+  }
   
   // Create a more advanced neural network model
   private async initModel(): Promise<void> {
@@ -215,10 +230,23 @@ export class MLIntentionDetector {
       
       if (keypoint && keypoint.score && keypoint.score > this.minConfidence) {
         // Extract features for this keypoint
+        const wasInMovement = !!this.isInMovement.get(keypointName);
         const features = this.extractFeatures(keypointName);
         
         if (!features) continue;
         
+        // Let listeners know when a movement begins or comes to rest
+        const isInMovement = !!this.isInMovement.get(keypointName);
+        if (isInMovement !== wasInMovement && this.movementEventCallback) {
+          this.movementEventCallback({
+            keypoint: keypointName,
+            type: isInMovement ? 'start' : 'end',
+            direction: features.direction,
+            duration: isInMovement ? 0 : features.durationOfMovement,
+            timestamp: features.timestamp
+          });
+        }
+        
         let isIntentional = false;
         let confidence = 0.5;
         
@@ -1317,6 +1345,16 @@ if (qualityStr) {
     }
   }
   
+  // Speeds of the intentional calibration movements (used to fit velocity curves)
+  public getCalibrationVelocities(): number[] {
+    return this.calibrationSamples
+      .filter(sample => sample.isIntentional && sample.features.magnitudeOfMovement > 5)
+      .map(({ features }) => Math.sqrt(
+        features.velocityX * features.velocityX + 
+        features.velocityY * features.velocityY
+      ));
+  }
+  
   // Clear calibration samples
   public clearCalibration(): void {
     this.calibrationSamples = [];
@@ -0,0 +1,60 @@
+import * as Tone from 'tone';
+import { SafetySettings, clampCeiling, DEFAULT_SAFETY_SETTINGS, makeClipCurve } from './SafetySettings';
+
+// Gain reduction (dB) past which we report that the limiter is working
+const LIMITING_THRESHOLD = -1;
+
+// Settings for the onset softener when it's switched on and off
+const SOFTENER_ON = { threshold: -30, ratio: 6, attack: 0.002, release: 0.3 };
+const SOFTENER_OFF = { threshold: 0, ratio: 1 };
+
+// The last stage before the speakers: an optional onset softener, then a
+// limiter and a hard clipper so nothing ever goes above the ceiling
+export class MasterBus {
+  public readonly input: Tone.Compressor;
+  private limiter: Tone.Limiter;
+  private clipper: Tone.WaveShaper;
+  private settings: SafetySettings = { ...DEFAULT_SAFETY_SETTINGS };
+
+  constructor() {
+    this.input = new Tone.Compressor(SOFTENER_OFF);
+    this.limiter = new Tone.Limiter(this.settings.maxLevel);
+    this.clipper = new Tone.WaveShaper(makeClipCurve(this.settings.maxLevel), 4096);
+    this.input.chain(this.limiter, this.clipper);
+  }
+
+  // Route the bus's output
+  public connect(destination: Tone.InputNode): this {
+    this.clipper.connect(destination);
+    return this;
+  }
+
+  public getSettings(): SafetySettings {
+    return { ...this.settings };
+  }
+
+  public setSettings(settings: Partial<SafetySettings>): void {
+    this.settings = { ...this.settings, ...settings };
+    this.settings.maxLevel = clampCeiling(this.settings.maxLevel);
+
+    this.limiter.threshold.rampTo(this.settings.maxLevel, 0.05);
+    this.clipper.setMap(makeClipCurve(this.settings.maxLevel), 4096);
+    this.input.set(this.settings.softenOnsets ? SOFTENER_ON : SOFTENER_OFF);
+  }
+
+  // How much the limiter is turning the sound down right now (dB, 0 = not at all)
+  public getReduction(): number {
+    return this.limiter.reduction;
+  }
+
+  // Whether the limiter is currently holding the output down
+  public isLimiting(): boolean {
+    return this.getReduction() < LIMITING_THRESHOLD;
+  }
+
+  public dispose(): void {
+    this.input.dispose();
+    this.limiter.dispose();
+    this.clipper.dispose();
+  }
+}
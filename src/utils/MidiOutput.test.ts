@@ -0,0 +1,126 @@
+import { MidiOutput } from './MidiOutput';
+
+interface MockPort {
+  id: string;
+  name: string;
+  manufacturer: string;
+  state: string;
+  send: jest.Mock;
+}
+
+const createPort = (id: string, name: string): MockPort => ({
+  id,
+  name,
+  manufacturer: 'Test',
+  state: 'connected',
+  send: jest.fn()
+});
+
+// Install a fake navigator.requestMIDIAccess returning the given ports
+const mockMidiAccess = (ports: MockPort[]) => {
+  const outputs = new Map(ports.map(port => [port.id, port]));
+  const access = { outputs, onstatechange: null as ((event: unknown) => void) | null };
+  const request = jest.fn().mockResolvedValue(access);
+  Object.defineProperty(navigator, 'requestMIDIAccess', { value: request, configurable: true });
+  return { access, outputs, request };
+};
+
+afterEach(() => {
+  delete (navigator as Navigator & { requestMIDIAccess?: unknown }).requestMIDIAccess;
+});
+
+test('reports when the browser has no Web MIDI', async () => {
+  const midi = new MidiOutput();
+
+  expect(MidiOutput.isSupported()).toBe(false);
+  expect(await midi.connect()).toBe(false);
+  expect(midi.getError()).toMatch(/does not support/);
+});
+
+test('reports when MIDI access is refused', async () => {
+  Object.defineProperty(navigator, 'requestMIDIAccess', {
+    value: jest.fn().mockRejectedValue(new Error('SecurityError')),
+    configurable: true
+  });
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  const midi = new MidiOutput();
+
+  expect(await midi.connect()).toBe(false);
+  expect(midi.getError()).toMatch(/refused/);
+  expect(midi.isConnected()).toBe(false);
+});
+
+test('lists output ports and follows them being plugged in', async () => {
+  const { access, outputs } = mockMidiAccess([createPort('a', 'Synth')]);
+  const midi = new MidiOutput();
+  const changed = jest.fn();
+  midi.setChangeCallback(changed);
+
+  expect(await midi.connect()).toBe(true);
+  expect(midi.getPorts()).toEqual([{ id: 'a', name: 'Test Synth' }]);
+
+  outputs.set('b', createPort('b', 'DAW'));
+  access.onstatechange?.({});
+  expect(midi.getPorts().map(port => port.id)).toEqual(['a', 'b']);
+  expect(changed).toHaveBeenCalledTimes(2);
+});
+
+test('sends notes and changed controller values to the selected port', async () => {
+  const port = createPort('a', 'Synth');
+  mockMidiAccess([port]);
+  const midi = new MidiOutput();
+  await midi.connect();
+
+  midi.noteOn(0, 60, 1); // Not sent until a port is selected
+  midi.selectPort('a');
+  expect(midi.isReady()).toBe(true);
+
+  midi.sendNote(1, 60, 0.5, 1000, 250);
+  midi.controlChange(0, 74, 1);
+  midi.controlChange(0, 74, 1);
+
+  expect(port.send.mock.calls).toEqual([
+    [[0x91, 60, 64], 1000],
+    [[0x81, 60, 0], 1250],
+    [[0xb0, 74, 127], undefined]
+  ]);
+});
+
+test('stops sending when the selected port is unplugged', async () => {
+  const port = createPort('a', 'Synth');
+  const { access, outputs } = mockMidiAccess([port]);
+  const midi = new MidiOutput();
+  await midi.connect();
+  midi.selectPort('a');
+
+  outputs.delete('a');
+  access.onstatechange?.({});
+  midi.noteOn(0, 60, 1);
+
+  expect(midi.isReady()).toBe(false);
+  expect(midi.getError()).toMatch(/not connected/);
+  expect(port.send).not.toHaveBeenCalled();
+
+  // Plugging it back in picks it up again
+  outputs.set('a', port);
+  access.onstatechange?.({});
+  expect(midi.isReady()).toBe(true);
+  expect(midi.getError()).toBeNull();
+});
+
+test('reports a port that fails to send', async () => {
+  const port = createPort('a', 'Synth');
+  port.send.mockImplementation(() => {
+    throw new Error('InvalidStateError');
+  });
+  mockMidiAccess([port]);
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  const midi = new MidiOutput();
+  await midi.connect();
+  midi.selectPort('a');
+
+  midi.noteOn(0, 60, 1);
+
+  expect(midi.isReady()).toBe(false);
+  expect(midi.getError()).toMatch(/Could not send/);
+});
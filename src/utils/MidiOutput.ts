@@ -0,0 +1,188 @@
+// Sends notes and controller changes to an external synth or DAW through the
+// Web MIDI API. Channels here are 0-15.
+
+export interface MidiPortInfo {
+  id: string;
+  name: string;
+}
+
+// The parts of the Web MIDI API we use (TypeScript's DOM types don't include it)
+interface WebMidiOutput {
+  id: string;
+  name?: string | null;
+  manufacturer?: string | null;
+  state?: string;
+  send(data: number[], timestamp?: number): void;
+}
+
+interface WebMidiAccess {
+  outputs: { forEach(callback: (output: WebMidiOutput) => void): void };
+  onstatechange: ((event: unknown) => void) | null;
+}
+
+type RequestMidiAccess = (options?: { sysex?: boolean }) => Promise<WebMidiAccess>;
+
+const getRequestMidiAccess = (): RequestMidiAccess | null => {
+  if (typeof navigator === 'undefined') return null;
+  const request = (navigator as Navigator & { requestMIDIAccess?: RequestMidiAccess }).requestMIDIAccess;
+  return typeof request === 'function' ? request.bind(navigator) : null;
+};
+
+// Convert 0-1 to a 7-bit MIDI value
+const toSevenBit = (value: number): number => Math.min(Math.max(Math.round(value * 127), 0), 127);
+
+export class MidiOutput {
+  private access: WebMidiAccess | null = null;
+  private ports: WebMidiOutput[] = [];
+  private output: WebMidiOutput | null = null;
+  private selectedPortId: string | null = null;
+  private error: string | null = null;
+  private controllerValues = new Map<number, number>(); // Last value sent, by channel * 128 + controller
+  private changeCallback: (() => void) | null = null;
+
+  public static isSupported(): boolean {
+    return getRequestMidiAccess() !== null;
+  }
+
+  // Ask the browser for MIDI access and list the output ports.
+  // Returns false (with a readable error) if access isn't available.
+  public async connect(): Promise<boolean> {
+    if (this.access) {
+      this.refresh();
+      return true;
+    }
+
+    const requestMidiAccess = getRequestMidiAccess();
+    if (!requestMidiAccess) {
+      this.setError('This browser does not support MIDI output (try Chrome or Edge)');
+      return false;
+    }
+
+    try {
+      this.access = await requestMidiAccess({ sysex: false });
+    } catch (error) {
+      console.error('Error requesting MIDI access:', error);
+      this.setError('MIDI access was refused or is not available');
+      return false;
+    }
+
+    // Follow ports being plugged in and unplugged
+    this.access.onstatechange = () => this.refresh();
+    this.error = null;
+    this.refresh();
+    return true;
+  }
+
+  public isConnected(): boolean {
+    return this.access !== null;
+  }
+
+  // Re-read the list of output ports
+  public refresh(): void {
+    if (!this.access) return;
+
+    const ports: WebMidiOutput[] = [];
+    this.access.outputs.forEach(output => {
+      if (output.state !== 'disconnected') {
+        ports.push(output);
+      }
+    });
+    this.ports = ports;
+
+    // Reconnect to the chosen port if it comes back, or report that it has gone
+    const selected = this.ports.find(port => port.id === this.selectedPortId) || null;
+    if (this.selectedPortId && !selected) {
+      this.error = 'The selected MIDI output is not connected';
+    } else if (selected && selected !== this.output) {
+      this.error = null;
+    }
+    this.output = selected;
+    this.changeCallback?.();
+  }
+
+  public getPorts(): MidiPortInfo[] {
+    return this.ports.map(port => ({
+      id: port.id,
+      name: [port.manufacturer, port.name].filter(Boolean).join(' ') || port.id
+    }));
+  }
+
+  // Choose the port to send to (null to stop sending)
+  public selectPort(portId: string | null): void {
+    if (this.output && this.output.id !== portId) {
+      this.allNotesOff();
+    }
+    this.selectedPortId = portId;
+    this.controllerValues.clear();
+    this.error = null;
+    this.refresh();
+  }
+
+  public getSelectedPortId(): string | null {
+    return this.selectedPortId;
+  }
+
+  // Whether there is a port to send to right now
+  public isReady(): boolean {
+    return this.output !== null;
+  }
+
+  // The last problem with MIDI access or the selected port, if any
+  public getError(): string | null {
+    return this.error;
+  }
+
+  // Called when the port list, the selected port or the error changes
+  public setChangeCallback(callback: (() => void) | null): void {
+    this.changeCallback = callback;
+  }
+
+  // Play a note: note-on at the timestamp (performance.now() milliseconds)
+  // and note-off after the duration
+  public sendNote(channel: number, midi: number, velocity: number, timestamp: number, durationMs: number): void {
+    this.noteOn(channel, midi, velocity, timestamp);
+    this.noteOff(channel, midi, timestamp + Math.max(durationMs, 1));
+  }
+
+  public noteOn(channel: number, midi: number, velocity: number, timestamp?: number): void {
+    this.send([0x90 | channel, midi, Math.max(toSevenBit(velocity), 1)], timestamp);
+  }
+
+  public noteOff(channel: number, midi: number, timestamp?: number): void {
+    this.send([0x80 | channel, midi, 0], timestamp);
+  }
+
+  // Send a controller change for a 0-1 value, skipping values that haven't changed
+  public controlChange(channel: number, controller: number, value: number): void {
+    const key = channel * 128 + controller;
+    const midiValue = toSevenBit(value);
+    if (this.controllerValues.get(key) === midiValue) return;
+
+    this.controllerValues.set(key, midiValue);
+    this.send([0xb0 | channel, controller, midiValue]);
+  }
+
+  // Silence everything on every channel
+  public allNotesOff(): void {
+    for (let channel = 0; channel < 16; channel++) {
+      this.send([0xb0 | channel, 123, 0]);
+    }
+  }
+
+  private send(data: number[], timestamp?: number): void {
+    if (!this.output) return;
+
+    try {
+      this.output.send(data, timestamp);
+    } catch (error) {
+      console.error('Error sending MIDI message:', error);
+      this.setError('Could not send to the selected MIDI output');
+      this.output = null;
+    }
+  }
+
+  private setError(error: string): void {
+    this.error = error;
+    this.changeCallback?.();
+  }
+}
@@ -0,0 +1,7 @@
+import { clampMidiChannel } from './MidiOutputSettings';
+
+test('keeps channels between 1 and 16', () => {
+  expect(clampMidiChannel(0)).toBe(1);
+  expect(clampMidiChannel(20)).toBe(16);
+  expect(clampMidiChannel(NaN)).toBe(1);
+});
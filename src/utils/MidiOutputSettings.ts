@@ -0,0 +1,62 @@
+import { loadStoredSettings, saveStoredSettings, storedChoice, storedString } from './storedSettings';
+
+// Settings for sending gestures to an external synth or DAW over Web MIDI.
+// The port belongs to the device, so these are stored on their own.
+
+// 'both' plays here and sends MIDI, 'midiOnly' only sends MIDI (recorded
+// sounds still play here as they have no MIDI equivalent)
+export type MidiOutputMode = 'off' | 'both' | 'midiOnly';
+
+export interface MidiOutputSettings {
+  mode: MidiOutputMode;
+  portId: string | null; // Output port to send to
+}
+
+export const MIDI_OUTPUT_MODES: Array<{ id: MidiOutputMode; label: string }> = [
+  { id: 'off', label: 'Off' },
+  { id: 'both', label: 'Play here and send MIDI' },
+  { id: 'midiOnly', label: 'Send MIDI only' }
+];
+
+export const DEFAULT_MIDI_OUTPUT_SETTINGS: MidiOutputSettings = {
+  mode: 'off',
+  portId: null
+};
+
+// Control change number sent for each continuous parameter and movement control
+export const MIDI_CONTROLLERS: Record<string, number> = {
+  // Mapping parameters
+  volume: 7,
+  filter: 74,
+  pitch: 16,  // General purpose controller 1
+  tempo: 17,  // General purpose controller 2
+  // Movement control destinations
+  filterCutoff: 74,
+  filterResonance: 71,
+  reverbWet: 91,
+  delayFeedback: 12, // Effect control 1
+  detune: 94,
+  pan: 10,
+  modulationIndex: 1
+};
+
+const STORAGE_KEY = 'midi-output-settings';
+
+// Keep a MIDI channel (1-16, as shown to users) in range
+export const clampMidiChannel = (channel: number): number => {
+  if (typeof channel !== 'number' || isNaN(channel)) {
+    return 1;
+  }
+  return Math.min(Math.max(Math.round(channel), 1), 16);
+};
+
+export const loadMidiOutputSettings = (): MidiOutputSettings => {
+  return loadStoredSettings(STORAGE_KEY, 'MIDI output settings', DEFAULT_MIDI_OUTPUT_SETTINGS, stored => ({
+    mode: storedChoice(stored.mode, MIDI_OUTPUT_MODES.map(mode => mode.id), DEFAULT_MIDI_OUTPUT_SETTINGS.mode),
+    portId: storedString(stored.portId, DEFAULT_MIDI_OUTPUT_SETTINGS.portId)
+  }));
+};
+
+export const saveMidiOutputSettings = (settings: MidiOutputSettings): boolean => {
+  return saveStoredSettings(STORAGE_KEY, 'MIDI output settings', settings);
+};
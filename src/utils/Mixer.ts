@@ -0,0 +1,106 @@
+import * as Tone from 'tone';
+import {
+  MIXER_CHANNELS,
+  MixerChannelId,
+  MixerChannelSettings,
+  MixerSettings,
+  createMixerSettings,
+  isChannelAudible
+} from './MixerSettings';
+
+// Quietest gain before a channel counts as silent, and the level used for muting
+const MIN_GAIN = 0.0001;
+const SILENT_DB = -100;
+
+interface MixerStrip {
+  spatial: Tone.Panner; // Follows where each sound was played from (see SpatialSettings)
+  channel: Tone.Channel;
+  meter: Tone.Meter;
+}
+
+// One channel strip (spatial pan, gain, pan, mute, solo and a level meter) per voice group
+export class Mixer {
+  private strips = {} as Record<MixerChannelId, MixerStrip>;
+  private settings: MixerSettings = createMixerSettings();
+
+  constructor() {
+    MIXER_CHANNELS.forEach(({ id }) => {
+      const spatial = new Tone.Panner(0);
+      const channel = new Tone.Channel();
+      const meter = new Tone.Meter({ smoothing: 0.8 });
+      spatial.connect(channel);
+      channel.connect(meter);
+      this.strips[id] = { spatial, channel, meter };
+    });
+    this.apply();
+  }
+
+  // The node a voice group should connect to
+  public input(id: MixerChannelId): Tone.Panner {
+    return this.strips[id].spatial;
+  }
+
+  // Route a channel's output
+  public connect(id: MixerChannelId, destination: Tone.InputNode): this {
+    this.strips[id].channel.connect(destination);
+    return this;
+  }
+
+  // Move a channel's sound to where it was just played from, at the given
+  // time. A voice group pans as a whole, so a sound still ringing moves too.
+  public setSpatialPan(id: MixerChannelId, pan: number, time: number): void {
+    this.strips[id].spatial.pan.rampTo(pan, 0.02, time);
+  }
+
+  // Put every channel back in the centre
+  public resetSpatialPan(): void {
+    MIXER_CHANNELS.forEach(({ id }) => this.strips[id].spatial.pan.rampTo(0, 0.05));
+  }
+
+  public getSettings(): MixerSettings {
+    return createMixerSettings(this.settings);
+  }
+
+  // Replace every channel's settings (missing channels get the defaults)
+  public setSettings(settings: Partial<MixerSettings>): void {
+    this.settings = createMixerSettings(settings);
+    this.apply();
+  }
+
+  // Change one channel
+  public setChannel(id: MixerChannelId, settings: Partial<MixerChannelSettings>): void {
+    this.settings[id] = { ...this.settings[id], ...settings };
+    this.apply();
+  }
+
+  // Current level of each channel in decibels
+  public getLevels(): Record<MixerChannelId, number> {
+    const levels = {} as Record<MixerChannelId, number>;
+    MIXER_CHANNELS.forEach(({ id }) => {
+      const value = this.strips[id].meter.getValue();
+      levels[id] = Array.isArray(value) ? Math.max(...value) : value;
+    });
+    return levels;
+  }
+
+  // Push the settings to the channel strips. Mute and solo are worked out
+  // here (rather than with Tone.Channel's own solo, which is shared by every
+  // channel in the audio context) and applied as a quick fade.
+  private apply(): void {
+    MIXER_CHANNELS.forEach(({ id }) => {
+      const { channel } = this.strips[id];
+      const { gain, pan } = this.settings[id];
+      const audible = isChannelAudible(this.settings, id);
+      channel.volume.rampTo(audible ? Tone.gainToDb(Math.max(gain, MIN_GAIN)) : SILENT_DB, 0.05);
+      channel.pan.rampTo(pan, 0.05);
+    });
+  }
+
+  public dispose(): void {
+    MIXER_CHANNELS.forEach(({ id }) => {
+      this.strips[id].spatial.dispose();
+      this.strips[id].channel.dispose();
+      this.strips[id].meter.dispose();
+    });
+  }
+}
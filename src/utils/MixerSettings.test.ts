@@ -0,0 +1,22 @@
+import { createMixerSettings, isChannelAudible } from './MixerSettings';
+
+test('fills in channels a preset leaves out', () => {
+  const settings = createMixerSettings({ drums: { gain: 0.4, pan: -1, mute: false, solo: false } });
+  expect(settings.drums.gain).toBe(0.4);
+  expect(settings.melody).toEqual({ gain: 0.8, pan: 0, mute: false, solo: false });
+  expect(Object.keys(settings)).toEqual(['melody', 'chords', 'drums', 'effects', 'samples']);
+});
+
+test('mutes channels that are muted or not soloed', () => {
+  const settings = createMixerSettings();
+  settings.chords.mute = true;
+  expect(isChannelAudible(settings, 'melody')).toBe(true);
+  expect(isChannelAudible(settings, 'chords')).toBe(false);
+
+  settings.drums.solo = true;
+  expect(isChannelAudible(settings, 'drums')).toBe(true);
+  expect(isChannelAudible(settings, 'melody')).toBe(false);
+
+  settings.drums.mute = true; // mute wins over solo
+  expect(isChannelAudible(settings, 'drums')).toBe(false);
+});
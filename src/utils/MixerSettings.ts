@@ -0,0 +1,48 @@
+// Mixer channel settings, kept free of Tone.js so presets can be validated anywhere
+
+export type MixerChannelId = 'melody' | 'chords' | 'drums' | 'effects' | 'samples';
+
+export const MIXER_CHANNELS: Array<{ id: MixerChannelId; label: string }> = [
+  { id: 'melody', label: 'Melody' },
+  { id: 'chords', label: 'Chords' },
+  { id: 'drums', label: 'Drums' },
+  { id: 'effects', label: 'Effects' },
+  { id: 'samples', label: 'My Sounds' }
+];
+
+// MIDI channel (0-15) each voice group plays on when exported or sent to a MIDI
+// output; drums use the General MIDI drum channel
+export const MIXER_MIDI_CHANNELS: Record<MixerChannelId, number> = {
+  melody: 0,
+  chords: 1,
+  drums: 9,
+  effects: 2,
+  samples: 3
+};
+
+export interface MixerChannelSettings {
+  gain: number; // 0-1
+  pan: number;  // -1 (left) to 1 (right)
+  mute: boolean;
+  solo: boolean;
+}
+
+export type MixerSettings = Record<MixerChannelId, MixerChannelSettings>;
+
+const DEFAULT_CHANNEL: MixerChannelSettings = { gain: 0.8, pan: 0, mute: false, solo: false };
+
+// Fill in any channels a preset doesn't mention with the defaults
+export const createMixerSettings = (settings: Partial<MixerSettings> = {}): MixerSettings => {
+  const result = {} as MixerSettings;
+  MIXER_CHANNELS.forEach(({ id }) => {
+    result[id] = { ...DEFAULT_CHANNEL, ...settings[id] };
+  });
+  return result;
+};
+
+// A channel is heard unless it's muted, or other channels are soloed and it isn't
+export const isChannelAudible = (settings: MixerSettings, id: MixerChannelId): boolean => {
+  const anySolo = MIXER_CHANNELS.some(channel => settings[channel.id].solo);
+  const channel = settings[id];
+  return !channel.mute && (!anySolo || channel.solo);
+};
@@ -0,0 +1,45 @@
+import { ModulationMatrix, ModulationRoute, createModulationRoute, mapToRange } from './ModulationMatrix';
+
+const route = (overrides: Partial<ModulationRoute>): ModulationRoute => ({
+  ...createModulationRoute({ type: 'x', keypoint: 'right_wrist' }, 'pan'),
+  smoothing: 0,
+  ...overrides
+});
+
+test('maps values through linear, exponential and stepped curves', () => {
+  expect(mapToRange(0.5, route({ min: -1, max: 1 }))).toBe(0);
+  expect(mapToRange(0.25, route({ min: -1, max: 1, invert: true }))).toBe(0.5);
+  expect(mapToRange(0.5, route({ min: 100, max: 10000, curve: 'exponential' }))).toBeCloseTo(1000);
+  expect(mapToRange(0.5, route({ min: 0, max: 40, curve: 'exponential' }))).toBe(10);
+  expect(mapToRange(0.6, route({ min: 0, max: 3, curve: 'stepped', steps: 4 }))).toBe(2);
+  expect(mapToRange(1, route({ min: 0, max: 3, curve: 'stepped', steps: 4 }))).toBe(3);
+});
+
+test('reads height, speed and distance sources', () => {
+  const matrix = new ModulationMatrix();
+  matrix.setRoutes([
+    route({ id: 'height', source: { type: 'y', keypoint: 'right_wrist' }, destination: 'reverbWet', min: 0, max: 1 }),
+    route({ id: 'speed', source: { type: 'velocity', keypoint: 'right_wrist' }, destination: 'detune', min: 0, max: 100 }),
+    route({
+      id: 'spread',
+      source: { type: 'distance', keypoint: 'left_wrist', otherKeypoint: 'right_wrist' },
+      destination: 'modulationIndex',
+      min: 0,
+      max: 10
+    })
+  ]);
+
+  expect(matrix.update('right_wrist', 0.5, 0.25, 1000)).toEqual({ reverbWet: 0.75, detune: 0 });
+  expect(matrix.update('right_wrist', 0.5, 0.75, 1500)).toEqual({ reverbWet: 0.25, detune: 50 });
+  expect(matrix.update('left_wrist', 0.2, 0.35, 1500)).toEqual({ modulationIndex: 5 });
+  expect(matrix.usesKeypoint('nose')).toBe(false);
+});
+
+test('smooths changes over successive updates', () => {
+  const matrix = new ModulationMatrix();
+  matrix.setRoutes([route({ id: 'pan', min: 0, max: 1, smoothing: 0.5 })]);
+
+  expect(matrix.update('right_wrist', 0, 0.5, 0).pan).toBe(0);
+  expect(matrix.update('right_wrist', 1, 0.5, 100).pan).toBe(0.5);
+  expect(matrix.update('right_wrist', 1, 0.5, 200).pan).toBe(0.75);
+});
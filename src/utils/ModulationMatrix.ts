@@ -0,0 +1,185 @@
+// Continuous control: routes a keypoint's position or speed to a sound parameter
+
+// x and y are the keypoint's position in the frame (y is height, so raising a
+// hand increases it), velocity is how fast it moves and distance is how far
+// apart two keypoints are
+export type ModulationSourceType = 'x' | 'y' | 'velocity' | 'distance';
+
+export interface ModulationSource {
+  type: ModulationSourceType;
+  keypoint: string;
+  // The second keypoint for 'distance' sources
+  otherKeypoint?: string;
+}
+
+export type ModulationDestination =
+  | 'filterCutoff'
+  | 'filterResonance'
+  | 'reverbWet'
+  | 'delayFeedback'
+  | 'detune'
+  | 'pan'
+  | 'modulationIndex';
+
+export type ModulationCurve = 'linear' | 'exponential' | 'stepped';
+
+export interface ModulationRoute {
+  id: string;
+  source: ModulationSource;
+  destination: ModulationDestination;
+  min: number;
+  max: number;
+  curve: ModulationCurve;
+  steps?: number;    // number of values for stepped curves
+  smoothing: number; // 0 = follow instantly, close to 1 = very slow
+  invert: boolean;
+}
+
+export interface DestinationInfo {
+  label: string;
+  min: number;
+  max: number;
+  unit: string;
+}
+
+// Labels and the full range of each destination (routes default to this range)
+export const MODULATION_DESTINATIONS: Record<ModulationDestination, DestinationInfo> = {
+  filterCutoff: { label: 'Filter cutoff', min: 100, max: 10000, unit: 'Hz' },
+  filterResonance: { label: 'Filter resonance', min: 0.5, max: 15, unit: 'Q' },
+  reverbWet: { label: 'Reverb amount', min: 0, max: 1, unit: '' },
+  delayFeedback: { label: 'Echo feedback', min: 0, max: 0.9, unit: '' },
+  detune: { label: 'Detune', min: -100, max: 100, unit: 'cents' },
+  pan: { label: 'Pan (left/right)', min: -1, max: 1, unit: '' },
+  modulationIndex: { label: 'FM brightness', min: 0, max: 40, unit: '' }
+};
+
+export const MODULATION_SOURCE_TYPES: ModulationSourceType[] = ['x', 'y', 'velocity', 'distance'];
+export const MODULATION_CURVES: ModulationCurve[] = ['linear', 'exponential', 'stepped'];
+
+// Frame widths per second that count as full speed for velocity sources
+const FULL_SPEED = 2;
+
+const DEFAULT_STEPS = 4;
+
+// Create a route covering the destination's full range
+export const createModulationRoute = (
+  source: ModulationSource,
+  destination: ModulationDestination
+): ModulationRoute => {
+  const { min, max } = MODULATION_DESTINATIONS[destination];
+  return {
+    id: `mod-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    source,
+    destination,
+    min,
+    max,
+    curve: destination === 'filterCutoff' ? 'exponential' : 'linear',
+    smoothing: 0.5,
+    invert: false
+  };
+};
+
+// Shape a 0-1 value with a route's curve and scale it into the route's range
+export const mapToRange = (value: number, route: ModulationRoute): number => {
+  let amount = Math.min(Math.max(value, 0), 1);
+  if (route.invert) {
+    amount = 1 - amount;
+  }
+
+  switch (route.curve) {
+    case 'exponential':
+      // Equal movements give equal musical steps when both ends are positive (e.g. Hz)
+      if (route.min > 0 && route.max > 0) {
+        return route.min * Math.pow(route.max / route.min, amount);
+      }
+      amount = amount * amount;
+      break;
+
+    case 'stepped': {
+      const steps = Math.max(2, Math.round(route.steps || DEFAULT_STEPS));
+      amount = Math.min(Math.floor(amount * steps), steps - 1) / (steps - 1);
+      break;
+    }
+  }
+
+  return route.min + (route.max - route.min) * amount;
+};
+
+interface TrackedPosition {
+  x: number;
+  y: number;
+  time: number;
+  speed: number;
+}
+
+// Turns keypoint positions into smoothed destination values
+export class ModulationMatrix {
+  private routes: ModulationRoute[] = [];
+  private positions = new Map<string, TrackedPosition>();
+  private smoothed = new Map<string, number>();
+
+  public getRoutes(): ModulationRoute[] {
+    return this.routes.map(route => ({ ...route, source: { ...route.source } }));
+  }
+
+  public setRoutes(routes: ModulationRoute[]): void {
+    this.routes = routes.map(route => ({ ...route, source: { ...route.source } }));
+    this.smoothed.clear();
+  }
+
+  // Whether any route reads from this keypoint
+  public usesKeypoint(keypoint: string): boolean {
+    return this.routes.some(route =>
+      route.source.keypoint === keypoint || route.source.otherKeypoint === keypoint
+    );
+  }
+
+  // Record a new keypoint position (x and y from 0-1, top left is 0,0) and
+  // return the new value of every destination driven by that keypoint
+  public update(keypoint: string, x: number, y: number, time: number = Date.now()): Partial<Record<ModulationDestination, number>> {
+    const previous = this.positions.get(keypoint);
+    let speed = 0;
+    if (previous && time > previous.time) {
+      speed = Math.hypot(x - previous.x, y - previous.y) / ((time - previous.time) / 1000);
+    }
+    this.positions.set(keypoint, { x, y, time, speed });
+
+    const values: Partial<Record<ModulationDestination, number>> = {};
+    this.routes
+      .filter(route => route.source.keypoint === keypoint || route.source.otherKeypoint === keypoint)
+      .forEach(route => {
+        const sourceValue = this.readSource(route.source);
+        if (sourceValue === null) return;
+
+        const target = mapToRange(sourceValue, route);
+        const last = this.smoothed.get(route.id);
+        const smoothing = Math.min(Math.max(route.smoothing, 0), 0.99);
+        const value = last === undefined ? target : last + (target - last) * (1 - smoothing);
+
+        this.smoothed.set(route.id, value);
+        values[route.destination] = value;
+      });
+
+    return values;
+  }
+
+  // Read a source as a 0-1 value, or null if we haven't seen its keypoints yet
+  private readSource(source: ModulationSource): number | null {
+    const position = this.positions.get(source.keypoint);
+    if (!position) return null;
+
+    switch (source.type) {
+      case 'x':
+        return position.x;
+      case 'y':
+        return 1 - position.y;
+      case 'velocity':
+        return Math.min(position.speed / FULL_SPEED, 1);
+      case 'distance': {
+        const other = this.positions.get(source.otherKeypoint || '');
+        if (!other) return null;
+        return Math.min(Math.hypot(position.x - other.x, position.y - other.y), 1);
+      }
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { MOVEMENT_GAP_MS, MovementLatch } from './MovementLatch';
+
+test('acts once during a long movement that keeps triggering', () => {
+  const latch = new MovementLatch();
+
+  // A slow movement triggers every 200 ms
+  const taken = [0, 200, 400, 600, 800, 1000, 1200].map(time => latch.claim('right_wrist', 'looper', time));
+  expect(taken).toEqual([true, false, false, false, false, false, false]);
+
+  latch.reset('right_wrist');
+  expect(latch.claim('right_wrist', 'looper', 1400)).toBe(true);
+});
+
+test('acts again on a second movement with no start event in between', () => {
+  const latch = new MovementLatch();
+  expect(latch.claim('right_wrist', 'arpeggio:up', 0)).toBe(true);
+  expect(latch.claim('right_wrist', 'arpeggio:up', 300)).toBe(false);
+
+  // A pause, then the next movement
+  expect(latch.claim('right_wrist', 'arpeggio:up', 300 + MOVEMENT_GAP_MS + 1)).toBe(true);
+});
+
+test('keeps keypoints and actions apart', () => {
+  const latch = new MovementLatch();
+  expect(latch.claim('right_wrist', 'looper', 0)).toBe(true);
+  expect(latch.claim('left_wrist', 'looper', 0)).toBe(true);
+  expect(latch.claim('right_wrist', 'arpeggio:up', 0)).toBe(true);
+
+  latch.reset('left_wrist');
+  expect(latch.claim('left_wrist', 'looper', 100)).toBe(true);
+  expect(latch.claim('right_wrist', 'looper', 100)).toBe(false);
+});
+
+test('starts and stops the looper on separate Quick Play movements', () => {
+  const latch = new MovementLatch();
+
+  // Quick Play triggers every 300 ms while moving and never reports movement starts
+  const first = [0, 300, 600].map(time => latch.claim('nose', 'looper', time));
+  const second = [2000, 2300, 2600].map(time => latch.claim('nose', 'looper', time));
+  expect(first).toEqual([true, false, false]);
+  expect(second).toEqual([true, false, false]);
+});
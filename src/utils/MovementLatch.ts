@@ -0,0 +1,30 @@
+// Lets toggle gestures act once per movement. The intention detector
+// triggers again every cooldown period while a keypoint keeps moving, so
+// one slow movement would otherwise toggle something on and off again.
+// Movements end when the detector says a new one has started, or after a
+// pause in triggers (for callers like Quick Play that don't report starts).
+export const MOVEMENT_GAP_MS = 600;
+
+export class MovementLatch {
+  // Time of the last trigger for each action taken in a keypoint's current movement
+  private fired = new Map<string, Map<string, number>>();
+
+  // Whether a trigger of this keypoint should take the action: true for the
+  // first trigger of a movement, false for the rest
+  public claim(keypoint: string, action: string, now: number = Date.now()): boolean {
+    let actions = this.fired.get(keypoint);
+    if (!actions) {
+      actions = new Map();
+      this.fired.set(keypoint, actions);
+    }
+
+    const last = actions.get(action);
+    actions.set(action, now);
+    return last === undefined || now - last > MOVEMENT_GAP_MS;
+  }
+
+  // A new movement has started: the keypoint's actions can fire again
+  public reset(keypoint: string): void {
+    this.fired.delete(keypoint);
+  }
+}
@@ -0,0 +1,118 @@
+import { OscOutput } from './OscOutput';
+import { encodeOscMessage } from './osc';
+
+// A stand-in WebSocket that records what is sent
+class MockWebSocket {
+  static OPEN = 1;
+  static instances: MockWebSocket[] = [];
+  readyState = 0;
+  binaryType = 'blob';
+  sent: Uint8Array[] = [];
+  onopen: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(public url: string) {
+    MockWebSocket.instances.push(this);
+  }
+
+  send(data: Uint8Array) {
+    this.sent.push(data);
+  }
+
+  close() {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+
+  open() {
+    this.readyState = MockWebSocket.OPEN;
+    this.onopen?.();
+  }
+}
+
+const movement = (keypoint: string, velocity: number) => ({
+  keypoint, direction: 'up', velocity, confidence: 0.9, isIntentional: true
+});
+
+const originalWebSocket = global.WebSocket;
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  localStorage.clear();
+  MockWebSocket.instances = [];
+  (global as any).WebSocket = MockWebSocket;
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  global.WebSocket = originalWebSocket;
+});
+
+test('does nothing until switched on', () => {
+  const osc = new OscOutput();
+  osc.start();
+  expect(MockWebSocket.instances).toHaveLength(0);
+  expect(osc.getState()).toBe('off');
+});
+
+test('sends the latest movement of each keypoint at the send rate', () => {
+  const osc = new OscOutput();
+  osc.setSettings({ enabled: true, sendRate: 10, movementAddress: '/move/{keypoint}' });
+  const socket = MockWebSocket.instances[0];
+  socket.open();
+  expect(osc.getState()).toBe('connected');
+
+  osc.sendMovements([movement('nose', 0.1), movement('left_wrist', 0.2)]);
+  osc.sendMovements([movement('nose', 0.5)]);
+  expect(socket.sent).toHaveLength(0);
+
+  jest.advanceTimersByTime(100);
+  expect(socket.sent).toEqual([
+    encodeOscMessage('/move/nose', [
+      { type: 's', value: 'nose' }, { type: 's', value: 'up' },
+      { type: 'f', value: 0.5 }, { type: 'f', value: 0.9 }, { type: 'i', value: 1 }
+    ]),
+    encodeOscMessage('/move/left_wrist', [
+      { type: 's', value: 'left_wrist' }, { type: 's', value: 'up' },
+      { type: 'f', value: 0.2 }, { type: 'f', value: 0.9 }, { type: 'i', value: 1 }
+    ])
+  ]);
+
+  // Nothing new, nothing sent
+  jest.advanceTimersByTime(100);
+  expect(socket.sent).toHaveLength(2);
+});
+
+test('sends notes straight away', () => {
+  const osc = new OscOutput();
+  osc.setSettings({ enabled: true });
+  MockWebSocket.instances[0].open();
+
+  osc.sendNote({ group: 'chords', note: 'E3', velocity: 0.8, duration: 0.5 });
+  expect(MockWebSocket.instances[0].sent).toEqual([
+    encodeOscMessage('/gesture/note', [
+      { type: 's', value: 'chords' }, { type: 's', value: 'E3' }, { type: 'i', value: 52 },
+      { type: 'f', value: 0.8 }, { type: 'f', value: 0.5 }
+    ])
+  ]);
+});
+
+test('reconnects after the connection drops, until switched off', () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  const osc = new OscOutput();
+  const states: string[] = [];
+  osc.setStateCallback(state => states.push(state));
+  osc.setSettings({ enabled: true });
+  MockWebSocket.instances[0].open();
+
+  MockWebSocket.instances[0].close();
+  expect(osc.getState()).toBe('error');
+  jest.advanceTimersByTime(3000);
+  expect(MockWebSocket.instances).toHaveLength(2);
+
+  osc.setSettings({ enabled: false });
+  jest.advanceTimersByTime(10000);
+  expect(MockWebSocket.instances).toHaveLength(2);
+  expect(states).toEqual(['connecting', 'connected', 'error', 'connecting', 'off']);
+});
@@ -0,0 +1,185 @@
+import { MovementInfo } from './MLIntentionDetector';
+import { OscSettings, clampSendRate, formatOscAddress, loadOscSettings, saveOscSettings } from './OscSettings';
+import { TriggeredNote } from './SoundEvent';
+import { OscArgument, encodeOscMessage } from './osc';
+import { noteToMidi } from './musicTheory';
+
+export type OscConnectionState = 'off' | 'connecting' | 'connected' | 'error';
+
+// Wait this long before trying a dropped connection again
+const RECONNECT_DELAY = 3000;
+
+// Streams movements and triggered notes as OSC messages over a WebSocket.
+// Movements are sent at most sendRate times a second per keypoint (the
+// latest one wins); notes are sent straight away.
+//
+// Movement messages: keypoint (s), direction (s), velocity (f), confidence (f), intentional (i, 0/1)
+// Note messages: group (s), note (s), MIDI note (i, -1 for frequencies), velocity (f), duration (f)
+export class OscOutput {
+  private settings: OscSettings = loadOscSettings();
+  private socket: WebSocket | null = null;
+  private state: OscConnectionState = 'off';
+  private pendingMovements = new Map<string, MovementInfo>();
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private stateCallback: ((state: OscConnectionState) => void) | null = null;
+
+  public getSettings(): OscSettings {
+    return { ...this.settings };
+  }
+
+  // Change the settings (remembered on this device), reconnecting if needed
+  public setSettings(settings: Partial<OscSettings>): void {
+    const previous = this.settings;
+    this.settings = { ...this.settings, ...settings };
+    this.settings.sendRate = clampSendRate(this.settings.sendRate);
+    saveOscSettings(this.settings);
+
+    if (!this.settings.enabled) {
+      this.stop();
+    } else if (!previous.enabled || previous.url !== this.settings.url || this.state === 'off') {
+      this.stop();
+      this.start();
+    } else if (previous.sendRate !== this.settings.sendRate && this.flushTimer) {
+      this.startFlushing();
+    }
+  }
+
+  public getState(): OscConnectionState {
+    return this.state;
+  }
+
+  public setStateCallback(callback: ((state: OscConnectionState) => void) | null): void {
+    this.stateCallback = callback;
+  }
+
+  // Connect if OSC output is switched on
+  public start(): void {
+    if (!this.settings.enabled || this.socket) return;
+
+    if (typeof WebSocket === 'undefined') {
+      console.error('WebSockets are not available for OSC output');
+      this.setState('error');
+      return;
+    }
+
+    this.setState('connecting');
+    try {
+      this.socket = new WebSocket(this.settings.url);
+    } catch (error) {
+      console.error('Error opening OSC WebSocket:', error);
+      this.socket = null;
+      this.setState('error');
+      this.scheduleReconnect();
+      return;
+    }
+
+    const socket = this.socket;
+    socket.binaryType = 'arraybuffer';
+    socket.onopen = () => {
+      this.setState('connected');
+      this.startFlushing();
+    };
+    socket.onerror = () => {
+      console.error(`OSC WebSocket error (${this.settings.url})`);
+    };
+    socket.onclose = () => {
+      // Ignore sockets we've already replaced or closed ourselves
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.stopFlushing();
+      this.setState('error');
+      this.scheduleReconnect();
+    };
+  }
+
+  // Disconnect and stop trying to reconnect
+  public stop(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.stopFlushing();
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.setState('off');
+  }
+
+  // Queue the latest movement of each keypoint to be sent
+  public sendMovements(movements: MovementInfo[]): void {
+    if (this.state !== 'connected') return;
+    movements.forEach(movement => this.pendingMovements.set(movement.keypoint, movement));
+  }
+
+  public sendNote(note: TriggeredNote): void {
+    if (this.state !== 'connected') return;
+
+    let midi = -1;
+    try {
+      midi = noteToMidi(note.note);
+    } catch (error) {
+      // A frequency rather than a note name
+    }
+
+    this.send(formatOscAddress(this.settings.noteAddress, { group: note.group }), [
+      { type: 's', value: note.group },
+      { type: 's', value: note.note },
+      { type: 'i', value: midi },
+      { type: 'f', value: note.velocity },
+      { type: 'f', value: note.duration }
+    ]);
+  }
+
+  private flushMovements(): void {
+    this.pendingMovements.forEach(movement => {
+      this.send(formatOscAddress(this.settings.movementAddress, { keypoint: movement.keypoint }), [
+        { type: 's', value: movement.keypoint },
+        { type: 's', value: movement.direction },
+        { type: 'f', value: movement.velocity },
+        { type: 'f', value: movement.confidence },
+        { type: 'i', value: movement.isIntentional ? 1 : 0 }
+      ]);
+    });
+    this.pendingMovements.clear();
+  }
+
+  private send(address: string, args: OscArgument[]): void {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) return;
+
+    try {
+      this.socket.send(encodeOscMessage(address, args));
+    } catch (error) {
+      console.error(`Error sending OSC message ${address}:`, error);
+    }
+  }
+
+  private startFlushing(): void {
+    this.stopFlushing();
+    this.flushTimer = setInterval(() => this.flushMovements(), 1000 / this.settings.sendRate);
+  }
+
+  private stopFlushing(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.pendingMovements.clear();
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.settings.enabled || this.reconnectTimer) return;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.start();
+    }, RECONNECT_DELAY);
+  }
+
+  private setState(state: OscConnectionState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.stateCallback?.(state);
+  }
+}
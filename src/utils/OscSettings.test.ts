@@ -0,0 +1,15 @@
+import { clampSendRate, formatOscAddress, isValidOscAddress, isValidWebSocketUrl } from './OscSettings';
+
+test('fills in address placeholders', () => {
+  expect(formatOscAddress('/movement/{keypoint}', { keypoint: 'nose' })).toBe('/movement/nose');
+  expect(isValidOscAddress('/note/{group}')).toBe(true);
+  expect(isValidOscAddress('/bad address')).toBe(false);
+  expect(isValidOscAddress('/{unknown}')).toBe(false);
+  expect(clampSendRate(0)).toBe(1);
+});
+
+test('only accepts WebSocket addresses for the bridge', () => {
+  expect(isValidWebSocketUrl('ws://192.168.1.5:9000')).toBe(true);
+  expect(isValidWebSocketUrl('wss://example.com/osc')).toBe(true);
+  expect(isValidWebSocketUrl('http://localhost:8080')).toBe(false);
+});
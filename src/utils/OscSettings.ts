@@ -0,0 +1,63 @@
+import { loadStoredSettings, saveStoredSettings, storedBoolean, storedNumber, storedString } from './storedSettings';
+
+// Settings for streaming movement and note data as OSC over a WebSocket,
+// for research patches in Max/MSP, Pure Data or SuperCollider (see
+// scripts/osc-bridge.js for forwarding to UDP). Stored on this device.
+
+export interface OscSettings {
+  enabled: boolean;
+  url: string;             // WebSocket to send to, e.g. the bridge script
+  movementAddress: string; // Address pattern for movements; {keypoint} is replaced
+  noteAddress: string;     // Address pattern for triggered notes; {group} is replaced
+  sendRate: number;        // Movement updates per second for each keypoint
+}
+
+export const MIN_SEND_RATE = 1;
+export const MAX_SEND_RATE = 60;
+
+export const DEFAULT_OSC_SETTINGS: OscSettings = {
+  enabled: false,
+  url: 'ws://localhost:8080',
+  movementAddress: '/gesture/movement',
+  noteAddress: '/gesture/note',
+  sendRate: 20
+};
+
+const STORAGE_KEY = 'osc-output-settings';
+
+// Keep a send rate inside the allowed range
+export const clampSendRate = (rate: number): number => {
+  if (typeof rate !== 'number' || isNaN(rate)) {
+    return DEFAULT_OSC_SETTINGS.sendRate;
+  }
+  return Math.min(Math.max(Math.round(rate), MIN_SEND_RATE), MAX_SEND_RATE);
+};
+
+// Fill in an address pattern's placeholders, e.g. "/movement/{keypoint}"
+export const formatOscAddress = (pattern: string, values: Record<string, string>): string => {
+  return pattern.replace(/\{(\w+)\}/g, (placeholder, name) => values[name] ?? placeholder);
+};
+
+// Address patterns start with "/" and can't contain spaces or OSC's special characters
+export const isValidOscAddress = (pattern: string): boolean => {
+  const sample = formatOscAddress(pattern, { keypoint: 'nose', group: 'melody' });
+  return /^\/[^\s#*,?[\]{}]*$/.test(sample);
+};
+
+export const isValidWebSocketUrl = (url: string): boolean => {
+  return /^wss?:\/\/[^\s/]+/.test(url);
+};
+
+export const loadOscSettings = (): OscSettings => {
+  return loadStoredSettings(STORAGE_KEY, 'OSC settings', DEFAULT_OSC_SETTINGS, stored => ({
+    enabled: storedBoolean(stored.enabled, DEFAULT_OSC_SETTINGS.enabled),
+    url: storedString(stored.url, DEFAULT_OSC_SETTINGS.url, isValidWebSocketUrl),
+    movementAddress: storedString(stored.movementAddress, DEFAULT_OSC_SETTINGS.movementAddress, isValidOscAddress),
+    noteAddress: storedString(stored.noteAddress, DEFAULT_OSC_SETTINGS.noteAddress, isValidOscAddress),
+    sendRate: clampSendRate(storedNumber(stored.sendRate, DEFAULT_OSC_SETTINGS.sendRate))
+  }));
+};
+
+export const saveOscSettings = (settings: OscSettings): boolean => {
+  return saveStoredSettings(STORAGE_KEY, 'OSC settings', settings);
+};
@@ -0,0 +1,24 @@
+import { PerformanceLog } from './PerformanceLog';
+import { parseMidiFile } from './midiFile';
+
+test('logs notes by name and skips anything else', () => {
+  const log = new PerformanceLog();
+  log.log('chords', ['C4', 'E4'], 10, 0.5, 0.6);
+  log.log('effects', '440', 10, 0.5, 0.6);
+  expect(log.getNotes().map(note => note.midi)).toEqual([60, 64]);
+
+  log.clear();
+  expect(log.getCount()).toBe(0);
+});
+
+test('exports a track per voice group timed from the first note', () => {
+  const log = new PerformanceLog();
+  log.log('melody', 'C4', 20, 0.5, 1);
+  log.log('drums', 'C2', 21, 0.25, 0.5);
+  log.log('melody', 'D4', 22, 0.5, 1);
+
+  const midi = parseMidiFile(log.toMidiFile(60).buffer);
+  expect(midi.tracks.map(track => track.name)).toEqual(['', 'Melody', 'Drums']);
+  expect(midi.tracks[1].notes.map(note => [note.midi, note.time])).toEqual([[60, 0], [62, 2]]);
+  expect(midi.tracks[2].notes[0]).toMatchObject({ midi: 36, time: 1, channel: 9 });
+});
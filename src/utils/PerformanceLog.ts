@@ -0,0 +1,63 @@
+import { MIXER_CHANNELS, MIXER_MIDI_CHANNELS, MixerChannelId } from './MixerSettings';
+import { MidiTrackData, writeMidiFile } from './midiFile';
+import { noteToMidi } from './musicTheory';
+
+export interface LoggedNote {
+  group: MixerChannelId; // Voice group the note played on
+  midi: number;
+  time: number;          // audio context seconds
+  duration: number;      // seconds
+  velocity: number;      // 0-1
+}
+
+// Keep at most this many notes (the oldest are dropped first)
+const MAX_LOGGED_NOTES = 50000;
+
+// A timestamped record of every note the engine triggers during a session
+export class PerformanceLog {
+  private notes: LoggedNote[] = [];
+
+  // Record notes by name; anything that isn't a note name (e.g. a frequency) is skipped
+  public log(group: MixerChannelId, notes: string | string[], time: number, duration: number, velocity: number): void {
+    (Array.isArray(notes) ? notes : [notes]).forEach(note => {
+      try {
+        this.notes.push({ group, midi: noteToMidi(note), time, duration, velocity });
+      } catch (error) {
+        // Not a note name
+      }
+    });
+
+    if (this.notes.length > MAX_LOGGED_NOTES) {
+      this.notes.splice(0, this.notes.length - MAX_LOGGED_NOTES);
+    }
+  }
+
+  public getNotes(): LoggedNote[] {
+    return [...this.notes];
+  }
+
+  public getCount(): number {
+    return this.notes.length;
+  }
+
+  public clear(): void {
+    this.notes = [];
+  }
+
+  // Write the log as a MIDI file with a track per voice group, starting at the first note
+  public toMidiFile(bpm: number): Uint8Array {
+    const start = this.notes.reduce((earliest, note) => Math.min(earliest, note.time), Infinity);
+
+    const tracks: MidiTrackData[] = MIXER_CHANNELS
+      .map(({ id, label }) => ({
+        name: label,
+        channel: MIXER_MIDI_CHANNELS[id],
+        notes: this.notes
+          .filter(note => note.group === id)
+          .map(note => ({ midi: note.midi, time: note.time - start, duration: note.duration, velocity: note.velocity }))
+      }))
+      .filter(track => track.notes.length > 0);
+
+    return writeMidiFile(tracks, bpm);
+  }
+}
@@ -0,0 +1,155 @@
+import type { ProgressionSettings } from './ChordProgression';
+import type { ModulationRoute } from './ModulationMatrix';
+import type { EffectSettings } from './EffectSettings';
+import type { MixerSettings } from './MixerSettings';
+import type { SoundMapping, SoundPreset } from './SoundEngine';
+import { createPresetFile, parsePresetFile, PRESET_FILE_FORMAT, PRESET_FILE_VERSION } from './PresetFile';
+
+const preset = {
+  name: 'Bells',
+  description: 'Two bell notes',
+  instrument: 'piano',
+  mappings: [
+    { keypoint: 'right_wrist', direction: 'up', soundType: 'note' as const, soundValue: 'C5' },
+    { keypoint: 'left_wrist', direction: 'any', soundType: 'chord' as const, soundValue: ['F#3', 'Bb3'] }
+  ]
+};
+
+test('round-trips presets through the file format', () => {
+  const json = createPresetFile([preset]);
+  expect(JSON.parse(json)).toMatchObject({ format: PRESET_FILE_FORMAT, version: PRESET_FILE_VERSION });
+  expect(parsePresetFile(json)).toEqual({ presets: [preset], errors: [] });
+});
+
+test('migrates a bare preset array from older versions', () => {
+  expect(parsePresetFile(JSON.stringify([preset])).presets).toEqual([preset]);
+});
+
+test('upgrades version 1 files, which had none of the later fields', () => {
+  const versionOne = JSON.stringify({ format: PRESET_FILE_FORMAT, version: 1, exportedAt: '', presets: [preset] });
+  expect(parsePresetFile(versionOne)).toEqual({ presets: [preset], errors: [] });
+});
+
+test('reports readable errors for invalid mappings', () => {
+  const invalid = { keypoint: 'nose', direction: 'up', soundType: 'laser', soundValue: 'C4', parameter: 'speed' } as unknown as SoundMapping;
+  const json = createPresetFile([{
+    ...preset,
+    mappings: [
+      { keypoint: 'left_tail', direction: 'up', soundType: 'note', soundValue: 'H9' },
+      invalid
+    ]
+  }]);
+
+  const { presets, errors } = parsePresetFile(json);
+  expect(presets).toEqual([]);
+  expect(errors).toEqual([
+    'Preset "Bells", mapping 1: unknown keypoint "left_tail"',
+    'Preset "Bells", mapping 1: "H9" is not a valid note name (e.g. C4, F#3)',
+    'Preset "Bells", mapping 2: unsupported soundType "laser" (expected note, chord, drum, effect, sample, arpeggio)',
+    'Preset "Bells", mapping 2: unsupported parameter "speed" (expected volume, pitch, tempo, filter)'
+  ]);
+});
+
+test('validates continuous control routings', () => {
+  const route: ModulationRoute = {
+    id: 'mod-1',
+    source: { type: 'distance', keypoint: 'left_wrist', otherKeypoint: 'right_wrist' },
+    destination: 'filterCutoff',
+    min: 200,
+    max: 8000,
+    curve: 'exponential',
+    smoothing: 0.5,
+    invert: false
+  };
+  expect(parsePresetFile(createPresetFile([{ ...preset, modulation: [route] }])).errors).toEqual([]);
+
+  const broken = {
+    ...route, source: { type: 'distance', keypoint: 'left_wrist' }, destination: 'warp', smoothing: 1
+  } as unknown as ModulationRoute;
+  expect(parsePresetFile(createPresetFile([{ ...preset, modulation: [broken] }])).errors).toEqual([
+    'Preset "Bells", modulation 1: a distance needs a second keypoint',
+    'Preset "Bells", modulation 1: unknown destination "warp" (expected filterCutoff, filterResonance, reverbWet, delayFeedback, detune, pan, modulationIndex)',
+    'Preset "Bells", modulation 1: smoothing must be a number from 0 up to 1'
+  ]);
+});
+
+test('validates effects chains', () => {
+  const effects: EffectSettings[] = [
+    { id: 'fx-1', type: 'delay', bypassed: false, params: { delayTime: 0.25, feedback: 0.3, wet: 0.2 } },
+    { id: 'fx-2', type: 'reverb', bypassed: true, params: { decay: 3, wet: 0.3 } }
+  ];
+  expect(parsePresetFile(createPresetFile([{ ...preset, effects }])).errors).toEqual([]);
+
+  const broken = [
+    { id: 'fx-1', type: 'delay', bypassed: false, params: { feedback: 2, speed: 1 } },
+    { id: 'fx-2', type: 'flanger', bypassed: false, params: {} }
+  ] as unknown as EffectSettings[];
+  expect(parsePresetFile(createPresetFile([{ ...preset, effects: broken }])).errors).toEqual([
+    'Preset "Bells", effect 1: feedback must be a number from 0 to 0.9',
+    'Preset "Bells", effect 1: unknown delay parameter "speed"',
+    'Preset "Bells", effect 2: unknown effect "flanger" (expected delay, chorus, distortion, phaser, compressor, eq, reverb)'
+  ]);
+});
+
+test('validates mixer channels', () => {
+  const mixer: Partial<MixerSettings> = { drums: { gain: 0.5, pan: -0.5, mute: false, solo: true } };
+  expect(parsePresetFile(createPresetFile([{ ...preset, mixer }])).errors).toEqual([]);
+
+  const broken = { bass: { gain: 1 }, melody: { gain: 2, mute: 'yes' } } as unknown as Partial<MixerSettings>;
+  expect(parsePresetFile(createPresetFile([{ ...preset, mixer: broken }])).errors).toEqual([
+    'Preset "Bells": unknown mixer channel "bass" (expected melody, chords, drums, effects, samples)',
+    'Preset "Bells": mixer channel "melody" gain must be a number from 0 to 1',
+    'Preset "Bells": mixer channel "melody" mute must be true or false'
+  ]);
+});
+
+test('validates arpeggio mappings', () => {
+  const arpeggio: SoundMapping = {
+    keypoint: 'right_wrist', direction: 'up', soundType: 'arpeggio', soundValue: ['C4', 'E4', 'G4'],
+    arpeggio: { source: 'held', pattern: 'upDown', rate: '16n', octaves: 2, gate: 0.8 }
+  };
+  expect(parsePresetFile(createPresetFile([{ ...preset, mappings: [arpeggio] }])).errors).toEqual([]);
+
+  // A single note, as the engine accepts, survives export and import
+  const singleNote: SoundPreset = { ...preset, mappings: [{ ...arpeggio, soundValue: 'C4' }] };
+  expect(parsePresetFile(createPresetFile([singleNote]))).toEqual({ presets: [singleNote], errors: [] });
+  expect(parsePresetFile(createPresetFile([{ ...singleNote, mappings: [{ ...arpeggio, soundValue: 'H2' }] }])).errors)
+    .toEqual(['Preset "Bells", mapping 1: "H2" is not a valid note name (e.g. C4, F#3)']);
+
+  const broken = { ...arpeggio, soundValue: [], arpeggio: { pattern: 'sideways', octaves: 5 } } as unknown as SoundMapping;
+  expect(parsePresetFile(createPresetFile([{ ...preset, mappings: [broken] }])).errors).toEqual([
+    'Preset "Bells", mapping 1: an arpeggio needs a list of notes',
+    'Preset "Bells", mapping 1: unknown arpeggio pattern "sideways" (expected up, down, upDown, random)',
+    'Preset "Bells", mapping 1: arpeggio octaves must be a whole number from 1 to 3'
+  ]);
+});
+
+test('validates MIDI channels', () => {
+  const withChannel = { ...preset, mappings: [{ ...preset.mappings[0], midiChannel: 10 }] };
+  expect(parsePresetFile(createPresetFile([withChannel])).errors).toEqual([]);
+
+  const broken = { ...preset, mappings: [{ ...preset.mappings[0], midiChannel: 17 }] };
+  expect(parsePresetFile(createPresetFile([broken])).errors).toEqual([
+    'Preset "Bells", mapping 1: midiChannel must be a whole number from 1 to 16'
+  ]);
+});
+
+test('validates chord progressions', () => {
+  const progression: ProgressionSettings = { enabled: true, steps: ['Am', 'F', ['C4', 'E4', 'G4']], loop: true, resetKeypoint: 'nose', backKeypoint: null };
+  expect(parsePresetFile(createPresetFile([{ ...preset, progression }])).errors).toEqual([]);
+
+  const broken = { ...progression, steps: ['Am', 'Qm', ['C4', 'X']], loop: 'yes', backKeypoint: 'tail' } as unknown as ProgressionSettings;
+  expect(parsePresetFile(createPresetFile([{ ...preset, progression: broken }])).errors).toEqual([
+    'Preset "Bells": progression loop must be true or false',
+    'Preset "Bells": unknown progression backKeypoint "tail"',
+    'Preset "Bells", chord 2: "Qm" is not a chord name or a list of notes',
+    'Preset "Bells", chord 3: ["C4","X"] is not a chord name or a list of notes'
+  ]);
+});
+
+test('rejects files from newer versions and non-preset JSON', () => {
+  const newer = JSON.stringify({ format: PRESET_FILE_FORMAT, version: PRESET_FILE_VERSION + 1, presets: [preset] });
+  expect(parsePresetFile(newer).errors[0]).toMatch(/only supports up to version/);
+  expect(parsePresetFile('{"hello": 1}').errors).toEqual(['This is not a preset file']);
+  expect(parsePresetFile('nope').errors).toEqual(['The file is not valid JSON']);
+});
@@ -0,0 +1,463 @@
+import type { SoundPreset } from './SoundEngine';
+import { MODULATION_CURVES, MODULATION_DESTINATIONS, MODULATION_SOURCE_TYPES } from './ModulationMatrix';
+import { EFFECT_TYPES, EffectType } from './EffectSettings';
+import { MIXER_CHANNELS } from './MixerSettings';
+import { ARPEGGIO_PATTERNS, ARPEGGIO_RATES, MAX_ARPEGGIO_OCTAVES } from './ArpeggiatorSettings';
+import { stepToNotes } from './ChordProgression';
+
+// Identifies our preset documents so other JSON files are rejected early
+export const PRESET_FILE_FORMAT = 'accessible-music-presets';
+
+// Bump this (and add a migration below) whenever the document shape changes.
+// Version 2 added modulation, effects, mixer, progression, arpeggio mappings
+// and MIDI channels, which version 1 apps would silently drop.
+export const PRESET_FILE_VERSION = 2;
+
+export interface PresetFileDocument {
+  format: string;
+  version: number;
+  exportedAt: string;
+  presets: SoundPreset[];
+}
+
+export interface PresetFileResult {
+  presets: SoundPreset[];
+  errors: string[];
+}
+
+// Keypoints produced by MoveNet and BlazePose
+export const KNOWN_KEYPOINTS = [
+  'nose', 'left_eye', 'right_eye', 'left_ear', 'right_ear',
+  'left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow',
+  'left_wrist', 'right_wrist', 'left_hip', 'right_hip',
+  'left_knee', 'right_knee', 'left_ankle', 'right_ankle',
+  'left_index', 'right_index', 'left_thumb', 'right_thumb',
+  'left_pinky', 'right_pinky'
+];
+
+const KNOWN_DIRECTIONS = ['up', 'down', 'left', 'right', 'any'];
+const SOUND_TYPES = ['note', 'chord', 'drum', 'effect', 'sample', 'arpeggio'];
+const PARAMETERS = ['volume', 'pitch', 'tempo', 'filter'];
+const NOTE_PATTERN = /^[A-G](#|b)?-?\d$/;
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isOneOf = <T extends string>(value: unknown, options: readonly T[]): value is T => {
+  return typeof value === 'string' && (options as readonly string[]).includes(value);
+};
+
+// Each migration upgrades a document from version N to version N + 1
+const MIGRATIONS: Record<number, (doc: unknown) => JsonObject> = {
+  // Version 0 is the bare preset array (or single preset) kept in localStorage
+  0: doc => ({
+    format: PRESET_FILE_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    presets: Array.isArray(doc) ? doc : [doc]
+  }),
+  // Version 2 only added optional fields
+  1: doc => ({ ...(doc as JsonObject), version: 2 })
+};
+
+// Check that a string is a note name such as C4, F#3 or Bb2
+export const isValidNoteName = (note: unknown): boolean => {
+  return typeof note === 'string' && NOTE_PATTERN.test(note);
+};
+
+// Serialize presets into a versioned JSON document
+export const createPresetFile = (presets: SoundPreset[]): string => {
+  const doc: PresetFileDocument = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    presets
+  };
+
+  return JSON.stringify(doc, null, 2);
+};
+
+// Parse, migrate and validate a preset document.
+// Returns no presets at all if anything in the file is invalid.
+export const parsePresetFile = (json: string): PresetFileResult => {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(json);
+  } catch (error) {
+    return { presets: [], errors: ['The file is not valid JSON'] };
+  }
+
+  const migrated = migrateDocument(doc);
+  if (typeof migrated === 'string') {
+    return { presets: [], errors: [migrated] };
+  }
+
+  if (!Array.isArray(migrated.presets) || migrated.presets.length === 0) {
+    return { presets: [], errors: ['The file does not contain any presets'] };
+  }
+
+  const errors: string[] = [];
+  migrated.presets.forEach((preset: unknown, index: number) => {
+    errors.push(...validatePreset(preset, index));
+  });
+
+  if (errors.length > 0) {
+    return { presets: [], errors };
+  }
+
+  // Every preset has passed validation, so it has the SoundPreset shape
+  return { presets: migrated.presets as SoundPreset[], errors: [] };
+};
+
+// Bring an older document up to the current version, or explain why we can't
+const migrateDocument = (doc: unknown): JsonObject | string => {
+  // Documents without an envelope predate the versioned format
+  let current = Array.isArray(doc) || (isObject(doc) && doc.format === undefined && doc.mappings)
+    ? MIGRATIONS[0](doc)
+    : doc;
+
+  if (!isObject(current) || current.format !== PRESET_FILE_FORMAT) {
+    return 'This is not a preset file';
+  }
+
+  if (typeof current.version !== 'number') {
+    return 'The preset file has no version number';
+  }
+
+  let upgraded: JsonObject = current;
+  let version: number = current.version;
+
+  if (version > PRESET_FILE_VERSION) {
+    return `The preset file is version ${version}, but this app only supports up to version ${PRESET_FILE_VERSION}. Please update the app.`;
+  }
+
+  while (version < PRESET_FILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      return `Preset file version ${version} can't be upgraded`;
+    }
+    upgraded = migrate(upgraded);
+    version++;
+  }
+
+  return upgraded;
+};
+
+// Validate a single preset, returning readable error messages
+const validatePreset = (preset: unknown, index: number): string[] => {
+  const label = isObject(preset) && typeof preset.name === 'string' && preset.name.trim()
+    ? `Preset "${preset.name}"`
+    : `Preset ${index + 1}`;
+
+  if (!isObject(preset)) {
+    return [`${label} is not an object`];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof preset.name !== 'string' || !preset.name.trim()) {
+    errors.push(`${label} is missing a name`);
+  }
+  if (typeof preset.description !== 'string') {
+    errors.push(`${label} is missing a description`);
+  }
+  if (typeof preset.instrument !== 'string') {
+    errors.push(`${label} is missing an instrument`);
+  }
+  if (!Array.isArray(preset.mappings)) {
+    errors.push(`${label} has no mappings list`);
+    return errors;
+  }
+
+  preset.mappings.forEach((mapping: unknown, mappingIndex: number) => {
+    errors.push(...validateMapping(mapping, `${label}, mapping ${mappingIndex + 1}`));
+  });
+
+  if (preset.modulation !== undefined) {
+    if (!Array.isArray(preset.modulation)) {
+      errors.push(`${label}: modulation must be a list`);
+    } else {
+      preset.modulation.forEach((route: unknown, routeIndex: number) => {
+        errors.push(...validateModulationRoute(route, `${label}, modulation ${routeIndex + 1}`));
+      });
+    }
+  }
+
+  if (preset.effects !== undefined) {
+    if (!Array.isArray(preset.effects)) {
+      errors.push(`${label}: effects must be a list`);
+    } else {
+      preset.effects.forEach((effect: unknown, effectIndex: number) => {
+        errors.push(...validateEffect(effect, `${label}, effect ${effectIndex + 1}`));
+      });
+    }
+  }
+
+  if (preset.mixer !== undefined) {
+    errors.push(...validateMixer(preset.mixer, label));
+  }
+
+  if (preset.progression !== undefined) {
+    errors.push(...validateProgression(preset.progression, label));
+  }
+
+  return errors;
+};
+
+// Validate a preset's chord progression
+const validateProgression = (progression: unknown, label: string): string[] => {
+  if (!isObject(progression)) {
+    return [`${label}: progression must be an object`];
+  }
+
+  const errors: string[] = [];
+
+  ['enabled', 'loop'].forEach(flag => {
+    if (typeof progression[flag] !== 'boolean') {
+      errors.push(`${label}: progression ${flag} must be true or false`);
+    }
+  });
+  ['resetKeypoint', 'backKeypoint'].forEach(gesture => {
+    const keypoint = progression[gesture];
+    if (keypoint !== null && !isOneOf(keypoint, KNOWN_KEYPOINTS)) {
+      errors.push(`${label}: unknown progression ${gesture} "${keypoint}"`);
+    }
+  });
+
+  if (!Array.isArray(progression.steps)) {
+    errors.push(`${label}: progression steps must be a list`);
+  } else {
+    progression.steps.forEach((step: unknown, stepIndex: number) => {
+      try {
+        if (typeof step === 'string') {
+          stepToNotes(step);
+        } else if (Array.isArray(step) && step.every(note => typeof note === 'string')) {
+          stepToNotes(step as string[]);
+        } else {
+          throw new Error();
+        }
+      } catch (error) {
+        errors.push(`${label}, chord ${stepIndex + 1}: ${JSON.stringify(step)} is not a chord name or a list of notes`);
+      }
+    });
+  }
+
+  return errors;
+};
+
+// Validate a preset's mixer channels
+const validateMixer = (mixer: unknown, label: string): string[] => {
+  if (!isObject(mixer)) {
+    return [`${label}: mixer must be an object`];
+  }
+
+  const errors: string[] = [];
+  const channelIds: string[] = MIXER_CHANNELS.map(channel => channel.id);
+
+  Object.entries(mixer).forEach(([id, channel]) => {
+    if (!channelIds.includes(id)) {
+      errors.push(`${label}: unknown mixer channel "${id}" (expected ${channelIds.join(', ')})`);
+      return;
+    }
+    if (!isObject(channel)) {
+      errors.push(`${label}: mixer channel "${id}" is not an object`);
+      return;
+    }
+    if (channel.gain !== undefined && (typeof channel.gain !== 'number' || channel.gain < 0 || channel.gain > 1)) {
+      errors.push(`${label}: mixer channel "${id}" gain must be a number from 0 to 1`);
+    }
+    if (channel.pan !== undefined && (typeof channel.pan !== 'number' || channel.pan < -1 || channel.pan > 1)) {
+      errors.push(`${label}: mixer channel "${id}" pan must be a number from -1 to 1`);
+    }
+    ['mute', 'solo'].forEach(flag => {
+      if (channel[flag] !== undefined && typeof channel[flag] !== 'boolean') {
+        errors.push(`${label}: mixer channel "${id}" ${flag} must be true or false`);
+      }
+    });
+  });
+
+  return errors;
+};
+
+// Validate a single effect in an effects chain
+const validateEffect = (effect: unknown, label: string): string[] => {
+  if (!isObject(effect)) {
+    return [`${label} is not an object`];
+  }
+
+  const errors: string[] = [];
+  const types = Object.keys(EFFECT_TYPES) as EffectType[];
+
+  if (typeof effect.id !== 'string' || !effect.id) {
+    errors.push(`${label} is missing an id`);
+  }
+  if (!isOneOf(effect.type, types)) {
+    errors.push(`${label}: unknown effect "${effect.type}" (expected ${types.join(', ')})`);
+    return errors;
+  }
+  if (typeof effect.bypassed !== 'boolean') {
+    errors.push(`${label}: bypassed must be true or false`);
+  }
+  if (!isObject(effect.params)) {
+    errors.push(`${label} has no parameters`);
+    return errors;
+  }
+
+  const known = EFFECT_TYPES[effect.type].params;
+  Object.entries(effect.params).forEach(([param, value]) => {
+    if (!known[param]) {
+      errors.push(`${label}: unknown ${effect.type} parameter "${param}"`);
+    } else if (typeof value !== 'number' || value < known[param].min || value > known[param].max) {
+      errors.push(`${label}: ${param} must be a number from ${known[param].min} to ${known[param].max}`);
+    }
+  });
+
+  return errors;
+};
+
+// Validate a single continuous control routing
+const validateModulationRoute = (route: unknown, label: string): string[] => {
+  if (!isObject(route)) {
+    return [`${label} is not an object`];
+  }
+
+  const errors: string[] = [];
+  const destinations = Object.keys(MODULATION_DESTINATIONS);
+
+  if (typeof route.id !== 'string' || !route.id) {
+    errors.push(`${label} is missing an id`);
+  }
+  const source = route.source;
+  if (!isObject(source) || !isOneOf(source.type, MODULATION_SOURCE_TYPES)) {
+    errors.push(`${label}: unknown source (expected ${MODULATION_SOURCE_TYPES.join(', ')})`);
+  } else {
+    if (!isOneOf(source.keypoint, KNOWN_KEYPOINTS)) {
+      errors.push(`${label}: unknown keypoint "${source.keypoint}"`);
+    }
+    if (source.type === 'distance' && !isOneOf(source.otherKeypoint, KNOWN_KEYPOINTS)) {
+      errors.push(`${label}: a distance needs a second keypoint`);
+    }
+  }
+  if (!isOneOf(route.destination, destinations)) {
+    errors.push(`${label}: unknown destination "${route.destination}" (expected ${destinations.join(', ')})`);
+  }
+  if (typeof route.min !== 'number' || typeof route.max !== 'number') {
+    errors.push(`${label}: min and max must be numbers`);
+  }
+  if (!isOneOf(route.curve, MODULATION_CURVES)) {
+    errors.push(`${label}: unknown curve "${route.curve}" (expected ${MODULATION_CURVES.join(', ')})`);
+  }
+  if (typeof route.smoothing !== 'number' || route.smoothing < 0 || route.smoothing >= 1) {
+    errors.push(`${label}: smoothing must be a number from 0 up to 1`);
+  }
+  if (typeof route.invert !== 'boolean') {
+    errors.push(`${label}: invert must be true or false`);
+  }
+
+  return errors;
+};
+
+// Validate a single gesture-to-sound mapping
+const validateMapping = (mapping: unknown, label: string): string[] => {
+  if (!isObject(mapping)) {
+    return [`${label} is not an object`];
+  }
+
+  const errors: string[] = [];
+
+  if (!isOneOf(mapping.keypoint, KNOWN_KEYPOINTS)) {
+    errors.push(`${label}: unknown keypoint "${mapping.keypoint}"`);
+  }
+  if (!isOneOf(mapping.direction, KNOWN_DIRECTIONS)) {
+    errors.push(`${label}: unknown direction "${mapping.direction}" (expected ${KNOWN_DIRECTIONS.join(', ')})`);
+  }
+  if (!isOneOf(mapping.soundType, SOUND_TYPES)) {
+    errors.push(`${label}: unsupported soundType "${mapping.soundType}" (expected ${SOUND_TYPES.join(', ')})`);
+  }
+  if (mapping.parameter !== undefined && !isOneOf(mapping.parameter, PARAMETERS)) {
+    errors.push(`${label}: unsupported parameter "${mapping.parameter}" (expected ${PARAMETERS.join(', ')})`);
+  }
+  if (mapping.midiChannel !== undefined &&
+      (typeof mapping.midiChannel !== 'number' || !Number.isInteger(mapping.midiChannel) ||
+       mapping.midiChannel < 1 || mapping.midiChannel > 16)) {
+    errors.push(`${label}: midiChannel must be a whole number from 1 to 16`);
+  }
+
+  const value = mapping.soundValue;
+  switch (mapping.soundType) {
+    case 'note':
+    case 'drum':
+      if (!isValidNoteName(value)) {
+        errors.push(`${label}: "${value}" is not a valid note name (e.g. C4, F#3)`);
+      }
+      break;
+
+    case 'chord':
+    case 'arpeggio':
+      // An arpeggio can also be given a single note, which the engine plays as a one-note chord
+      if (mapping.soundType === 'arpeggio' && typeof value === 'string') {
+        if (!isValidNoteName(value)) {
+          errors.push(`${label}: "${value}" is not a valid note name (e.g. C4, F#3)`);
+        }
+      } else if (!Array.isArray(value) || value.length === 0) {
+        errors.push(`${label}: ${mapping.soundType === 'chord' ? 'a chord' : 'an arpeggio'} needs a list of notes`);
+      } else {
+        value
+          .filter(note => !isValidNoteName(note))
+          .forEach(note => errors.push(`${label}: "${note}" is not a valid note name (e.g. C4, F#3)`));
+      }
+      break;
+
+    case 'effect':
+      if (typeof value !== 'string' || !value) {
+        errors.push(`${label}: an effect needs a name`);
+      }
+      break;
+
+    case 'sample':
+      if (typeof value !== 'string' || !value) {
+        errors.push(`${label}: a recorded sound needs an id`);
+      }
+      break;
+  }
+
+  if (mapping.arpeggio !== undefined) {
+    errors.push(...validateArpeggio(mapping.arpeggio, label));
+  }
+
+  return errors;
+};
+
+// Validate an arpeggio mapping's settings (all optional)
+const validateArpeggio = (arpeggio: unknown, label: string): string[] => {
+  if (!isObject(arpeggio)) {
+    return [`${label}: arpeggio settings must be an object`];
+  }
+
+  const errors: string[] = [];
+  const patterns: string[] = ARPEGGIO_PATTERNS.map(pattern => pattern.id);
+  const rates: string[] = ARPEGGIO_RATES.map(rate => rate.id);
+
+  if (arpeggio.source !== undefined && !isOneOf(arpeggio.source, ['chord', 'held'])) {
+    errors.push(`${label}: unknown arpeggio source "${arpeggio.source}" (expected chord, held)`);
+  }
+  if (arpeggio.pattern !== undefined && !isOneOf(arpeggio.pattern, patterns)) {
+    errors.push(`${label}: unknown arpeggio pattern "${arpeggio.pattern}" (expected ${patterns.join(', ')})`);
+  }
+  if (arpeggio.rate !== undefined && !isOneOf(arpeggio.rate, rates)) {
+    errors.push(`${label}: unknown arpeggio rate "${arpeggio.rate}" (expected ${rates.join(', ')})`);
+  }
+  if (arpeggio.octaves !== undefined &&
+      (typeof arpeggio.octaves !== 'number' || !Number.isInteger(arpeggio.octaves) ||
+       arpeggio.octaves < 1 || arpeggio.octaves > MAX_ARPEGGIO_OCTAVES)) {
+    errors.push(`${label}: arpeggio octaves must be a whole number from 1 to ${MAX_ARPEGGIO_OCTAVES}`);
+  }
+  if (arpeggio.gate !== undefined && (typeof arpeggio.gate !== 'number' || arpeggio.gate <= 0 || arpeggio.gate > 1)) {
+    errors.push(`${label}: arpeggio gate must be a number above 0 up to 1`);
+  }
+
+  return errors;
+};
@@ -0,0 +1,61 @@
+import { PresetStore } from './PresetStore';
+
+const preset = {
+  name: 'Session A',
+  description: 'Left hand chords only',
+  instrument: 'piano',
+  mappings: [
+    { keypoint: 'left_wrist', direction: 'up', soundType: 'chord' as const, soundValue: ['C3', 'E3', 'G3'] }
+  ]
+};
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+test('persists created presets across instances', () => {
+  expect(new PresetStore().create(preset)).toBe(true);
+  expect(new PresetStore().get('Session A')).toEqual(preset);
+});
+
+test('rejects duplicate names', () => {
+  const store = new PresetStore();
+  store.create(preset);
+  expect(store.create(preset)).toBe(false);
+  expect(store.list()).toHaveLength(1);
+});
+
+test('updates and deletes presets', () => {
+  const store = new PresetStore();
+  store.create(preset);
+
+  expect(store.update('Session A', { ...preset, name: 'Session B' })).toBe(true);
+  expect(store.has('Session A')).toBe(false);
+  expect(new PresetStore().has('Session B')).toBe(true);
+
+  expect(store.delete('Session B')).toBe(true);
+  expect(store.delete('Session B')).toBe(false);
+  expect(new PresetStore().list()).toEqual([]);
+});
+
+test('leaves presets unchanged when storage is full', () => {
+  const store = new PresetStore();
+  store.create(preset);
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  const setItem = jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+    throw new Error('QuotaExceededError');
+  });
+
+  expect(store.create({ ...preset, name: 'Session B' })).toBe(false);
+  expect(store.update('Session A', { ...preset, description: 'Changed' })).toBe(false);
+  expect(store.delete('Session A')).toBe(false);
+  expect(store.list()).toEqual([preset]);
+
+  setItem.mockRestore();
+  expect(new PresetStore().list()).toEqual([preset]);
+});
+
+test('ignores corrupt storage', () => {
+  localStorage.setItem('custom-sound-presets', '{not json');
+  expect(new PresetStore().list()).toEqual([]);
+});
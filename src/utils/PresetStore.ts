@@ -0,0 +1,103 @@
+import type { SoundPreset } from './SoundEngine';
+
+const STORAGE_KEY = 'custom-sound-presets';
+
+// Persists user-created presets in localStorage so they survive a reload
+export class PresetStore {
+  private presets: SoundPreset[] = [];
+  private storageKey: string;
+
+  constructor(storageKey: string = STORAGE_KEY) {
+    this.storageKey = storageKey;
+    this.presets = this.readFromStorage();
+  }
+
+  // List all saved presets
+  public list(): SoundPreset[] {
+    return this.presets.map(preset => ({ ...preset, mappings: [...preset.mappings] }));
+  }
+
+  // Find a saved preset by name
+  public get(name: string): SoundPreset | undefined {
+    return this.list().find(p => p.name === name);
+  }
+
+  // Check if a preset with this name has been saved
+  public has(name: string): boolean {
+    return this.presets.some(p => p.name === name);
+  }
+
+  // Add a new preset (fails if the name is already taken)
+  public create(preset: SoundPreset): boolean {
+    if (!preset.name.trim()) {
+      console.error('Cannot save a preset without a name');
+      return false;
+    }
+
+    if (this.has(preset.name)) {
+      console.error(`A custom preset named "${preset.name}" already exists`);
+      return false;
+    }
+
+    return this.save([...this.presets, preset]);
+  }
+
+  // Replace an existing preset (the name may change as part of the update)
+  public update(name: string, preset: SoundPreset): boolean {
+    const index = this.presets.findIndex(p => p.name === name);
+    if (index === -1) {
+      console.error(`Could not find custom preset: ${name}`);
+      return false;
+    }
+
+    if (preset.name !== name && this.has(preset.name)) {
+      console.error(`A custom preset named "${preset.name}" already exists`);
+      return false;
+    }
+
+    return this.save(this.presets.map((p, i) => (i === index ? preset : p)));
+  }
+
+  // Remove a preset by name
+  public delete(name: string): boolean {
+    const remaining = this.presets.filter(p => p.name !== name);
+    if (remaining.length === this.presets.length) {
+      console.error(`Could not find custom preset: ${name}`);
+      return false;
+    }
+
+    return this.save(remaining);
+  }
+
+  // Load presets from localStorage, ignoring anything that can't be parsed
+  private readFromStorage(): SoundPreset[] {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (!stored) return [];
+
+      const parsed = JSON.parse(stored);
+      if (!Array.isArray(parsed)) {
+        console.warn('Stored custom presets are not an array, ignoring them');
+        return [];
+      }
+
+      return parsed.filter(p => p && typeof p.name === 'string' && Array.isArray(p.mappings));
+    } catch (error) {
+      console.error('Error reading custom presets:', error);
+      return [];
+    }
+  }
+
+  // Write presets to localStorage, keeping them in memory only once they are
+  // stored so the two never disagree
+  private save(presets: SoundPreset[]): boolean {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(presets));
+      this.presets = presets;
+      return true;
+    } catch (error) {
+      console.error('Error saving custom presets:', error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { DEFAULT_RECORDING_SETTINGS, canConvertToWav, clampRecordingMinutes } from './RecordingSettings';
+
+test('clamps lengths to whole minutes in the allowed range', () => {
+  expect(clampRecordingMinutes(0)).toBe(1);
+  expect(clampRecordingMinutes(4.6)).toBe(5);
+  expect(clampRecordingMinutes(NaN)).toBe(DEFAULT_RECORDING_SETTINGS.maxMinutes);
+});
+
+test('only offers WAV for recordings short enough to decode in memory', () => {
+  expect(canConvertToWav(5 * 60)).toBe(true);
+  expect(canConvertToWav(5 * 60 + 1)).toBe(false);
+});
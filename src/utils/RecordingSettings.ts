@@ -0,0 +1,43 @@
+import { loadStoredSettings, saveStoredSettings, storedNumber } from './storedSettings';
+
+// Settings for recording the performance audio. A recording is held in
+// memory until it's downloaded, so its length is capped.
+
+export interface RecordingSettings {
+  maxMinutes: number; // recording stops by itself after this long
+}
+
+export const MIN_RECORDING_MINUTES = 1;
+export const MAX_RECORDING_MINUTES = 60;
+
+// Converting to WAV decodes the whole recording (about 23 MB a minute at
+// 48 kHz stereo) and writes a WAV of about 11 MB a minute alongside it, so
+// WAV files are only offered for recordings up to this long. Longer ones can
+// still be downloaded as recorded.
+export const MAX_WAV_MINUTES = 5;
+
+export const canConvertToWav = (seconds: number): boolean => seconds <= MAX_WAV_MINUTES * 60;
+
+export const DEFAULT_RECORDING_SETTINGS: RecordingSettings = {
+  maxMinutes: 10
+};
+
+const STORAGE_KEY = 'audio-recording-settings';
+
+// Keep a maximum length inside the allowed range (whole minutes)
+export const clampRecordingMinutes = (minutes: number): number => {
+  if (typeof minutes !== 'number' || isNaN(minutes)) {
+    return DEFAULT_RECORDING_SETTINGS.maxMinutes;
+  }
+  return Math.min(Math.max(Math.round(minutes), MIN_RECORDING_MINUTES), MAX_RECORDING_MINUTES);
+};
+
+export const loadRecordingSettings = (): RecordingSettings => {
+  return loadStoredSettings(STORAGE_KEY, 'recording settings', DEFAULT_RECORDING_SETTINGS, stored => ({
+    maxMinutes: clampRecordingMinutes(storedNumber(stored.maxMinutes, DEFAULT_RECORDING_SETTINGS.maxMinutes))
+  }));
+};
+
+export const saveRecordingSettings = (settings: RecordingSettings): boolean => {
+  return saveStoredSettings(STORAGE_KEY, 'recording settings', settings);
+};
@@ -0,0 +1,16 @@
+import { DEFAULT_SAFETY_SETTINGS, clampCeiling, makeClipCurve } from './SafetySettings';
+
+test('clamps ceilings to the allowed range', () => {
+  expect(clampCeiling(-50)).toBe(-30);
+  expect(clampCeiling(NaN)).toBe(DEFAULT_SAFETY_SETTINGS.maxLevel);
+});
+
+test('clips the output at the ceiling and leaves quieter signals alone', () => {
+  const clip = makeClipCurve(-6);
+  expect(clip(1)).toBeCloseTo(0.501, 3);
+  expect(clip(-1)).toBeCloseTo(-0.501, 3);
+  expect(clip(0.25)).toBe(0.25);
+
+  // Even a ceiling set out of range can't let the output past 0 dBFS
+  expect(makeClipCurve(12)(2)).toBe(1);
+});
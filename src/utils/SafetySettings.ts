@@ -0,0 +1,44 @@
+import { loadStoredSettings, saveStoredSettings, storedBoolean, storedNumber } from './storedSettings';
+
+// Hearing-safety settings for the master output. These belong to the device
+// (headphones, speakers) rather than a preset, so they're stored on their own.
+
+export interface SafetySettings {
+  maxLevel: number;      // output ceiling in dBFS
+  softenOnsets: boolean; // tame sudden loud attacks for sensory-sensitive users
+}
+
+export const MIN_CEILING = -30;
+export const MAX_CEILING = 0;
+
+export const DEFAULT_SAFETY_SETTINGS: SafetySettings = {
+  maxLevel: -6,
+  softenOnsets: false
+};
+
+const STORAGE_KEY = 'hearing-safety-settings';
+
+// Keep a ceiling inside the allowed range
+export const clampCeiling = (level: number): number => {
+  if (typeof level !== 'number' || isNaN(level)) {
+    return DEFAULT_SAFETY_SETTINGS.maxLevel;
+  }
+  return Math.min(Math.max(level, MIN_CEILING), MAX_CEILING);
+};
+
+// Waveshaper curve that hard-clips at a ceiling in dBFS
+export const makeClipCurve = (ceiling: number) => {
+  const limit = Math.pow(10, clampCeiling(ceiling) / 20);
+  return (x: number) => Math.min(Math.max(x, -limit), limit);
+};
+
+export const loadSafetySettings = (): SafetySettings => {
+  return loadStoredSettings(STORAGE_KEY, 'hearing-safety settings', DEFAULT_SAFETY_SETTINGS, stored => ({
+    maxLevel: clampCeiling(storedNumber(stored.maxLevel, DEFAULT_SAFETY_SETTINGS.maxLevel)),
+    softenOnsets: storedBoolean(stored.softenOnsets, DEFAULT_SAFETY_SETTINGS.softenOnsets)
+  }));
+};
+
+export const saveSafetySettings = (settings: SafetySettings): boolean => {
+  return saveStoredSettings(STORAGE_KEY, 'hearing-safety settings', settings);
+};
@@ -0,0 +1,123 @@
+import * as Tone from 'tone';
+import { SampleLibrary, SampleManifest } from './SampleLibrary';
+
+// A stand-in sampler that loads or fails when the test says so
+interface MockSamplerOptions {
+  urls: Record<string, string>;
+  baseUrl: string;
+  onload: () => void;
+  onerror: (error: Error) => void;
+}
+
+const samplers: Array<{ options: MockSamplerOptions; dispose: jest.Mock }> = [];
+
+jest.mock('tone', () => ({ Sampler: jest.fn() }));
+
+const MANIFEST: SampleManifest = {
+  version: 1,
+  kits: [
+    {
+      id: '808',
+      name: '808 Drum Machine',
+      type: 'drums',
+      baseUrl: 'drums/808/',
+      samples: { C2: { file: 'kick.wav', label: 'Kick' }, D2: { file: 'snare.wav', label: 'Snare' } }
+    },
+    {
+      id: 'sampled-piano',
+      name: 'Sampled Piano',
+      type: 'instrument',
+      baseUrl: 'piano/',
+      samples: { C4: { file: 'C4.wav', label: 'C4' } }
+    }
+  ]
+};
+
+const mockFetch = (...responses: Array<{ ok: boolean; status?: number; body?: unknown }>) => {
+  const fetch = jest.fn();
+  responses.forEach(({ ok, status = 200, body }) => {
+    fetch.mockResolvedValueOnce({ ok, status, json: () => Promise.resolve(body) });
+  });
+  Object.defineProperty(window, 'fetch', { value: fetch, configurable: true, writable: true });
+  return fetch;
+};
+
+beforeEach(() => {
+  samplers.length = 0;
+  (Tone.Sampler as unknown as jest.Mock).mockImplementation((options: MockSamplerOptions) => {
+    const sampler = { options, dispose: jest.fn() };
+    samplers.push(sampler);
+    return sampler;
+  });
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('reads the kits from the manifest, each waiting to load', async () => {
+  const fetch = mockFetch({ ok: true, body: MANIFEST });
+  const library = new SampleLibrary('/samples/');
+  const states = jest.fn();
+  library.setLoadingStateCallback(states);
+
+  await library.loadManifest();
+  await library.loadManifest(); // Only fetched once
+
+  expect(fetch).toHaveBeenCalledTimes(1);
+  expect(fetch).toHaveBeenCalledWith('/samples/manifest.json');
+  expect(library.getKits().map(kit => kit.id)).toEqual(['808', 'sampled-piano']);
+  expect(library.getKits('drums').map(kit => kit.id)).toEqual(['808']);
+  expect(library.getKit('sampled-piano')?.name).toBe('Sampled Piano');
+  expect(states).toHaveBeenLastCalledWith({ '808': 'idle', 'sampled-piano': 'idle' });
+});
+
+test('fetches the manifest again after a failed request', async () => {
+  const fetch = mockFetch({ ok: false, status: 404 }, { ok: true, body: MANIFEST });
+  const library = new SampleLibrary('/samples/');
+
+  await expect(library.loadManifest()).rejects.toThrow('Sample manifest request failed: 404');
+  expect(library.getKits()).toEqual([]);
+
+  await library.loadManifest();
+  expect(fetch).toHaveBeenCalledTimes(2);
+  expect(library.getKits()).toHaveLength(2);
+});
+
+test('loads a kit\'s samples and reports when they are ready', async () => {
+  mockFetch({ ok: true, body: MANIFEST });
+  const library = new SampleLibrary('/samples/');
+
+  const loading = library.loadSampler('808');
+  await library.loadManifest();
+  expect(library.getLoadingState('808')).toBe('loading');
+  expect(samplers[0].options.urls).toEqual({ C2: 'kick.wav', D2: 'snare.wav' });
+  expect(samplers[0].options.baseUrl).toBe('/samples/drums/808/');
+
+  samplers[0].options.onload();
+  await expect(loading).resolves.toBe(samplers[0]);
+  expect(library.getLoadingStates()).toEqual({ '808': 'ready', 'sampled-piano': 'idle' });
+});
+
+test('marks a kit that fails to decode so callers can fall back', async () => {
+  mockFetch({ ok: true, body: MANIFEST });
+  const library = new SampleLibrary('/samples/');
+
+  const loading = library.loadSampler('808');
+  await library.loadManifest();
+  samplers[0].options.onerror(new Error('Unable to decode audio data'));
+
+  await expect(loading).rejects.toThrow('Unable to decode audio data');
+  expect(samplers[0].dispose).toHaveBeenCalled();
+  expect(library.getLoadingState('808')).toBe('error');
+});
+
+test('rejects kits that are not in the manifest', async () => {
+  mockFetch({ ok: true, body: MANIFEST });
+  const library = new SampleLibrary('/samples/');
+
+  await expect(library.loadSampler('steel-drums')).rejects.toThrow('Unknown sample kit: steel-drums');
+  expect(samplers).toHaveLength(0);
+});
@@ -0,0 +1,157 @@
+import * as Tone from 'tone';
+
+export type SampleLoadState = 'idle' | 'loading' | 'ready' | 'error';
+
+export interface SampleKitEntry {
+  file: string;
+  label: string;
+}
+
+export interface SampleKit {
+  id: string;
+  name: string;
+  type: 'drums' | 'instrument';
+  baseUrl: string;
+  // Note name that triggers each sample, e.g. "C2" -> kick
+  samples: Record<string, SampleKitEntry>;
+}
+
+export interface SampleManifest {
+  version: number;
+  kits: SampleKit[];
+}
+
+// Loads the sample kits bundled under public/samples so they work offline
+export class SampleLibrary {
+  private rootUrl: string;
+  private manifest: SampleManifest | null = null;
+  private manifestPromise: Promise<SampleManifest> | null = null;
+  private loadingStates = new Map<string, SampleLoadState>();
+  private loadingStateCallback: ((states: Record<string, SampleLoadState>) => void) | null = null;
+
+  constructor(rootUrl: string = `${process.env.PUBLIC_URL || ''}/samples/`) {
+    this.rootUrl = rootUrl;
+  }
+
+  // Fetch the manifest describing the bundled kits (only fetched once)
+  public loadManifest(): Promise<SampleManifest> {
+    if (this.manifestPromise) {
+      return this.manifestPromise;
+    }
+
+    this.manifestPromise = fetch(`${this.rootUrl}manifest.json`)
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Sample manifest request failed: ${response.status}`);
+        }
+        return response.json();
+      })
+      .then((manifest: SampleManifest) => {
+        this.manifest = manifest;
+        manifest.kits.forEach(kit => {
+          if (!this.loadingStates.has(kit.id)) {
+            this.loadingStates.set(kit.id, 'idle');
+          }
+        });
+        this.notifyLoadingState();
+        console.log(`Sample manifest loaded with ${manifest.kits.length} kits`);
+        return manifest;
+      })
+      .catch(error => {
+        console.error('Error loading sample manifest:', error);
+        this.manifestPromise = null;
+        throw error;
+      });
+
+    return this.manifestPromise;
+  }
+
+  // List the kits in the manifest, optionally only drums or instruments
+  public getKits(type?: SampleKit['type']): SampleKit[] {
+    const kits = this.manifest ? this.manifest.kits : [];
+    return type ? kits.filter(kit => kit.type === type) : kits;
+  }
+
+  // Find a kit by id
+  public getKit(id: string): SampleKit | undefined {
+    return this.getKits().find(kit => kit.id === id);
+  }
+
+  // Get the loading state of one kit
+  public getLoadingState(id: string): SampleLoadState {
+    return this.loadingStates.get(id) || 'idle';
+  }
+
+  // Get the loading state of every kit
+  public getLoadingStates(): Record<string, SampleLoadState> {
+    return Object.fromEntries(this.loadingStates);
+  }
+
+  // Add callback for loading state updates
+  public setLoadingStateCallback(callback: ((states: Record<string, SampleLoadState>) => void) | null): void {
+    this.loadingStateCallback = callback;
+    this.notifyLoadingState();
+  }
+
+  // Create a sampler for a kit right away. It stays silent until loaded,
+  // so callers should check getLoadingState() or use loadSampler().
+  public createSampler(id: string, onload?: () => void, onerror?: (error: Error) => void): Tone.Sampler | null {
+    const kit = this.getKit(id);
+    if (!kit) {
+      console.error(`Unknown sample kit: ${id}`);
+      return null;
+    }
+
+    const urls: Record<string, string> = {};
+    Object.entries(kit.samples).forEach(([note, entry]) => {
+      urls[note] = entry.file;
+    });
+
+    this.setLoadingState(id, 'loading');
+
+    return new Tone.Sampler({
+      urls,
+      baseUrl: `${this.rootUrl}${kit.baseUrl}`,
+      onload: () => {
+        this.setLoadingState(id, 'ready');
+        onload?.();
+      },
+      onerror: (error: Error) => {
+        console.error(`Error decoding samples for kit ${id}:`, error);
+        this.setLoadingState(id, 'error');
+        onerror?.(error);
+      }
+    });
+  }
+
+  // Create a sampler for a kit and wait until all of its samples are decoded
+  public async loadSampler(id: string): Promise<Tone.Sampler> {
+    await this.loadManifest();
+
+    return new Promise<Tone.Sampler>((resolve, reject) => {
+      const sampler: Tone.Sampler | null = this.createSampler(
+        id,
+        () => resolve(sampler as Tone.Sampler),
+        error => {
+          sampler?.dispose();
+          reject(error);
+        }
+      );
+
+      if (!sampler) {
+        reject(new Error(`Unknown sample kit: ${id}`));
+      }
+    });
+  }
+
+  private setLoadingState(id: string, state: SampleLoadState): void {
+    this.loadingStates.set(id, state);
+    this.notifyLoadingState();
+  }
+
+  private notifyLoadingState(): void {
+    if (this.loadingStateCallback) {
+      this.loadingStateCallback(this.getLoadingStates());
+    }
+  }
+}
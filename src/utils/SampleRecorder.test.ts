@@ -0,0 +1,43 @@
+import { trimSamples } from './SampleRecorder';
+
+// Only the recorder itself needs Tone.js
+jest.mock('tone', () => ({}));
+
+const SAMPLE_RATE = 1000; // 5 samples of fade at each end
+
+const expectSamples = (actual: Float32Array, expected: number[]) => {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((value, i) => expect(actual[i]).toBeCloseTo(value));
+};
+
+test('trims every channel to the chosen range', () => {
+  const left = new Float32Array(2000).fill(1);
+  const right = new Float32Array(2000).fill(-1);
+
+  const [trimmedLeft, trimmedRight] = trimSamples([left, right], SAMPLE_RATE, 0.5, 1.5);
+  expect(trimmedLeft).toHaveLength(1000);
+  expect(trimmedRight).toHaveLength(1000);
+  expect(trimmedLeft[500]).toBe(1);
+  expect(trimmedRight[500]).toBe(-1);
+  expect(left[500]).toBe(1); // The original is left alone
+});
+
+test('fades in and out over 5ms', () => {
+  const [trimmed] = trimSamples([new Float32Array(1000).fill(1)], SAMPLE_RATE, 0, 1);
+
+  expectSamples(trimmed.slice(0, 6), [0, 0.2, 0.4, 0.6, 0.8, 1]);
+  expectSamples(trimmed.slice(-6), [1, 0.8, 0.6, 0.4, 0.2, 0]);
+});
+
+test('keeps the fades apart in very short clips', () => {
+  const [trimmed] = trimSamples([new Float32Array(6).fill(1)], SAMPLE_RATE, 0, 1);
+  expectSamples(trimmed, [0, 1 / 3, 2 / 3, 2 / 3, 1 / 3, 0]);
+});
+
+test('clamps the range to the recording', () => {
+  const [trimmed] = trimSamples([new Float32Array(100).fill(1)], SAMPLE_RATE, -1, 5);
+  expect(trimmed).toHaveLength(100);
+
+  const [empty] = trimSamples([new Float32Array(100).fill(1)], SAMPLE_RATE, 0.08, 0.02);
+  expect(empty).toHaveLength(0);
+});
@@ -0,0 +1,106 @@
+import * as Tone from 'tone';
+import { MAX_SAMPLE_DURATION } from './UserSampleStore';
+
+// Records short clips from the microphone
+export class SampleRecorder {
+  private stream: MediaStream | null = null;
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private stopTimer: ReturnType<typeof setTimeout> | null = null;
+  private stopPromise: Promise<AudioBuffer> | null = null;
+
+  // Check if this browser can record from the microphone
+  public static isSupported(): boolean {
+    return typeof navigator !== 'undefined'
+      && !!navigator.mediaDevices
+      && typeof MediaRecorder !== 'undefined';
+  }
+
+  // Check if a recording is in progress
+  public isRecording(): boolean {
+    return this.recorder !== null && this.recorder.state === 'recording';
+  }
+
+  // Start recording; stops by itself after maxDuration seconds.
+  // The returned promise resolves with the recording once it stops.
+  public async start(maxDuration: number = MAX_SAMPLE_DURATION): Promise<AudioBuffer> {
+    if (this.isRecording() && this.stopPromise) {
+      return this.stopPromise;
+    }
+
+    this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    this.recorder = new MediaRecorder(this.stream);
+    this.chunks = [];
+
+    const recorder = this.recorder;
+    this.stopPromise = new Promise<AudioBuffer>((resolve, reject) => {
+      recorder.ondataavailable = event => {
+        if (event.data.size > 0) {
+          this.chunks.push(event.data);
+        }
+      };
+
+      recorder.onstop = async () => {
+        this.releaseMicrophone();
+        try {
+          const blob = new Blob(this.chunks, { type: recorder.mimeType });
+          const audioBuffer = await Tone.getContext().decodeAudioData(await blob.arrayBuffer());
+          resolve(audioBuffer);
+        } catch (error) {
+          console.error('Error decoding recording:', error);
+          reject(error);
+        }
+      };
+    });
+
+    recorder.start();
+    this.stopTimer = setTimeout(() => this.stop(), maxDuration * 1000);
+    console.log('Recording from microphone...');
+
+    return this.stopPromise;
+  }
+
+  // Stop recording (the promise from start() then resolves)
+  public stop(): void {
+    if (this.stopTimer) {
+      clearTimeout(this.stopTimer);
+      this.stopTimer = null;
+    }
+
+    if (this.recorder && this.recorder.state !== 'inactive') {
+      this.recorder.stop();
+      console.log('Recording stopped');
+    }
+  }
+
+  // Stop using the microphone so the browser's recording indicator goes away
+  private releaseMicrophone(): void {
+    if (this.stream) {
+      this.stream.getTracks().forEach(track => track.stop());
+      this.stream = null;
+    }
+  }
+}
+
+// Cut a recording down to [start, end] seconds with short fades to avoid clicks
+export const trimSamples = (channels: Float32Array[], sampleRate: number, start: number, end: number): Float32Array[] => {
+  return channels.map(channel => {
+    const from = Math.max(0, Math.floor(start * sampleRate));
+    const to = Math.min(channel.length, Math.floor(end * sampleRate));
+    const trimmed = channel.slice(from, Math.max(from, to));
+
+    // 5ms fades, shorter for very short clips so the two never overlap
+    const fadeLength = Math.min(Math.floor(sampleRate * 0.005), Math.floor(trimmed.length / 2));
+    for (let i = 0; i < fadeLength; i++) {
+      const gain = i / fadeLength;
+      trimmed[i] *= gain;
+      trimmed[trimmed.length - 1 - i] *= gain;
+    }
+    return trimmed;
+  });
+};
+
+// Get every channel of an AudioBuffer
+export const getChannels = (buffer: AudioBuffer): Float32Array[] => {
+  return Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+};
@@ -0,0 +1,88 @@
+import * as Tone from 'tone';
+import { encodeWavParts } from './wav';
+import { MAX_WAV_MINUTES, canConvertToWav } from './RecordingSettings';
+import { getChannels } from './SampleRecorder';
+
+// Records whatever is connected to its input with the browser's
+// MediaRecorder (usually WebM), stopping by itself at a maximum length
+export class SessionRecorder {
+  public readonly input: Tone.Gain;
+  private recorder: Tone.Recorder | null = null;
+  private startedAt: number | null = null;
+  private limitTimer: ReturnType<typeof setTimeout> | null = null;
+  private finishedCallback: ((recording: Blob, seconds: number) => void) | null = null;
+
+  constructor() {
+    this.input = new Tone.Gain(1);
+
+    // Browsers without MediaRecorder can still play, just not record
+    if (SessionRecorder.isSupported()) {
+      this.recorder = new Tone.Recorder();
+      this.input.connect(this.recorder);
+    }
+  }
+
+  public static isSupported(): boolean {
+    return Tone.Recorder.supported;
+  }
+
+  // Called with each finished recording and its length, whether stopped by
+  // hand or at the limit
+  public setFinishedCallback(callback: ((recording: Blob, seconds: number) => void) | null): void {
+    this.finishedCallback = callback;
+  }
+
+  public isRecording(): boolean {
+    return this.startedAt !== null;
+  }
+
+  // Seconds since recording started (0 when not recording)
+  public getElapsed(): number {
+    return this.startedAt === null ? 0 : (performance.now() - this.startedAt) / 1000;
+  }
+
+  public async start(maxSeconds: number): Promise<boolean> {
+    if (!this.recorder || this.isRecording()) return false;
+
+    await this.recorder.start();
+    this.startedAt = performance.now();
+    this.limitTimer = setTimeout(() => {
+      this.stop().catch(error => console.error('Error stopping recording at its limit:', error));
+    }, maxSeconds * 1000);
+    return true;
+  }
+
+  // Stop recording and return what was recorded (null if nothing was)
+  public async stop(): Promise<Blob | null> {
+    if (!this.recorder || !this.isRecording()) return null;
+
+    if (this.limitTimer) {
+      clearTimeout(this.limitTimer);
+      this.limitTimer = null;
+    }
+    const seconds = this.getElapsed();
+    this.startedAt = null;
+
+    const recording = await this.recorder.stop();
+    this.finishedCallback?.(recording, seconds);
+    return recording;
+  }
+
+  // Decode a recording and re-encode it as a 16-bit WAV file. Only for
+  // recordings short enough to decode in memory (see MAX_WAV_MINUTES).
+  public static async toWav(recording: Blob, seconds: number): Promise<Blob> {
+    if (!canConvertToWav(seconds)) {
+      throw new Error(`Only recordings up to ${MAX_WAV_MINUTES} minutes can be converted to WAV`);
+    }
+    const buffer = await Tone.getContext().decodeAudioData(await recording.arrayBuffer());
+    return new Blob(encodeWavParts(getChannels(buffer), buffer.sampleRate), { type: 'audio/wav' });
+  }
+
+  public dispose(): void {
+    if (this.limitTimer) {
+      clearTimeout(this.limitTimer);
+    }
+    this.recorder?.dispose();
+    this.input.dispose();
+  }
+}
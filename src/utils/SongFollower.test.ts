@@ -0,0 +1,70 @@
+import { SongFollower, parseSongJson, songFromMidi } from './SongFollower';
+
+const note = (midi: number, time: number, duration = 0.5) => ({ midi, time, duration, velocity: 0.5, channel: 0 });
+
+test('builds melody steps and accompaniment from MIDI tracks', () => {
+  const song = songFromMidi({
+    ticksPerBeat: 96,
+    tracks: [
+      { name: 'Bass', notes: [note(36, 0, 2)] },
+      { name: 'Tune', notes: [note(60, 0), note(64, 0.5), note(67, 0.51)] }
+    ]
+  }, 'Tune', 1);
+
+  expect(song.melody).toEqual([
+    { notes: ['C4'], time: 0, duration: 0.5 },
+    { notes: ['E4', 'G4'], time: 0.5, duration: 0.5 }
+  ]);
+  expect(song.accompaniment).toEqual([{ note: 'C2', time: 0, duration: 2, velocity: 0.5 }]);
+});
+
+test('reads JSON songs and explains problems', () => {
+  const { song } = parseSongJson('{"name": "Scale", "melody": ["C4", ["E4", "G4"], {"notes": "C5", "time": 3}]}', 'file');
+  expect(song?.name).toBe('Scale');
+  expect(song?.melody.map(step => [step.notes, step.time])).toEqual([[['C4'], 0], [['E4', 'G4'], 0.5], [['C5'], 3]]);
+  expect(parseSongJson('["D4"]', 'file').song?.name).toBe('file');
+
+  expect(parseSongJson('not json', 'file')).toEqual({ song: null, errors: ['The file is not valid JSON'] });
+  expect(parseSongJson('{"melody": []}', 'file').errors).toEqual(['The song has no melody']);
+  expect(parseSongJson('["C4", "H2"]', 'file').errors).toEqual(['Melody step 2: "H2" is not a note name (e.g. C4, F#3)']);
+});
+
+test('reports every invalid entry in a JSON song', () => {
+  const json = JSON.stringify({
+    melody: ['C4', { notes: ['E4', 7] }, null],
+    accompaniment: [{ note: 'C2', time: 0 }, { note: 'C2' }, { note: [], time: 1 }]
+  });
+  expect(parseSongJson(json, 'file')).toEqual({
+    song: null,
+    errors: [
+      'Melody step 2: "7" is not a note name (e.g. C4, F#3)',
+      'Melody step 3: "null" is not a note name (e.g. C4, F#3)',
+      'Accompaniment note 2 needs a time',
+      'Accompaniment note 3 needs a note'
+    ]
+  });
+  expect(parseSongJson('{"melody": ["C4"], "accompaniment": "C2"}', 'file').errors)
+    .toEqual(['The accompaniment must be a list']);
+});
+
+test('plays accompaniment only up to the next melody step', () => {
+  const follower = new SongFollower();
+  follower.load({
+    name: 'Song',
+    melody: [{ notes: ['C4'], time: 1, duration: 1 }, { notes: ['D4'], time: 2, duration: 1 }],
+    accompaniment: [
+      { note: 'C2', time: 0, duration: 1, velocity: 0.5 },
+      { note: 'E2', time: 1.5, duration: 1, velocity: 0.5 },
+      { note: 'G2', time: 2.5, duration: 1, velocity: 0.5 }
+    ]
+  });
+
+  expect(follower.next()?.accompaniment.map(n => [n.note, n.time])).toEqual([['C2', 0], ['E2', 0.5]]);
+  expect(follower.next()?.accompaniment.map(n => [n.note, n.time])).toEqual([['G2', 0.5]]);
+  expect(follower.isFinished()).toBe(true);
+  expect(follower.next()).toBeNull();
+
+  follower.reset();
+  follower.setAccompanimentEnabled(false);
+  expect(follower.next()?.accompaniment).toEqual([]);
+});
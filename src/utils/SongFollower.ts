@@ -0,0 +1,226 @@
+import { MidiFile } from './midiFile';
+import { midiToNote, noteToMidi } from './musicTheory';
+
+// One melody step: a note or chord the user plays with a single movement
+export interface SongStep {
+  notes: string[];
+  time: number;     // seconds from the start of the song, as written
+  duration: number; // seconds
+}
+
+export interface AccompanimentNote {
+  note: string;
+  time: number;
+  duration: number;
+  velocity: number; // 0-1
+}
+
+export interface Song {
+  name: string;
+  melody: SongStep[];
+  accompaniment: AccompanimentNote[];
+}
+
+// What to play for a step: the melody, plus accompaniment offsets (seconds
+// after the step) up to the next melody note
+export interface SongStepPlayback {
+  step: SongStep;
+  accompaniment: AccompanimentNote[];
+}
+
+// Gap between melody steps in a JSON song without times (seconds)
+const DEFAULT_STEP_LENGTH = 0.5;
+
+// Notes starting within this many seconds of each other form one chord
+const CHORD_TOLERANCE = 0.02;
+
+// Make a song from a MIDI file: one track is the melody, the rest accompany it
+export const songFromMidi = (midi: MidiFile, name: string, melodyTrack: number): Song => {
+  const melodyNotes = midi.tracks[melodyTrack]?.notes || [];
+  const melody: SongStep[] = [];
+
+  melodyNotes.forEach(note => {
+    const last = melody[melody.length - 1];
+    if (last && note.time - last.time <= CHORD_TOLERANCE) {
+      last.notes.push(midiToNote(note.midi));
+      last.duration = Math.max(last.duration, note.duration);
+    } else {
+      melody.push({ notes: [midiToNote(note.midi)], time: note.time, duration: note.duration });
+    }
+  });
+
+  const accompaniment = midi.tracks
+    .filter((_, index) => index !== melodyTrack)
+    .flatMap(track => track.notes)
+    .map(note => ({ note: midiToNote(note.midi), time: note.time, duration: note.duration, velocity: note.velocity }))
+    .sort((a, b) => a.time - b.time);
+
+  return { name, melody, accompaniment };
+};
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Check a note or list of notes, adding an error for each one that isn't a note name
+const readNotes = (value: unknown, label: string, errors: string[]): string[] => {
+  const list: unknown[] = Array.isArray(value) ? value : [value];
+  const notes: string[] = [];
+  list.forEach(note => {
+    if (typeof note === 'string') {
+      try {
+        noteToMidi(note);
+        notes.push(note);
+        return;
+      } catch (error) {
+        // Reported below
+      }
+    }
+    errors.push(`${label}: "${note}" is not a note name (e.g. C4, F#3)`);
+  });
+  return notes;
+};
+
+const readMelodyStep = (entry: unknown, index: number, errors: string[]): SongStep => {
+  const label = `Melody step ${index + 1}`;
+  if (!isObject(entry)) {
+    return { notes: readNotes(entry, label, errors), time: index * DEFAULT_STEP_LENGTH, duration: DEFAULT_STEP_LENGTH };
+  }
+  return {
+    notes: readNotes(entry.notes, label, errors),
+    time: typeof entry.time === 'number' ? entry.time : index * DEFAULT_STEP_LENGTH,
+    duration: typeof entry.duration === 'number' ? entry.duration : DEFAULT_STEP_LENGTH
+  };
+};
+
+const readAccompanimentNote = (entry: unknown, index: number, errors: string[]): AccompanimentNote | null => {
+  const label = `Accompaniment note ${index + 1}`;
+  if (!isObject(entry) || typeof entry.time !== 'number') {
+    errors.push(`${label} needs a time`);
+    return null;
+  }
+  if (Array.isArray(entry.note) && entry.note.length === 0) {
+    errors.push(`${label} needs a note`);
+    return null;
+  }
+  const [note] = readNotes(entry.note, label, errors);
+  if (note === undefined) return null;
+
+  return {
+    note,
+    time: entry.time,
+    duration: typeof entry.duration === 'number' ? entry.duration : DEFAULT_STEP_LENGTH,
+    velocity: typeof entry.velocity === 'number' ? entry.velocity : 0.6
+  };
+};
+
+// Read a song from JSON. The melody is a list of notes ("C4"), chords
+// (["C4", "E4"]) or timed steps ({ "notes": "C4", "time": 1.5, "duration": 0.5 });
+// the optional accompaniment is a list of { "note", "time", "duration", "velocity" }.
+// Returns the song, or null and readable errors if it can't be used.
+export const parseSongJson = (json: string, fallbackName: string): { song: Song | null; errors: string[] } => {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(json);
+  } catch (error) {
+    return { song: null, errors: ['The file is not valid JSON'] };
+  }
+
+  const melodyList = Array.isArray(doc) ? doc : isObject(doc) ? doc.melody : undefined;
+  if (!Array.isArray(melodyList) || melodyList.length === 0) {
+    return { song: null, errors: ['The song has no melody'] };
+  }
+
+  const errors: string[] = [];
+  const melody = melodyList.map((entry: unknown, index: number) => readMelodyStep(entry, index, errors));
+
+  const accompanimentList = isObject(doc) && doc.accompaniment !== undefined ? doc.accompaniment : [];
+  const accompaniment: AccompanimentNote[] = [];
+  if (!Array.isArray(accompanimentList)) {
+    errors.push('The accompaniment must be a list');
+  } else {
+    accompanimentList.forEach((entry: unknown, index: number) => {
+      const note = readAccompanimentNote(entry, index, errors);
+      if (note) accompaniment.push(note);
+    });
+  }
+
+  if (errors.length > 0) {
+    return { song: null, errors };
+  }
+
+  return {
+    song: {
+      name: isObject(doc) && typeof doc.name === 'string' && doc.name ? doc.name : fallbackName,
+      melody: melody.sort((a, b) => a.time - b.time),
+      accompaniment: accompaniment.sort((a, b) => a.time - b.time)
+    },
+    errors: []
+  };
+};
+
+// Tracks the user's place in a song. Each movement plays the next melody
+// step; the accompaniment only plays up to the following step, so it waits
+// for the user instead of running ahead.
+export class SongFollower {
+  private song: Song | null = null;
+  private position = 0; // Index of the next step to play
+  private accompanimentEnabled = true;
+
+  public getSong(): Song | null {
+    return this.song;
+  }
+
+  public load(song: Song | null): void {
+    this.song = song;
+    this.position = 0;
+  }
+
+  public isActive(): boolean {
+    return !!this.song && this.song.melody.length > 0;
+  }
+
+  // Index of the next step to play
+  public getPosition(): number {
+    return this.position;
+  }
+
+  public isFinished(): boolean {
+    return !this.song || this.position >= this.song.melody.length;
+  }
+
+  public isAccompanimentEnabled(): boolean {
+    return this.accompanimentEnabled;
+  }
+
+  public setAccompanimentEnabled(enabled: boolean): void {
+    this.accompanimentEnabled = enabled;
+  }
+
+  // Move on to the next step, or null at the end of the song
+  public next(): SongStepPlayback | null {
+    if (!this.song || this.isFinished()) return null;
+
+    const { melody, accompaniment } = this.song;
+    const step = melody[this.position];
+    const isFirst = this.position === 0;
+    this.position++;
+
+    // The accompaniment runs until the next melody step (or to the end).
+    // Anything before the first melody note comes in with the first step.
+    const until = this.position < melody.length ? melody[this.position].time : Infinity;
+    const notes = this.accompanimentEnabled
+      ? accompaniment
+          .filter(note => (isFirst || note.time >= step.time) && note.time < until)
+          .map(note => ({ ...note, time: Math.max(note.time - step.time, 0) }))
+      : [];
+
+    return { step, accompaniment: notes };
+  }
+
+  public reset(): void {
+    this.position = 0;
+  }
+}
@@ -1,11 +1,82 @@
 import * as Tone from 'tone';
+import { PresetStore } from './PresetStore';
+import { createPresetFile, parsePresetFile } from './PresetFile';
+import { InstrumentDefinition, InstrumentVoice, instrumentRegistry } from './InstrumentRegistry';
+import { SampleKit, SampleLibrary, SampleLoadState } from './SampleLibrary';
+import { SynthDrumKit } from './SynthDrumKit';
+import { UserSampleInfo, UserSampleStore, isPlayableClip } from './UserSampleStore';
+import { Theremin, ThereminSettings } from './Theremin';
+import { ScaleName, getKeyTransposition, midiToNote, noteToMidi, pitchClassOf, snapToScale, transposeNote } from './musicTheory';
+import { HeldNotes, SustainSettings } from './HeldNotes';
+import { MovementLatch } from './MovementLatch';
+import { MODULATION_DESTINATIONS, ModulationDestination, ModulationMatrix, ModulationRoute } from './ModulationMatrix';
+import { EffectsChain } from './EffectsChain';
+import { EffectSettings, createEffectSettings } from './EffectSettings';
+import { Mixer } from './Mixer';
+import { MasterBus } from './MasterBus';
+import { SafetySettings, loadSafetySettings, saveSafetySettings } from './SafetySettings';
+import { BeatCallback, TempoClock } from './TempoClock';
+import { ClockSettings } from './ClockSettings';
+import { Looper } from './Looper';
+import { LoopLayer, LoopState } from './LoopRecording';
+import { SoundEvent, TriggeredNote } from './SoundEvent';
+import {
+  KeypointPosition,
+  SpatialPlacement,
+  SpatialSettings,
+  loadSpatialSettings,
+  placeSound,
+  saveSpatialSettings
+} from './SpatialSettings';
+import { Arpeggiator } from './Arpeggiator';
+import { ArpeggiatorSettings, DEFAULT_ARPEGGIATOR_SETTINGS } from './ArpeggiatorSettings';
+import { ChordProgression, DEFAULT_PROGRESSION_SETTINGS, ProgressionSettings } from './ChordProgression';
+import { Song, SongFollower } from './SongFollower';
+import { PerformanceLog } from './PerformanceLog';
+import { SessionRecorder } from './SessionRecorder';
+import { RecordingSettings, clampRecordingMinutes, loadRecordingSettings, saveRecordingSettings } from './RecordingSettings';
+import { MidiOutput, MidiPortInfo } from './MidiOutput';
+import {
+  MIDI_CONTROLLERS,
+  MidiOutputSettings,
+  clampMidiChannel,
+  loadMidiOutputSettings,
+  saveMidiOutputSettings
+} from './MidiOutputSettings';
+import {
+  DEFAULT_VELOCITY_CURVE,
+  VelocityCurveSettings,
+  applyVelocityCurve,
+  learnVelocityRange,
+  loadVelocityCurve,
+  saveVelocityCurve
+} from './VelocityCurve';
+import { MIXER_CHANNELS, MIXER_MIDI_CHANNELS, MixerChannelId, MixerChannelSettings, MixerSettings } from './MixerSettings';
+import { AmbientGenerator } from './AmbientGenerator';
+import { AmbientMood, AmbientState } from './AmbientSettings';
+import { Accompaniment, AccompanimentStatus } from './Accompaniment';
+import {
+  AccompanimentSettings,
+  clampPauseBeats,
+  loadAccompanimentSettings,
+  saveAccompanimentSettings
+} from './AccompanimentSettings';
 
 export interface SoundMapping {
   keypoint: string;
   direction: string;
-  soundType: 'note' | 'chord' | 'drum' | 'effect';
-  soundValue: string | string[];
+  soundType: 'note' | 'chord' | 'drum' | 'effect' | 'sample' | 'arpeggio';
+  soundValue: string | string[]; // For 'sample' this is the id of a recorded sound
   parameter?: 'volume' | 'pitch' | 'tempo' | 'filter';
+  arpeggio?: Partial<ArpeggiatorSettings>; // For 'arpeggio': pattern, rate and so on
+  midiChannel?: number; // MIDI output channel (1-16), defaults to the voice group's channel
+}
+
+// Session-wide key: presets are written in C and transposed into this key
+export interface SessionKeySettings {
+  key: string; // Root note name, e.g. 'G' or 'Bb'
+  scale: ScaleName;
+  alwaysConsonant: boolean; // Snap every triggered note to the scale
 }
 
 export interface SoundPreset {
@@ -13,49 +84,258 @@ export interface SoundPreset {
   description: string;
   instrument: string;
   mappings: SoundMapping[];
+  modulation?: ModulationRoute[]; // Continuous controls (see ModulationMatrix)
+  effects?: EffectSettings[]; // Effects chain, in order (defaults to a reverb suited to the instrument)
+  mixer?: Partial<MixerSettings>; // Channels that aren't listed use the default levels
+  progression?: ProgressionSettings; // Chords stepped through one movement at a time
 }
 
+// Voice group each kind of sound event plays on
+const EVENT_GROUPS: Record<SoundEvent['soundType'], MixerChannelId> = {
+  note: 'melody',
+  chord: 'chords',
+  drum: 'drums',
+  effect: 'effects',
+  sample: 'samples'
+};
+
+// Presets that ship with the app (user presets are stored separately)
+const BUILT_IN_PRESETS: SoundPreset[] = [
+  {
+    name: 'Piano',
+    description: 'Classic piano sounds with right hand for melody, left for chords',
+    instrument: 'piano',
+    mappings: [
+      { keypoint: 'right_wrist', direction: 'up', soundType: 'note', soundValue: 'C4' },
+      { keypoint: 'left_wrist', direction: 'up', soundType: 'chord', soundValue: ['C3', 'E3', 'G3'] },
+      { keypoint: 'right_wrist', direction: 'down', soundType: 'note', soundValue: 'G4' },
+      { keypoint: 'left_wrist', direction: 'down', soundType: 'chord', soundValue: ['F3', 'A3', 'C4'] },
+      { keypoint: 'right_wrist', direction: 'left', soundType: 'note', soundValue: 'E4' },
+      { keypoint: 'right_wrist', direction: 'right', soundType: 'note', soundValue: 'D4' }
+    ]
+  },
+  {
+    name: 'Drums',
+    description: 'Percussion kit with different hand movements',
+    instrument: 'drums',
+    mappings: [
+      { keypoint: 'right_wrist', direction: 'down', soundType: 'drum', soundValue: 'C2' }, // Kick
+      { keypoint: 'left_wrist', direction: 'down', soundType: 'drum', soundValue: 'D2' }, // Snare
+      { keypoint: 'right_wrist', direction: 'right', soundType: 'drum', soundValue: 'E2' }, // Hi-hat
+      { keypoint: 'left_wrist', direction: 'right', soundType: 'drum', soundValue: 'F2' }, // Clap
+      { keypoint: 'right_wrist', direction: 'up', soundType: 'drum', soundValue: 'E2' }, // Hi-hat
+      { keypoint: 'left_wrist', direction: 'up', soundType: 'drum', soundValue: 'F2' }  // Clap
+    ]
+  },
+  {
+    name: 'Theremin',
+    description: 'Continuous sound control like a theremin',
+    instrument: 'theremin',
+    mappings: [
+      { 
+        keypoint: 'right_wrist', 
+        direction: 'up', 
+        soundType: 'note', 
+        soundValue: 'C4', 
+        parameter: 'pitch'
+      },
+      { 
+        keypoint: 'left_wrist', 
+        direction: 'right', 
+        soundType: 'note', 
+        soundValue: 'C4', 
+        parameter: 'volume'
+      },
+      { 
+        keypoint: 'right_wrist', 
+        direction: 'down', 
+        soundType: 'note', 
+        soundValue: 'G3'
+      },
+      { 
+        keypoint: 'left_wrist', 
+        direction: 'left', 
+        soundType: 'note', 
+        soundValue: 'E3'
+      }
+    ]
+  },
+  {
+    name: 'Electronic',
+    description: 'Synthetic sounds and effects for electronic music',
+    instrument: 'electronic',
+    mappings: [
+      { keypoint: 'right_wrist', direction: 'up', soundType: 'note', soundValue: 'E3' },
+      { keypoint: 'left_wrist', direction: 'up', soundType: 'effect', soundValue: 'sweep' },
+      { keypoint: 'right_wrist', direction: 'down', soundType: 'effect', soundValue: 'wobble' },
+      { keypoint: 'nose', direction: 'right', soundType: 'note', soundValue: 'G2', parameter: 'filter' },
+      { keypoint: 'right_wrist', direction: 'left', soundType: 'effect', soundValue: 'arpeggio' },
+      { keypoint: 'left_wrist', direction: 'left', soundType: 'effect', soundValue: 'shimmer' }
+    ],
+    effects: [
+      { id: 'electronic-delay', type: 'delay', bypassed: false, params: { delayTime: 0.375, feedback: 0.35, wet: 0.2 } },
+      { id: 'electronic-chorus', type: 'chorus', bypassed: false, params: { frequency: 1.5, depth: 0.5, wet: 0.3 } },
+      { id: 'electronic-reverb', type: 'reverb', bypassed: false, params: { decay: 4, wet: 0.35 } }
+    ]
+  },
+  {
+    name: 'Orchestral',
+    description: 'Lush orchestral sounds with strings and brass',
+    instrument: 'orchestral',
+    mappings: [
+      { keypoint: 'right_wrist', direction: 'up', soundType: 'chord', soundValue: ['C4', 'E4', 'G4', 'B4'] },
+      { keypoint: 'left_wrist', direction: 'up', soundType: 'chord', soundValue: ['G3', 'B3', 'D4', 'F4'] },
+      { keypoint: 'right_shoulder', direction: 'up', soundType: 'note', soundValue: 'C5' },
+      { keypoint: 'left_shoulder', direction: 'up', soundType: 'note', soundValue: 'G4' },
+      { keypoint: 'right_wrist', direction: 'down', soundType: 'chord', soundValue: ['D4', 'F4', 'A4'] },
+      { keypoint: 'left_wrist', direction: 'down', soundType: 'chord', soundValue: ['A3', 'C4', 'E4'] }
+    ]
+  }
+];
+
+// Instrument used when a preset references one that isn't registered
+const DEFAULT_INSTRUMENT = 'piano';
+
+// Bundled drum kit loaded at startup
+const DEFAULT_DRUM_KIT = '808';
+
+// Effect synth settings that effects like 'wobble' change on the fly
+const DEFAULT_EFFECT_SYNTH = { harmonicity: 3, modulationIndex: 10 };
+
 export class SoundEngine {
-  private synth: Tone.PolySynth;
-  private drums: Tone.Sampler;
+  private synth: InstrumentVoice;
+  private chordSynth: InstrumentVoice; // Same instrument, on its own mixer channel
+  private instrumentId = DEFAULT_INSTRUMENT;
+  private drums: InstrumentVoice;
+  private drumKitId = DEFAULT_DRUM_KIT;
+  private sampleLibrary = new SampleLibrary();
+  private userSampleStore: UserSampleStore | null = null;
+  private userSampleBuffers = new Map<string, Tone.ToneAudioBuffer>();
+  private samplePlayers: Tone.Players | null = null;
   private effectSynth: Tone.FMSynth;
-  private reverb: Tone.Reverb;
+  private effects: EffectsChain;
   private filter: Tone.Filter;
+  private panner: Tone.Panner;
+  private masterBus: MasterBus;
+  private mixer: Mixer;
+  private clock: TempoClock;
+  private looper: Looper;
+  private clockCallback: (() => void) | null = null;
+  private looperGesture: string | null = null; // Keypoint that starts and stops loop recording
+  private arpeggiators = new Map<string, Arpeggiator>(); // Running arpeggios by keypoint and direction
+  private progression = new ChordProgression();
+  private progressionCallback: ((position: number) => void) | null = null;
+  private songFollower = new SongFollower();
+  private songCallback: ((position: number) => void) | null = null;
+  private ambient: AmbientGenerator;
+  private ambientCallback: ((state: AmbientState | null) => void) | null = null;
+  private accompaniment: Accompaniment;
+  private accompanimentSettings: AccompanimentSettings = loadAccompanimentSettings();
+  private bass: InstrumentVoice; // Backing band bass
+  private heldAccompaniment: { notes: string[]; time: number; velocity: number } | null = null;
+  private performanceLog = new PerformanceLog(); // Every note played, for MIDI export
+  private audioRecorder: SessionRecorder;
+  private recordingSettings: RecordingSettings = loadRecordingSettings();
+  private midiOutput = new MidiOutput();
+  private midiSettings: MidiOutputSettings = loadMidiOutputSettings();
+  private noteListener: ((note: TriggeredNote) => void) | null = null; // e.g. OSC output
+  private spatialSettings: SpatialSettings = loadSpatialSettings();
+  private theremin: Theremin;
   private mappings: SoundMapping[] = [];
-  private notes = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
-  private activeNotes: Map<string, string> = new Map(); // Track currently active notes
+  private sessionKey: SessionKeySettings = { key: 'C', scale: 'major', alwaysConsonant: false };
+  private keypointPositions = new Map<string, { x: number; y: number; time: number }>();
+  private heldNotes = new HeldNotes(); // Notes held down by each keypoint
+  private toggles = new MovementLatch(); // Toggle gestures act once per movement
+  private velocityCurve: VelocityCurveSettings = { ...DEFAULT_VELOCITY_CURVE };
+  private velocityCurveUserId: string | null = null;
+  private modulationMatrix = new ModulationMatrix();
   private isInitialized = false;
   private initializationPromise: Promise<void> | null = null;
+  private presetStore = new PresetStore();
 
   constructor() {
-    // Initialize Tone.js instruments
-    this.synth = new Tone.PolySynth(Tone.Synth).toDestination();
-    
-    // Create effects chain
-    this.reverb = new Tone.Reverb(2).toDestination();
-    this.filter = new Tone.Filter(1000, "lowpass").connect(this.reverb);
-    this.synth.connect(this.filter);
-    
-    // Initialize drum sampler
-    this.drums = new Tone.Sampler({
-      "C2": "https://tonejs.github.io/audio/drum-samples/808/kick.mp3",
-      "D2": "https://tonejs.github.io/audio/drum-samples/808/snare.mp3",
-      "E2": "https://tonejs.github.io/audio/drum-samples/808/hihat.mp3",
-      "F2": "https://tonejs.github.io/audio/drum-samples/808/clap.mp3",
-    }).connect(this.reverb);
+    // Create effects chain: everything passes through the filter and then the
+    // preset's effects (drums skip the filter)
+    this.masterBus = new MasterBus().connect(Tone.getDestination());
+    this.masterBus.setSettings(loadSafetySettings());
+    
+    // Recordings capture exactly what goes to the speakers
+    this.audioRecorder = new SessionRecorder();
+    this.masterBus.connect(this.audioRecorder.input);
+    this.panner = new Tone.Panner(0).connect(this.masterBus.input);
+    this.effects = new EffectsChain().connect(this.panner);
+    this.effects.setEffects([createEffectSettings('reverb')]);
+    
+    // The metronome click skips the effects but still goes through the limiter
+    this.clock = new TempoClock().connect(this.masterBus.input);
+    this.looper = new Looper(this.clock, (event, time) => this.playEvent(event, time));
+    this.clock.setChangeCallback(() => {
+      this.looper.handleClockChange();
+      this.clockCallback?.();
+    });
+    this.filter = new Tone.Filter(1000, "lowpass").connect(this.effects.input);
+    
+    // Each voice group has its own mixer channel in front of the effects
+    this.mixer = new Mixer();
+    MIXER_CHANNELS.forEach(({ id }) => {
+      this.mixer.connect(id, id === 'drums' ? this.effects.input : this.filter);
+    });
+    
+    // Initialize the melody and chord voices from the default instrument
+    this.synth = this.createInstrumentVoice(DEFAULT_INSTRUMENT, 'melody');
+    this.chordSynth = this.createInstrumentVoice(DEFAULT_INSTRUMENT, 'chords');
+    
+    // Start with synthesized drums until the bundled samples have loaded
+    this.drums = this.routeDrums(new SynthDrumKit());
     
     // FM synth for effects
-    this.effectSynth = new Tone.FMSynth().connect(this.filter);
-    
-    // Set default synth parameters
-    this.synth.set({
-      envelope: {
-        attack: 0.02,
-        decay: 0.1,
-        sustain: 0.3,
-        release: 1
+    this.effectSynth = this.createEffectSynth(instrumentRegistry.get(DEFAULT_INSTRUMENT)?.effectSynth);
+    
+    // Sustained, gliding voice for 'pitch' mappings
+    this.theremin = new Theremin().connect(this.mixer.input('melody'));
+    
+    // Generative pad, drone and texture on the chords channel
+    this.ambient = new AmbientGenerator(
+      notes => this.applySessionKey(notes),
+      (note, duration, time, velocity) => {
+        this.performanceLog.log('chords', note, time, duration, velocity);
+        this.sendMidiNotes(this.midiChannelFor('chords'), note, time, velocity, duration);
+        this.notifyNotes('chords', note, velocity, duration);
       }
-    });
+    ).connect(this.mixer.input('chords'));
+    
+    // Backing band that follows the tempo of the user's triggers
+    this.bass = new Tone.PolySynth(Tone.MonoSynth, {
+      oscillator: { type: 'square' },
+      filter: { type: 'lowpass', Q: 2 },
+      filterEnvelope: { attack: 0.01, decay: 0.2, sustain: 0.3, baseFrequency: 150, octaves: 2.5 },
+      envelope: { attack: 0.01, decay: 0.2, sustain: 0.6, release: 0.2 },
+      volume: -8
+    }).connect(this.mixer.input('chords'));
+    this.accompaniment = new Accompaniment(
+      notes => this.applySessionKey(notes),
+      {
+        play: (part, notes, duration, time, velocity) => {
+          if (part === 'drums') {
+            this.trigger(this.drums, 'drums', notes, duration, time, velocity);
+          } else {
+            this.trigger(part === 'bass' ? this.bass : this.chordSynth, 'chords', notes, duration, time, velocity);
+          }
+        },
+        hold: (notes, time) => this.holdAccompanimentChord(notes, time),
+        release: time => this.releaseAccompanimentChord(time)
+      },
+      bpm => this.clock.setSettings({ bpm })
+    );
+    this.accompaniment.setSettings(this.accompanimentSettings);
+    
+    // Load the bundled sample kits (these work offline)
+    this.sampleLibrary.loadManifest()
+      .then(() => {
+        this.registerSampledInstruments();
+        return this.setDrumKit(this.drumKitId);
+      })
+      .catch(err => console.error('Bundled samples unavailable, using synthesized drums', err));
   }
 
   // Initialize the audio context (must be called from a user action like a button click)
@@ -98,13 +378,13 @@ export class SoundEngine {
             }
           }, 100);
           
-          // Set up instruments
-          this.synth.toDestination();
-          this.drums.toDestination();
-          this.effectSynth.toDestination();
-          
           this.isInitialized = true;
           console.log('Audio fully initialized');
+          
+          // Reconnect to the MIDI output used last time
+          if (this.midiSettings.mode !== 'off') {
+            this.connectMidiOutput();
+          }
         }
         
         resolve();
@@ -125,98 +405,14 @@ export class SoundEngine {
   
   // Set the gesture-to-sound mappings
   public setMappings(mappings: SoundMapping[]): void {
+    this.stopArpeggios();
     this.mappings = mappings;
+    this.buildSamplePlayers();
   }
   
-  // Get available presets
+  // Get available presets (built-in presets first, then the user's own)
   public getPresets(): SoundPreset[] {
-    return [
-      {
-        name: 'Piano',
-        description: 'Classic piano sounds with right hand for melody, left for chords',
-        instrument: 'piano',
-        mappings: [
-          { keypoint: 'right_wrist', direction: 'up', soundType: 'note', soundValue: 'C4' },
-          { keypoint: 'left_wrist', direction: 'up', soundType: 'chord', soundValue: ['C3', 'E3', 'G3'] },
-          { keypoint: 'right_wrist', direction: 'down', soundType: 'note', soundValue: 'G4' },
-          { keypoint: 'left_wrist', direction: 'down', soundType: 'chord', soundValue: ['F3', 'A3', 'C4'] },
-          { keypoint: 'right_wrist', direction: 'left', soundType: 'note', soundValue: 'E4' },
-          { keypoint: 'right_wrist', direction: 'right', soundType: 'note', soundValue: 'D4' }
-        ]
-      },
-      {
-        name: 'Drums',
-        description: 'Percussion kit with different hand movements',
-        instrument: 'drums',
-        mappings: [
-          { keypoint: 'right_wrist', direction: 'down', soundType: 'drum', soundValue: 'C2' }, // Kick
-          { keypoint: 'left_wrist', direction: 'down', soundType: 'drum', soundValue: 'D2' }, // Snare
-          { keypoint: 'right_wrist', direction: 'right', soundType: 'drum', soundValue: 'E2' }, // Hi-hat
-          { keypoint: 'left_wrist', direction: 'right', soundType: 'drum', soundValue: 'F2' }, // Clap
-          { keypoint: 'right_wrist', direction: 'up', soundType: 'drum', soundValue: 'E2' }, // Hi-hat
-          { keypoint: 'left_wrist', direction: 'up', soundType: 'drum', soundValue: 'F2' }  // Clap
-        ]
-      },
-      {
-        name: 'Theremin',
-        description: 'Continuous sound control like a theremin',
-        instrument: 'theremin',
-        mappings: [
-          { 
-            keypoint: 'right_wrist', 
-            direction: 'up', 
-            soundType: 'note', 
-            soundValue: 'C4', 
-            parameter: 'pitch'
-          },
-          { 
-            keypoint: 'left_wrist', 
-            direction: 'right', 
-            soundType: 'note', 
-            soundValue: 'C4', 
-            parameter: 'volume'
-          },
-          { 
-            keypoint: 'right_wrist', 
-            direction: 'down', 
-            soundType: 'note', 
-            soundValue: 'G3'
-          },
-          { 
-            keypoint: 'left_wrist', 
-            direction: 'left', 
-            soundType: 'note', 
-            soundValue: 'E3'
-          }
-        ]
-      },
-      {
-        name: 'Electronic',
-        description: 'Synthetic sounds and effects for electronic music',
-        instrument: 'electronic',
-        mappings: [
-          { keypoint: 'right_wrist', direction: 'up', soundType: 'note', soundValue: 'E3' },
-          { keypoint: 'left_wrist', direction: 'up', soundType: 'effect', soundValue: 'sweep' },
-          { keypoint: 'right_wrist', direction: 'down', soundType: 'effect', soundValue: 'wobble' },
-          { keypoint: 'nose', direction: 'right', soundType: 'note', soundValue: 'G2', parameter: 'filter' },
-          { keypoint: 'right_wrist', direction: 'left', soundType: 'effect', soundValue: 'arpeggio' },
-          { keypoint: 'left_wrist', direction: 'left', soundType: 'effect', soundValue: 'shimmer' }
-        ]
-      },
-      {
-        name: 'Orchestral',
-        description: 'Lush orchestral sounds with strings and brass',
-        instrument: 'orchestral',
-        mappings: [
-          { keypoint: 'right_wrist', direction: 'up', soundType: 'chord', soundValue: ['C4', 'E4', 'G4', 'B4'] },
-          { keypoint: 'left_wrist', direction: 'up', soundType: 'chord', soundValue: ['G3', 'B3', 'D4', 'F4'] },
-          { keypoint: 'right_shoulder', direction: 'up', soundType: 'note', soundValue: 'C5' },
-          { keypoint: 'left_shoulder', direction: 'up', soundType: 'note', soundValue: 'G4' },
-          { keypoint: 'right_wrist', direction: 'down', soundType: 'chord', soundValue: ['D4', 'F4', 'A4'] },
-          { keypoint: 'left_wrist', direction: 'down', soundType: 'chord', soundValue: ['A3', 'C4', 'E4'] }
-        ]
-      }
-    ];
+    return [...BUILT_IN_PRESETS, ...this.presetStore.list()];
   }
   
   // Load a preset by name
@@ -226,88 +422,20 @@ export class SoundEngine {
     const preset = this.getPresets().find(p => p.name === presetName);
     if (preset) {
       this.setMappings(preset.mappings);
+      this.setModulationRoutes(preset.modulation || []);
+      this.mixer.setSettings(preset.mixer || {});
+      this.setProgressionSettings(preset.progression || DEFAULT_PROGRESSION_SETTINGS);
       
-      // Change synth settings based on preset
-      if (preset.instrument === 'piano') {
-        console.log('Configuring piano settings');
-        this.synth.set({
-          oscillator: { type: 'triangle' },
-          envelope: {
-            attack: 0.01,
-            decay: 0.1,
-            sustain: 0.8,
-            release: 2
-          }
-        });
-        this.reverb.decay = 1;
-        this.filter.frequency.value = 5000;
-        // Play a test note to confirm settings
-        this.synth.triggerAttackRelease("C4", "16n", Tone.now(), 0.5);
-        
-      } else if (preset.instrument === 'drums') {
-        console.log('Configuring drum settings');
-        this.synth.set({
-          oscillator: { type: 'square' },
-          envelope: {
-            attack: 0.001,
-            decay: 0.1,
-            sustain: 0.1,
-            release: 0.1
-          }
-        });
-        this.reverb.decay = 0.5;
-        this.filter.frequency.value = 8000;
-        // Play a test drum sound
-        this.drums.triggerAttackRelease("C2", "16n", Tone.now(), 0.5);
-        
-      } else if (preset.instrument === 'electronic') {
-        console.log('Configuring electronic settings');
-        this.synth.set({
-          oscillator: { type: 'sawtooth' },
-          envelope: {
-            attack: 0.05,
-            decay: 0.2,
-            sustain: 0.5,
-            release: 0.5
-          }
-        });
-        this.effectSynth.harmonicity.value = 3;
-        this.filter.frequency.value = 2000;
-        // Play a test electronic sound
-        this.effectSynth.triggerAttackRelease("C3", "16n", Tone.now(), 0.5);
-        
-      } else if (preset.instrument === 'theremin') {
-        console.log('Configuring theremin settings');
-        this.synth.set({
-          oscillator: { type: 'sine' },
-          envelope: {
-            attack: 0.1,
-            decay: 0.3,
-            sustain: 0.9,
-            release: 1.5
-          }
-        });
-        this.filter.frequency.value = 3000;
-        this.synth.volume.value = -10;
-        // Play a test theremin sound
-        this.synth.triggerAttackRelease("G4", "8n", Tone.now(), 0.3);
-        
-      } else if (preset.instrument === 'orchestral') {
-        console.log('Configuring orchestral settings');
-        this.synth.set({
-          oscillator: { type: 'sine' },
-          envelope: {
-            attack: 0.1,
-            decay: 0.3,
-            sustain: 0.7,
-            release: 3
-          }
-        });
-        this.reverb.decay = 4;
-        this.filter.frequency.value = 4000;
-        // Play a test orchestral sound
-        this.synth.triggerAttackRelease(["C4", "E4", "G4"], "16n", Tone.now(), 0.4);
-      }
+      // Give the preset its own voice for the instrument it references
+      const instrument = this.setInstrument(preset.instrument);
+      
+      // Rebuild the effects chain so nothing carries over from the last preset
+      this.effects.setEffects(preset.effects || [
+        createEffectSettings('reverb', { decay: instrument.reverbDecay, wet: 0.3 })
+      ]);
+      
+      // Play a test sound to confirm settings
+      this.playInstrumentTestSound(instrument);
       
       console.log(`Loaded preset: ${presetName} (${preset.instrument})`);
     } else {
@@ -315,8 +443,619 @@ export class SoundEngine {
     }
   }
   
-  // Process a detected movement and trigger appropriate sound
-  public processMovement(keypoint: string, isIntentional: boolean, direction: string, velocity: number): void {
+  // List the instruments presets can use
+  public getInstruments(): InstrumentDefinition[] {
+    return instrumentRegistry.list();
+  }
+  
+  // Make a new instrument available to presets
+  public registerInstrument(definition: InstrumentDefinition): void {
+    instrumentRegistry.register(definition);
+  }
+  
+  // Get the id of the instrument currently playing melodies and chords
+  public getCurrentInstrument(): string {
+    return this.instrumentId;
+  }
+  
+  // Build a voice for an instrument and route it to its mixer channel
+  private createInstrumentVoice(instrumentId: string, channel: MixerChannelId): InstrumentVoice {
+    const voice = instrumentRegistry.createVoice(instrumentId) 
+      || instrumentRegistry.createVoice(DEFAULT_INSTRUMENT);
+    
+    if (!voice) {
+      throw new Error(`Default instrument "${DEFAULT_INSTRUMENT}" is not registered`);
+    }
+    
+    voice.connect(this.mixer.input(channel));
+    return voice;
+  }
+  
+  // FM synth for effect sounds with an instrument's settings (or the defaults)
+  private createEffectSynth(options?: InstrumentDefinition['effectSynth']): Tone.FMSynth {
+    return new Tone.FMSynth({ ...DEFAULT_EFFECT_SYNTH, ...options }).connect(this.mixer.input('effects'));
+  }
+  
+  // Swap in a fresh voice for an instrument and reset the shared effects to its defaults
+  private setInstrument(instrumentId: string): InstrumentDefinition {
+    let definition = instrumentRegistry.get(instrumentId);
+    if (!definition) {
+      console.warn(`Unknown instrument "${instrumentId}", using ${DEFAULT_INSTRUMENT}`);
+      definition = instrumentRegistry.get(DEFAULT_INSTRUMENT) as InstrumentDefinition;
+    }
+    
+    console.log(`Configuring ${definition.name} settings`);
+    
+    // Let the old voices finish their release tails before throwing them away
+    [this.synth, this.chordSynth].forEach(oldVoice => {
+      oldVoice.releaseAll();
+      setTimeout(() => oldVoice.dispose(), 5000);
+    });
+    const oldEffectSynth = this.effectSynth;
+    oldEffectSynth.triggerRelease();
+    setTimeout(() => oldEffectSynth.dispose(), 5000);
+    this.theremin.release();
+    this.heldNotes.releaseAll();
+    
+    this.synth = this.createInstrumentVoice(definition.id, 'melody');
+    this.chordSynth = this.createInstrumentVoice(definition.id, 'chords');
+    this.instrumentId = definition.id;
+    
+    this.filter.frequency.value = definition.filterFrequency;
+    
+    // A fresh effect synth, so nothing the last instrument or its modulation
+    // set carries over
+    this.effectSynth = this.createEffectSynth(definition.effectSynth);
+    
+    return definition;
+  }
+  
+  // Play the instrument's test sound on the part of the engine it names
+  private playInstrumentTestSound(definition: InstrumentDefinition): void {
+    const { notes, duration, velocity, source } = definition.testSound;
+    
+    switch (source) {
+      case 'drums':
+        this.drums.triggerAttackRelease(notes, duration, Tone.now(), velocity);
+        break;
+      case 'effect':
+        this.effectSynth.triggerAttackRelease(notes as string, duration, Tone.now(), velocity);
+        break;
+      default:
+        this.synth.triggerAttackRelease(notes, duration, Tone.now(), velocity);
+    }
+  }
+  
+  // List the bundled drum kits
+  public getDrumKits(): SampleKit[] {
+    return this.sampleLibrary.getKits('drums');
+  }
+  
+  // Get the id of the selected drum kit
+  public getDrumKit(): string {
+    return this.drumKitId;
+  }
+  
+  // Check if drums are currently synthesized rather than sampled
+  public isUsingSynthDrums(): boolean {
+    return this.drums instanceof SynthDrumKit;
+  }
+  
+  // Get the loading state of every bundled sample kit
+  public getSampleLoadingStates(): Record<string, SampleLoadState> {
+    return this.sampleLibrary.getLoadingStates();
+  }
+  
+  // Add callback for sample loading updates (so the UI can show when samples are ready)
+  public setSampleLoadingCallback(callback: ((states: Record<string, SampleLoadState>) => void) | null): void {
+    this.sampleLibrary.setLoadingStateCallback(callback);
+  }
+  
+  // Switch to a bundled drum kit. The current drums keep playing while the
+  // samples load; if they fail to decode we fall back to synthesized drums.
+  public async setDrumKit(kitId: string): Promise<boolean> {
+    this.drumKitId = kitId;
+    
+    try {
+      const sampler = await this.sampleLibrary.loadSampler(kitId);
+      
+      // Another kit was chosen while this one was loading
+      if (this.drumKitId !== kitId) {
+        sampler.dispose();
+        return false;
+      }
+      
+      this.replaceDrums(sampler);
+      console.log(`Drum kit loaded: ${kitId}`);
+      return true;
+    } catch (error) {
+      console.error(`Could not load drum kit ${kitId}, using synthesized drums:`, error);
+      if (this.drumKitId === kitId && !this.isUsingSynthDrums()) {
+        this.replaceDrums(new SynthDrumKit());
+      }
+      return false;
+    }
+  }
+  
+  // Route a drum voice to its mixer channel
+  private routeDrums<T extends InstrumentVoice>(drums: T): T {
+    drums.connect(this.mixer.input('drums'));
+    return drums;
+  }
+  
+  // Swap the drum voice, keeping the current volume
+  private replaceDrums(drums: InstrumentVoice): void {
+    const oldDrums = this.drums;
+    drums.volume.value = oldDrums.volume.value;
+    this.drums = this.routeDrums(drums);
+    setTimeout(() => oldDrums.dispose(), 2000);
+  }
+  
+  // Make sampled instruments from the manifest available to presets
+  private registerSampledInstruments(): void {
+    this.sampleLibrary.getKits('instrument').forEach(kit => {
+      instrumentRegistry.register({
+        id: kit.id,
+        name: kit.name,
+        createVoice: () => {
+          // Fall back to the synthesized piano if the samples can't be decoded
+          const fallback = () => instrumentRegistry.createVoice(DEFAULT_INSTRUMENT) as InstrumentVoice;
+          if (this.sampleLibrary.getLoadingState(kit.id) === 'error') {
+            return fallback();
+          }
+          
+          // The sampler reports an error for every file that fails, but the
+          // instrument only needs rebuilding with the fallback once
+          let fellBack = false;
+          const sampler = this.sampleLibrary.createSampler(kit.id, undefined, () => {
+            if (!fellBack && this.instrumentId === kit.id) {
+              fellBack = true;
+              this.setInstrument(kit.id);
+            }
+          });
+          return sampler || fallback();
+        },
+        envelope: { attack: 0.005, release: 1.5 },
+        filterFrequency: 6000,
+        reverbDecay: 1.5,
+        testSound: { notes: 'C4', duration: '8n', velocity: 0.5 }
+      });
+    });
+  }
+  
+  // Load the recorded sounds saved with a user's profile
+  public loadUserSamples(userId: string): void {
+    this.userSampleStore = new UserSampleStore(userId);
+    this.userSampleBuffers.forEach(buffer => buffer.dispose());
+    this.userSampleBuffers.clear();
+    
+    this.userSampleStore.loadAll().forEach(sample => {
+      // Older versions could save empty clips, which can't be made into buffers
+      if (!isPlayableClip([sample.samples], sample.sampleRate)) return;
+      this.userSampleBuffers.set(sample.id, this.createBuffer([sample.samples], sample.sampleRate));
+    });
+    
+    console.log(`Loaded ${this.userSampleBuffers.size} recorded sounds for user ${userId}`);
+    this.buildSamplePlayers();
+  }
+  
+  // Load a user's velocity curve
+  public loadVelocityCurve(userId: string): void {
+    this.velocityCurveUserId = userId;
+    this.velocityCurve = loadVelocityCurve(userId);
+  }
+  
+  // Get how movement speed maps to loudness
+  public getVelocityCurve(): VelocityCurveSettings {
+    return { ...this.velocityCurve, breakpoints: this.velocityCurve.breakpoints.map(p => ({ ...p })) };
+  }
+  
+  // Change how movement speed maps to loudness (saved for the current user)
+  public setVelocityCurve(curve: Partial<VelocityCurveSettings>): void {
+    this.velocityCurve = { ...this.velocityCurve, ...curve };
+    if (this.velocityCurveUserId) {
+      saveVelocityCurve(this.velocityCurveUserId, this.velocityCurve);
+    }
+  }
+  
+  // Fit the velocity curve's input range to the speeds of calibration movements.
+  // Returns false if there weren't enough movements to learn from.
+  public calibrateVelocityCurve(velocities: number[]): boolean {
+    const range = learnVelocityRange(velocities);
+    if (!range) {
+      console.log('Not enough calibration movements to learn a velocity range');
+      return false;
+    }
+    
+    console.log(`Learned velocity range ${range.inputMin.toFixed(1)}-${range.inputMax.toFixed(1)}`);
+    this.setVelocityCurve(range);
+    return true;
+  }
+  
+  // List the current user's recorded sounds
+  public getUserSamples(): UserSampleInfo[] {
+    return this.userSampleStore ? this.userSampleStore.list() : [];
+  }
+  
+  // Save a recording to the current user's profile so mappings can use it
+  public saveUserSample(name: string, channels: Float32Array[], sampleRate: number): UserSampleInfo | null {
+    if (!this.userSampleStore) {
+      console.error('Cannot save a recorded sound without a user profile');
+      return null;
+    }
+    
+    const sample = this.userSampleStore.save(name, channels, sampleRate);
+    if (!sample) {
+      return null;
+    }
+    
+    this.userSampleBuffers.set(sample.id, this.createBuffer([sample.samples], sample.sampleRate));
+    this.buildSamplePlayers();
+    
+    const { samples, sampleRate: rate, ...info } = sample;
+    return info;
+  }
+  
+  // Delete a recording from the current user's profile
+  public deleteUserSample(sampleId: string): boolean {
+    if (!this.userSampleStore || !this.userSampleStore.delete(sampleId)) {
+      return false;
+    }
+    
+    this.userSampleBuffers.get(sampleId)?.dispose();
+    this.userSampleBuffers.delete(sampleId);
+    this.buildSamplePlayers();
+    return true;
+  }
+  
+  // Play a saved recording once (e.g. to check it in the settings screen)
+  public playUserSample(sampleId: string): void {
+    const buffer = this.userSampleBuffers.get(sampleId);
+    if (buffer) {
+      this.playBufferOnce(buffer);
+    }
+  }
+  
+  // Play raw audio once (e.g. to preview a trimmed recording before saving)
+  public previewRecording(channels: Float32Array[], sampleRate: number): void {
+    if (!isPlayableClip(channels, sampleRate)) return;
+    this.playBufferOnce(this.createBuffer(channels, sampleRate));
+  }
+  
+  // Build a Tone.js buffer from raw channel data at any sample rate
+  private createBuffer(channels: Float32Array[], sampleRate: number): Tone.ToneAudioBuffer {
+    const audioBuffer = Tone.getContext().createBuffer(channels.length, channels[0].length, sampleRate);
+    channels.forEach((channel, index) => audioBuffer.copyToChannel(channel, index));
+    return new Tone.ToneAudioBuffer(audioBuffer);
+  }
+  
+  // Play a buffer through the effects chain and clean up afterwards
+  private playBufferOnce(buffer: Tone.ToneAudioBuffer): void {
+    // Through the samples channel like the sample voices, so previews are
+    // metered and limited like everything else
+    const player = new Tone.Player(buffer).connect(this.mixer.input('samples'));
+    player.onstop = () => player.dispose();
+    player.start();
+  }
+  
+  // Give the current preset its own players for the recorded sounds it uses
+  private buildSamplePlayers(): void {
+    if (this.samplePlayers) {
+      const oldPlayers = this.samplePlayers;
+      setTimeout(() => oldPlayers.dispose(), 5000);
+      this.samplePlayers = null;
+    }
+    
+    const sampleIds = Array.from(new Set(
+      this.mappings
+        .filter(mapping => mapping.soundType === 'sample')
+        .map(mapping => mapping.soundValue as string)
+    ));
+    
+    if (sampleIds.length === 0) {
+      return;
+    }
+    
+    const players = new Tone.Players();
+    sampleIds.forEach(id => {
+      const buffer = this.userSampleBuffers.get(id);
+      if (buffer) {
+        players.add(id, buffer);
+      } else {
+        console.warn(`Preset uses a recorded sound that isn't available: ${id}`);
+      }
+    });
+    
+    players.connect(this.mixer.input('samples'));
+    this.samplePlayers = players;
+  }
+  
+  // Update where a keypoint is in the frame (x and y from 0-1, top left is 0,0,
+  // as the performer sees it, so x follows their left and right).
+  // Call this every frame so continuous controls like the theremin can follow it.
+  public updateKeypointPosition(keypoint: string, x: number, y: number): void {
+    this.keypointPositions.set(keypoint, { x, y, time: Date.now() });
+    this.heldNotes.move(keypoint, x, y);
+    
+    if (!this.isInitialized) return;
+    
+    if (this.modulationMatrix.usesKeypoint(keypoint)) {
+      const values = this.modulationMatrix.update(keypoint, x, y);
+      (Object.keys(values) as ModulationDestination[]).forEach(destination => {
+        this.applyModulation(destination, values[destination] as number);
+      });
+    }
+    
+    const pitchMapping = this.mappings.find(mapping => 
+      mapping.keypoint === keypoint && mapping.parameter === 'pitch'
+    );
+    
+    if (pitchMapping) {
+      // Higher in the frame means a higher note
+      if (this.playsLocally()) {
+        this.theremin.update(1 - y);
+      }
+      this.sendMidiControl('pitch', 1 - y, pitchMapping.midiChannel);
+    }
+  }
+  
+  // Get the continuous control routings
+  public getModulationRoutes(): ModulationRoute[] {
+    return this.modulationMatrix.getRoutes();
+  }
+  
+  // Replace the continuous control routings
+  public setModulationRoutes(routes: ModulationRoute[]): void {
+    this.modulationMatrix.setRoutes(routes);
+  }
+  
+  // Set a sound parameter from a modulation routing
+  private applyModulation(destination: ModulationDestination, value: number): void {
+    const rampTime = 0.05;
+    
+    // Send it on as a controller change across the destination's full range
+    const { min, max } = MODULATION_DESTINATIONS[destination];
+    this.sendMidiControl(destination, (value - min) / (max - min));
+    
+    switch (destination) {
+      case 'filterCutoff':
+        this.filter.frequency.rampTo(value, rampTime);
+        break;
+      case 'filterResonance':
+        this.filter.Q.rampTo(value, rampTime);
+        break;
+      case 'reverbWet':
+        this.effects.getNode<Tone.Reverb>('reverb')?.wet.rampTo(value, rampTime);
+        break;
+      case 'delayFeedback':
+        this.effects.getNode<Tone.FeedbackDelay>('delay')?.feedback.rampTo(value, rampTime);
+        break;
+      case 'detune':
+        // Sampled voices have no detune, so only synth voices follow this
+        [this.synth, this.chordSynth].forEach(voice => {
+          (voice as InstrumentVoice & { set?: (options: { detune: number }) => void }).set?.({ detune: value });
+        });
+        this.effectSynth.detune.rampTo(value, rampTime);
+        this.theremin.setDetune(value);
+        break;
+      case 'pan':
+        this.panner.pan.rampTo(value, rampTime);
+        break;
+      case 'modulationIndex':
+        this.effectSynth.modulationIndex.rampTo(value, rampTime);
+        break;
+    }
+  }
+  
+  // Get the session key and scale
+  public getSessionKey(): SessionKeySettings {
+    return { ...this.sessionKey };
+  }
+  
+  // Change the session key and scale. Every note and chord mapping is
+  // transposed into the new key; drums and recorded sounds are unaffected.
+  public setSessionKey(settings: Partial<SessionKeySettings>): void {
+    const updated = { ...this.sessionKey, ...settings };
+    
+    try {
+      pitchClassOf(updated.key);
+    } catch (error) {
+      console.error('Invalid session key:', updated.key);
+      return;
+    }
+    
+    this.sessionKey = updated;
+    this.theremin.setTonic(pitchClassOf(updated.key));
+    this.progression.setKey(updated.key);
+    this.ambient.retune();
+    console.log(`Session key set to ${updated.key} ${updated.scale}${updated.alwaysConsonant ? ' (always consonant)' : ''}`);
+  }
+  
+  // Transpose notes written in C into the session key, snapping them to
+  // the session scale if "always consonant" is on
+  private applySessionKey(note: string): string;
+  private applySessionKey(notes: string[]): string[];
+  private applySessionKey(notes: string | string[]): string | string[] {
+    const { key, scale, alwaysConsonant } = this.sessionKey;
+    const transposition = getKeyTransposition(key);
+    
+    const apply = (note: string): string => {
+      try {
+        if (!alwaysConsonant) {
+          return transposeNote(note, transposition);
+        }
+        return midiToNote(snapToScale(noteToMidi(note) + transposition, pitchClassOf(key), scale));
+      } catch (error) {
+        // Leave anything we can't parse (e.g. frequencies) untouched
+        return note;
+      }
+    };
+    
+    if (Array.isArray(notes)) {
+      // Snapping can map two chord notes onto the same pitch
+      return Array.from(new Set(notes.map(apply)));
+    }
+    return apply(notes);
+  }
+  
+  // Get the theremin's scale, range and glide settings
+  public getThereminSettings(): ThereminSettings {
+    return this.theremin.getSettings();
+  }
+  
+  // Change the theremin's scale, range or glide time
+  public setThereminSettings(settings: Partial<ThereminSettings>): void {
+    this.theremin.setSettings(settings);
+  }
+  
+  // Get the note hold settings
+  public getSustainSettings(): SustainSettings {
+    return this.heldNotes.getSettings();
+  }
+  
+  // Turn note holding on or off, or change how long notes can be held
+  public setSustainSettings(settings: Partial<SustainSettings>): void {
+    this.heldNotes.setSettings(settings);
+    if (!this.heldNotes.isEnabled()) {
+      this.heldNotes.releaseAll();
+    }
+  }
+  
+  // A keypoint has started moving: release anything it was holding
+  public processMovementStart(keypoint: string): void {
+    this.heldNotes.release(keypoint);
+    this.toggles.reset(keypoint);
+  }
+  
+  // A keypoint has stopped moving: keep its notes held while it stays put
+  public processMovementEnd(keypoint: string): void {
+    const position = this.keypointPositions.get(keypoint);
+    this.heldNotes.settle(keypoint, position);
+  }
+  
+  // Start notes that keep sounding until the keypoint releases them
+  private holdNotes(
+    voice: InstrumentVoice,
+    group: MixerChannelId,
+    keypoint: string,
+    notes: string[],
+    velocity: number,
+    time: number,
+    midiChannel?: number
+  ): void {
+    const channel = this.midiChannelFor(group, midiChannel);
+    
+    // Never release before a quantized attack has sounded, and log the note
+    // once we know how long it was held
+    const released = () => {
+      const releaseTime = Math.max(Tone.now(), time + 0.05);
+      voice.triggerRelease(notes, releaseTime);
+      this.performanceLog.log(group, notes, time, releaseTime - time, velocity);
+      this.sendMidiNotes(channel, notes, releaseTime, 0);
+      this.notifyNotes(group, notes, 0, 0);
+    };
+    
+    if (this.heldNotes.hold(keypoint, notes, released)) {
+      if (this.playsLocally()) {
+        voice.triggerAttack(notes, time, velocity);
+      }
+      this.sendMidiNotes(channel, notes, time, velocity);
+      this.notifyNotes(group, notes, velocity, 0);
+    }
+  }
+  
+  // Play notes on a voice and add them to the performance log
+  private trigger(
+    voice: InstrumentVoice,
+    group: MixerChannelId,
+    notes: string | string[],
+    duration: Tone.Unit.Time,
+    time: number,
+    velocity: number,
+    midiChannel?: number
+  ): void {
+    const seconds = Tone.Time(duration).toSeconds();
+    if (this.playsLocally()) {
+      voice.triggerAttackRelease(notes, duration, time, velocity);
+    }
+    this.performanceLog.log(group, notes, time, seconds, velocity);
+    this.sendMidiNotes(this.midiChannelFor(group, midiChannel), notes, time, velocity, seconds);
+    this.notifyNotes(group, notes, velocity, seconds);
+  }
+  
+  // Play a note on the effect synth and add it to the performance log
+  private triggerEffectNote(note: string, duration: Tone.Unit.Time, time: number, velocity: number, midiChannel?: number): void {
+    const seconds = Tone.Time(duration).toSeconds();
+    if (this.playsLocally()) {
+      this.effectSynth.triggerAttackRelease(note, duration, time, velocity);
+    }
+    this.performanceLog.log('effects', note, time, seconds, velocity);
+    this.sendMidiNotes(this.midiChannelFor('effects', midiChannel), note, time, velocity, seconds);
+    this.notifyNotes('effects', note, velocity, seconds);
+  }
+  
+  // Tell the note listener about notes starting (or held notes ending)
+  private notifyNotes(group: MixerChannelId, notes: string | string[], velocity: number, duration: number): void {
+    if (!this.noteListener) return;
+    (Array.isArray(notes) ? notes : [notes]).forEach(note => {
+      this.noteListener?.({ group, note, velocity, duration });
+    });
+  }
+  
+  // Whether triggered sounds play here (not when only sending MIDI to a connected port)
+  private playsLocally(): boolean {
+    return this.midiSettings.mode !== 'midiOnly' || !this.midiOutput.isReady();
+  }
+  
+  private sendsMidi(): boolean {
+    return this.midiSettings.mode !== 'off' && this.midiOutput.isReady();
+  }
+  
+  // MIDI channel (0-15) for a mapping's channel setting (1-16) or its voice group
+  private midiChannelFor(group: MixerChannelId, midiChannel?: number): number {
+    return midiChannel !== undefined ? clampMidiChannel(midiChannel) - 1 : MIXER_MIDI_CHANNELS[group];
+  }
+  
+  // Send notes to the MIDI output in time with the audio. A velocity of 0
+  // sends note-offs; otherwise note-ons, with note-offs after the duration if given.
+  private sendMidiNotes(channel: number, notes: string | string[], time: number, velocity: number, duration?: number): void {
+    if (!this.sendsMidi()) return;
+    
+    const timestamp = performance.now() + Math.max(time - Tone.immediate(), 0) * 1000;
+    (Array.isArray(notes) ? notes : [notes]).forEach(note => {
+      let midi: number;
+      try {
+        midi = noteToMidi(note);
+      } catch (error) {
+        return; // Not a note name (e.g. a frequency)
+      }
+      
+      if (velocity === 0) {
+        this.midiOutput.noteOff(channel, midi, timestamp);
+      } else if (duration !== undefined) {
+        this.midiOutput.sendNote(channel, midi, velocity, timestamp, duration * 1000);
+      } else {
+        this.midiOutput.noteOn(channel, midi, velocity, timestamp);
+      }
+    });
+  }
+  
+  // Send a continuous parameter (0-1) to the MIDI output as a controller change
+  private sendMidiControl(control: string, value: number, midiChannel?: number): void {
+    const controller = MIDI_CONTROLLERS[control];
+    if (controller === undefined || !this.sendsMidi()) return;
+    this.midiOutput.controlChange(this.midiChannelFor('melody', midiChannel), controller, value);
+  }
+  
+  // Process a detected movement and trigger appropriate sound. In spatial mode
+  // the keypoint's position places the sound.
+  public processMovement(
+    keypoint: string,
+    isIntentional: boolean,
+    direction: string,
+    velocity: number,
+    position?: KeypointPosition
+  ): void {
     console.log(`Processing movement: ${keypoint} ${direction} (velocity: ${velocity})`);
     
     if (!this.isInitialized) {
@@ -326,7 +1065,48 @@ export class SoundEngine {
       return;
     }
     
+    // The looper gesture starts and stops recording instead of playing, once
+    // per movement however many times it triggers (a movement ends at the next
+    // movement start or after a pause)
+    if (keypoint === this.looperGesture) {
+      if (this.toggles.claim(keypoint, 'looper')) {
+        this.looper.toggleRecording();
+      }
+      return;
+    }
+    
     try {
+      // Quantize the trigger to the clock's grid when it is running
+      const time = this.clock.getTriggerTime();
+      const placement = this.spatialSettings.enabled && position
+        ? placeSound(position, this.spatialSettings)
+        : undefined;
+      
+      // The backing band follows the timing of intentional triggers
+      if (isIntentional) {
+        this.accompaniment.addTrigger(Tone.now());
+      }
+      
+      // In ambient mode movements shape the generated sound instead of playing notes
+      if (this.ambient.isRunning()) {
+        if (isIntentional) {
+          this.ambientCallback?.(this.ambient.applyMovement(direction, time));
+        }
+        return;
+      }
+      
+      // With a song loaded every movement plays its next melody note
+      if (this.songFollower.isActive()) {
+        this.playSongStep(velocity, time, placement);
+        return;
+      }
+      
+      // In progression mode every movement steps through the chords instead
+      if (this.progression.isEnabled()) {
+        this.playProgressionStep(keypoint, direction, velocity, time, placement);
+        return;
+      }
+      
       // Find matching mappings
       const matchingMappings = this.mappings.filter(mapping => 
         mapping.keypoint === keypoint && 
@@ -345,30 +1125,36 @@ export class SoundEngine {
           // Take the first mapping for this keypoint
           const mapping = anyDirectionMappings[0];
           console.log(`Playing sound for ${keypoint} (using fallback mapping) with velocity ${velocity}`);
-          this.playSound(mapping, velocity);
+          this.playSound(mapping, velocity, time, placement);
           return;
         }
         
         // If still no match, play a default sound based on keypoint type
         console.log(`Playing default sound for ${keypoint} ${direction}`);
         
+        const loudness = applyVelocityCurve(velocity, this.velocityCurve) * (placement?.level ?? 1);
+        const group = keypoint.includes('wrist') || keypoint.includes('shoulder') ? 'melody' : 'effects';
+        if (placement) {
+          this.mixer.setSpatialPan(group, placement.pan, time);
+        }
+        
         if (keypoint.includes('wrist')) {
           // Default piano notes for wrists
-          const note = keypoint.includes('right') ? 'C4' : 'G3';
-          this.synth.triggerAttackRelease(note, "8n", Tone.now(), Math.min(velocity / 30, 1));
+          const note = this.applySessionKey(keypoint.includes('right') ? 'C4' : 'G3');
+          this.trigger(this.synth, 'melody', note, "8n", time, loudness);
         } else if (keypoint.includes('shoulder')) {
           // Default bass notes for shoulders
-          const note = keypoint.includes('right') ? 'C2' : 'G2';
-          this.synth.triggerAttackRelease(note, "4n", Tone.now(), Math.min(velocity / 30, 1));
+          const note = this.applySessionKey(keypoint.includes('right') ? 'C2' : 'G2');
+          this.trigger(this.synth, 'melody', note, "4n", time, loudness);
         } else {
           // Default effect for other keypoints
-          this.effectSynth.triggerAttackRelease("C3", "8n", Tone.now(), Math.min(velocity / 30, 1));
+          this.triggerEffectNote("C3", "8n", time, loudness);
         }
       } else {
         // Play sounds for all matching mappings
         matchingMappings.forEach(mapping => {
           console.log(`Playing sound for ${keypoint} ${direction} with velocity ${velocity} (mapped sound: ${mapping.soundType})`);
-          this.playSound(mapping, velocity);
+          this.playSound(mapping, velocity, time, placement);
         });
       }
     } catch (error) {
@@ -382,137 +1168,333 @@ export class SoundEngine {
     }
   }
   
-  // Abstracted sound playing logic
-  private playSound(mapping: SoundMapping, velocity: number): void {
-    // Normalize velocity to 0-1 range for sound parameters
-    const normalizedVelocity = Math.min(Math.max(velocity / 50, 0), 1);
-    
-    console.log(`Playing ${mapping.soundType} sound: ${mapping.soundValue} with velocity ${normalizedVelocity}`);
+  // Abstracted sound playing logic
+  private playSound(
+    mapping: SoundMapping,
+    velocity: number,
+    time: number,
+    placement?: SpatialPlacement,
+    transpose = true
+  ): void {
+    // Normalize velocity to 0-1 range using the user's velocity curve (sounds
+    // further away in spatial mode are quieter)
+    const normalizedVelocity = applyVelocityCurve(velocity, this.velocityCurve) * (placement?.level ?? 1);
+    
+    console.log(`Playing ${mapping.soundType} sound: ${mapping.soundValue} with velocity ${normalizedVelocity}`);
+    
+    // Arpeggios start on one movement and stop on the next
+    if (mapping.soundType === 'arpeggio') {
+      if (!this.toggles.claim(mapping.keypoint, `arpeggio:${mapping.direction}`)) {
+        return;
+      }
+      if (placement) {
+        this.mixer.setSpatialPan('melody', placement.pan, time);
+      }
+      this.toggleArpeggio(mapping, normalizedVelocity);
+      return;
+    }
+    
+    // Parameter controls change the sound rather than trigger one
+    if (mapping.soundType === 'note' && mapping.parameter) {
+      this.playNote(mapping.soundValue as string, normalizedVelocity, time, mapping.parameter, mapping.keypoint, mapping.midiChannel);
+      return;
+    }
+    
+    // Notes and chords are put into the session key once, here
+    let soundValue = mapping.soundValue;
+    if (transpose && (mapping.soundType === 'note' || mapping.soundType === 'chord')) {
+      soundValue = Array.isArray(soundValue) ? this.applySessionKey(soundValue) : this.applySessionKey(soundValue);
+    }
+    
+    const event: SoundEvent = {
+      soundType: mapping.soundType,
+      soundValue,
+      velocity: normalizedVelocity,
+      midiChannel: mapping.midiChannel,
+      pan: placement?.pan
+    };
+    this.looper.record(event, time);
+    this.playEvent(event, time, mapping.keypoint);
+  }
+  
+  // Play a triggered or looped sound. Notes only hold when a keypoint is given.
+  private playEvent(event: SoundEvent, time: number, keypoint?: string): void {
+    if (event.pan !== undefined && this.spatialSettings.enabled) {
+      this.mixer.setSpatialPan(EVENT_GROUPS[event.soundType], event.pan, time);
+    }
     
-    switch (mapping.soundType) {
+    switch (event.soundType) {
       case 'note':
-        this.playNote(mapping.soundValue as string, normalizedVelocity, mapping.parameter, mapping.keypoint);
+        this.playNote(event.soundValue as string, event.velocity, time, undefined, keypoint, event.midiChannel);
         break;
         
       case 'chord':
-        this.playChord(mapping.soundValue as string[], normalizedVelocity);
+        this.playChord(event.soundValue as string[], event.velocity, time, keypoint, event.midiChannel);
         break;
         
       case 'drum':
-        this.playDrum(mapping.soundValue as string, normalizedVelocity);
+        this.playDrum(event.soundValue as string, event.velocity, time, event.midiChannel);
         break;
         
       case 'effect':
-        this.playEffect(mapping.soundValue as string, normalizedVelocity);
+        this.playEffect(event.soundValue as string, event.velocity, time, event.midiChannel);
+        break;
+        
+      case 'sample':
+        this.playSample(event.soundValue as string, event.velocity, time);
         break;
     }
   }
   
-  // Play a single note
-  private playNote(note: string, velocity: number, parameter?: string, keypoint?: string): void {
+  // Play the next melody step of the song and the accompaniment up to the step after it
+  private playSongStep(velocity: number, time: number, placement?: SpatialPlacement): void {
+    const playback = this.songFollower.next();
+    if (playback) {
+      const { step, accompaniment } = playback;
+      const loudness = applyVelocityCurve(velocity, this.velocityCurve) * (placement?.level ?? 1);
+      if (placement) {
+        this.mixer.setSpatialPan('melody', placement.pan, time);
+      }
+      
+      // Songs play at their written pitch, whatever the session key
+      this.trigger(this.synth, 'melody', step.notes, step.duration, time, loudness);
+      this.looper.record(step.notes.length > 1
+        ? { soundType: 'chord', soundValue: step.notes, velocity: loudness, pan: placement?.pan }
+        : { soundType: 'note', soundValue: step.notes[0], velocity: loudness, pan: placement?.pan }, time);
+      
+      accompaniment.forEach(note => {
+        this.trigger(this.chordSynth, 'chords', note.note, note.duration, time + note.time, note.velocity);
+      });
+    }
+    this.songCallback?.(this.songFollower.getPosition());
+  }
+  
+  // Play the next chord of the progression, or handle the reset and back gestures
+  private playProgressionStep(
+    keypoint: string,
+    direction: string,
+    velocity: number,
+    time: number,
+    placement?: SpatialPlacement
+  ): void {
+    const { resetKeypoint, backKeypoint } = this.progression.getSettings();
+    
+    if (keypoint === resetKeypoint) {
+      this.progression.reset();
+    } else {
+      const notes = keypoint === backKeypoint ? this.progression.back() : this.progression.next();
+      if (notes) {
+        // Chord names are absolute (already voiced near the session key) and
+        // exact notes play as written, so neither is transposed
+        this.playSound({ keypoint, direction, soundType: 'chord', soundValue: notes }, velocity, time, placement, false);
+      }
+    }
+    this.progressionCallback?.(this.progression.getPosition());
+  }
+  
+  // Start an arpeggio for a mapping, or stop it if it is already running
+  private toggleArpeggio(mapping: SoundMapping, velocity: number): void {
+    const id = `${mapping.keypoint}:${mapping.direction}`;
+    const running = this.arpeggiators.get(id);
+    if (running) {
+      running.stop();
+      this.arpeggiators.delete(id);
+      return;
+    }
+    
+    const settings = { ...DEFAULT_ARPEGGIATOR_SETTINGS, ...mapping.arpeggio };
+    const chord = this.applySessionKey(Array.isArray(mapping.soundValue) ? mapping.soundValue : [mapping.soundValue]);
+    
+    // Follow the held notes when there are any, otherwise use the mapped chord
+    const getNotes = (): string[] => {
+      if (settings.source === 'held') {
+        const held = Object.values(this.heldNotes.getHeld()).flat();
+        if (held.length > 0) return held;
+      }
+      return chord;
+    };
+    
+    const arpeggiator = new Arpeggiator(settings, getNotes, (note, duration, time) => {
+      this.looper.record({ soundType: 'note', soundValue: note, velocity, midiChannel: mapping.midiChannel }, time);
+      this.trigger(this.synth, 'melody', note, duration, time, velocity, mapping.midiChannel);
+    });
+    
+    // Arpeggios step in time with the tempo clock
+    this.clock.start();
+    arpeggiator.start();
+    this.arpeggiators.set(id, arpeggiator);
+  }
+  
+  private stopArpeggios(): void {
+    this.arpeggiators.forEach(arpeggiator => arpeggiator.stop());
+    this.arpeggiators.clear();
+  }
+  
+  // Hold the backing band's chord while the user pauses
+  private holdAccompanimentChord(notes: string[], time: number): void {
+    this.releaseAccompanimentChord(time);
+    
+    const velocity = 0.4;
+    if (this.playsLocally()) {
+      this.chordSynth.triggerAttack(notes, time, velocity);
+    }
+    this.sendMidiNotes(this.midiChannelFor('chords'), notes, time, velocity);
+    this.notifyNotes('chords', notes, velocity, 0);
+    this.heldAccompaniment = { notes, time, velocity };
+  }
+  
+  // Release the held chord and log it now we know how long it lasted
+  private releaseAccompanimentChord(time: number): void {
+    if (!this.heldAccompaniment) return;
+    
+    const { notes, time: start, velocity } = this.heldAccompaniment;
+    const releaseTime = Math.max(time, start + 0.05);
+    this.chordSynth.triggerRelease(notes, releaseTime);
+    this.performanceLog.log('chords', notes, start, releaseTime - start, velocity);
+    this.sendMidiNotes(this.midiChannelFor('chords'), notes, releaseTime, 0);
+    this.notifyNotes('chords', notes, 0, 0);
+    this.heldAccompaniment = null;
+  }
+  
+  // Play a single note (already in the session key)
+  private playNote(
+    note: string,
+    velocity: number,
+    time: number,
+    parameter?: string,
+    keypoint?: string,
+    midiChannel?: number
+  ): void {
     try {
       // If this is a parameter control (like theremin mode)
       if (parameter) {
         switch (parameter) {
           case 'pitch':
-            // Map y position to pitch in a scale
-            const octave = Math.floor(velocity * 3) + 3; // Map to octaves 3-5
-            const noteIndex = Math.floor(velocity * 12) % 12;
-            const pitchNote = `${this.notes[noteIndex]}${octave}`;
-            
-            // If we already have a note playing for this keypoint, stop it
-            const currentNote = this.activeNotes.get(keypoint || '');
-            if (currentNote) {
-              this.synth.triggerRelease(currentNote);
+            // Theremin mode: height of the keypoint in frame sets the pitch.
+            // Without position data, fall back to the movement velocity.
+            const position = this.keypointPositions.get(keypoint || '');
+            const height = position ? 1 - position.y : velocity;
+            if (this.playsLocally()) {
+              this.theremin.update(height);
             }
-            
-            // Play new note
-            this.synth.triggerAttack(pitchNote, Tone.now(), 0.5);
-            this.activeNotes.set(keypoint || '', pitchNote);
+            this.sendMidiControl('pitch', height, midiChannel);
             break;
             
           case 'volume':
             // Map position to volume
             this.synth.volume.value = Tone.gainToDb(velocity);
+            this.sendMidiControl('volume', velocity, midiChannel);
             break;
             
           case 'filter':
             // Map position to filter frequency
             const filterFreq = 100 + (velocity * 10000);
             this.filter.frequency.value = filterFreq;
+            this.sendMidiControl('filter', velocity, midiChannel);
             break;
             
           case 'tempo':
-            // Map position to tempo (BPM)
+            // Map position to the clock's tempo (BPM)
             const bpm = 60 + (velocity * 120); // 60-180 BPM
-            Tone.Transport.bpm.value = bpm;
+            this.clock.setSettings({ bpm });
+            this.sendMidiControl('tempo', velocity, midiChannel);
             break;
         }
       } else {
-        // Just play the note once
         console.log(`Playing note: ${note} with velocity ${velocity}`);
-        this.synth.triggerAttackRelease(note, "8n", Tone.now(), velocity);
+        
+        if (keypoint && this.heldNotes.isEnabled()) {
+          // Hold the note for as long as the keypoint holds its position
+          this.holdNotes(this.synth, 'melody', keypoint, [note], velocity, time, midiChannel);
+        } else {
+          // Just play the note once
+          this.trigger(this.synth, 'melody', note, "8n", time, velocity, midiChannel);
+        }
       }
     } catch (error) {
       console.error('Error playing note:', error, note);
     }
   }
   
-  // Play a chord
-  private playChord(notes: string[], velocity: number): void {
+  // Play a chord (already in the session key)
+  private playChord(notes: string[], velocity: number, time: number, keypoint?: string, midiChannel?: number): void {
     try {
       console.log(`Playing chord: ${notes.join(', ')} with velocity ${velocity}`);
-      this.synth.triggerAttackRelease(notes, "4n", Tone.now(), velocity);
+      
+      if (keypoint && this.heldNotes.isEnabled()) {
+        this.holdNotes(this.chordSynth, 'chords', keypoint, notes, velocity, time, midiChannel);
+      } else {
+        this.trigger(this.chordSynth, 'chords', notes, "4n", time, velocity, midiChannel);
+      }
     } catch (error) {
       console.error('Error playing chord:', error, notes);
     }
   }
   
   // Play a drum sound
-  private playDrum(note: string, velocity: number): void {
+  private playDrum(note: string, velocity: number, time: number, midiChannel?: number): void {
     try {
       console.log(`Playing drum: ${note} with velocity ${velocity}`);
-      this.drums.triggerAttackRelease(note, "8n", Tone.now(), velocity);
+      this.trigger(this.drums, 'drums', note, "8n", time, velocity, midiChannel);
     } catch (error) {
       console.error('Error playing drum:', error, note);
     }
   }
   
+  // Play a recorded sound
+  private playSample(sampleId: string, velocity: number, time: number): void {
+    try {
+      if (!this.samplePlayers || !this.samplePlayers.has(sampleId)) {
+        console.warn(`Recorded sound not available: ${sampleId}`);
+        return;
+      }
+      
+      console.log(`Playing recorded sound: ${sampleId} with velocity ${velocity}`);
+      const player = this.samplePlayers.player(sampleId);
+      player.volume.value = Tone.gainToDb(Math.max(velocity, 0.01));
+      player.start(time);
+    } catch (error) {
+      console.error('Error playing recorded sound:', error, sampleId);
+    }
+  }
+  
   // Play a special effect
-  private playEffect(effect: string, intensity: number): void {
+  private playEffect(effect: string, intensity: number, time: number, midiChannel?: number): void {
     try {
       console.log(`Playing effect: ${effect} with intensity ${intensity}`);
       switch (effect) {
         case 'sweep':
-          this.effectSynth.triggerAttackRelease("C3", "8n", Tone.now(), intensity);
+          this.triggerEffectNote(this.applySessionKey("C3"), "8n", time, intensity, midiChannel);
           this.filter.frequency.rampTo(100 + (intensity * 5000), 0.5);
           break;
           
         case 'wobble':
           this.effectSynth.modulationIndex.value = 10 * intensity;
-          this.effectSynth.triggerAttackRelease("C2", "4n", Tone.now(), intensity);
+          this.triggerEffectNote(this.applySessionKey("C2"), "4n", time, intensity, midiChannel);
           break;
           
         case 'arpeggio':
-          const notes = ['C4', 'E4', 'G4', 'B4', 'C5'];
+          const notes = this.applySessionKey(['C4', 'E4', 'G4', 'B4', 'C5']);
           for (let i = 0; i < notes.length; i++) {
-            this.synth.triggerAttackRelease(
+            this.trigger(
+              this.synth,
+              'melody',
               notes[i], 
               "16n", 
-              Tone.now() + (i * 0.1), 
-              intensity
+              time + (i * 0.1), 
+              intensity,
+              midiChannel
             );
           }
           break;
           
         case 'shimmer':
           this.effectSynth.harmonicity.value = 3;
-          this.reverb.decay = 4;
-          this.effectSynth.triggerAttackRelease("G4", "2n", Tone.now(), intensity * 0.7);
+          this.triggerEffectNote(this.applySessionKey("G4"), "2n", time, intensity * 0.7, midiChannel);
           break;
           
         default:
-          this.effectSynth.triggerAttackRelease("C4", "8n", Tone.now(), intensity);
+          this.triggerEffectNote(this.applySessionKey("C4"), "8n", time, intensity, midiChannel);
       }
     } catch (error) {
       console.error('Error playing effect:', error, effect);
@@ -521,16 +1503,43 @@ export class SoundEngine {
   
   // Stop all sounds
   public stopAllSounds(): void {
+    this.stopArpeggios();
+    this.stopAmbient();
+    this.stopAccompaniment();
     this.synth.releaseAll();
+    this.chordSynth.releaseAll();
     this.effectSynth.triggerRelease();
-    this.activeNotes.clear();
+    this.samplePlayers?.stopAll();
+    this.theremin.release();
+    this.heldNotes.releaseAll();
+    this.midiOutput.allNotesOff();
   }
   
   // Set reverb amount
   public setReverbAmount(amount: number): void {
     // amount should be between 0-1
-    this.reverb.decay = 1 + (amount * 4); // 1-5 seconds decay
-    this.reverb.wet.value = amount;
+    const reverb = this.effects.getEffects().find(effect => effect.type === 'reverb' && !effect.bypassed);
+    if (!reverb) {
+      console.log('No reverb in the current effects chain');
+      return;
+    }
+    this.effects.setParam(reverb.id, 'decay', 1 + (amount * 4)); // 1-5 seconds decay
+    this.effects.setParam(reverb.id, 'wet', amount);
+  }
+  
+  // Get the current preset's effects chain
+  public getEffects(): EffectSettings[] {
+    return this.effects.getEffects();
+  }
+  
+  // Replace the effects chain (added, removed, reordered or bypassed effects)
+  public setEffects(effects: EffectSettings[]): void {
+    this.effects.setEffects(effects);
+  }
+  
+  // Change one effect parameter while playing
+  public setEffectParam(effectId: string, param: string, value: number): void {
+    this.effects.setParam(effectId, param, value);
   }
   
   // Set filter frequency
@@ -538,12 +1547,406 @@ export class SoundEngine {
     this.filter.frequency.value = frequency;
   }
   
-  // Set overall volume
+  // Set overall volume (use the mixer to balance the voice groups)
   public setVolume(volume: number): void {
     // volume should be between 0-1
-    this.synth.volume.value = Tone.gainToDb(volume);
-    this.effectSynth.volume.value = Tone.gainToDb(volume);
-    this.drums.volume.value = Tone.gainToDb(volume);
+    Tone.getDestination().volume.rampTo(Tone.gainToDb(Math.max(volume, 0.0001)), 0.05);
+  }
+  
+  // Get the output ceiling and onset softening settings
+  public getSafetySettings(): SafetySettings {
+    return this.masterBus.getSettings();
+  }
+  
+  // Change the output ceiling or onset softening (remembered on this device)
+  public setSafetySettings(settings: Partial<SafetySettings>): void {
+    this.masterBus.setSettings(settings);
+    saveSafetySettings(this.masterBus.getSettings());
+  }
+  
+  // Whether the master limiter is holding the output down right now
+  public isLimiting(): boolean {
+    return this.masterBus.isLimiting();
+  }
+  
+  // How much the master limiter is reducing the output (dB, 0 = not at all)
+  public getLimiterReduction(): number {
+    return this.masterBus.getReduction();
+  }
+  
+  // Get the spatial mode settings
+  public getSpatialSettings(): SpatialSettings {
+    return { ...this.spatialSettings };
+  }
+  
+  // Turn spatial mode on or off or change how wide it is (remembered on this device)
+  public setSpatialSettings(settings: Partial<SpatialSettings>): void {
+    this.spatialSettings = { ...this.spatialSettings, ...settings };
+    this.spatialSettings.width = Math.min(Math.max(this.spatialSettings.width, 0), 1);
+    saveSpatialSettings(this.spatialSettings);
+    
+    if (!this.spatialSettings.enabled) {
+      this.mixer.resetSpatialPan();
+    }
+  }
+  
+  // Get the tempo, metronome and quantize settings
+  public getClockSettings(): ClockSettings {
+    return this.clock.getSettings();
+  }
+  
+  // Change the tempo, time signature, metronome or quantize settings
+  public setClockSettings(settings: Partial<ClockSettings>): void {
+    this.clock.setSettings(settings);
+  }
+  
+  public isClockRunning(): boolean {
+    return this.clock.isRunning();
+  }
+  
+  // Start or stop the clock (quantizing only applies while it runs).
+  // Stopping it also stops everything that plays on the clock: arpeggios,
+  // the backing band and ambient mode. Loop layers pause until it restarts.
+  public setClockRunning(running: boolean): void {
+    if (running) {
+      this.clock.start();
+    } else {
+      this.stopArpeggios();
+      this.stopAccompaniment();
+      this.stopAmbient();
+      this.clock.stop();
+    }
+  }
+  
+  // Set a function to be called when the clock starts or stops or its tempo
+  // or other settings change (including by the backing band)
+  public setClockChangeCallback(callback: (() => void) | null): void {
+    this.clockCallback = callback;
+  }
+  
+  // Set a function to be called on each beat for the visual metronome
+  public setBeatCallback(callback: BeatCallback | null): void {
+    this.clock.setBeatCallback(callback);
+  }
+  
+  // Whether the looper is idle, recording its first layer or overdubbing
+  public getLooperState(): LoopState {
+    return this.looper.getState();
+  }
+  
+  // Whether there are loop layers waiting for the clock to start again
+  public isLoopPaused(): boolean {
+    return this.looper.isPaused();
+  }
+  
+  public getLoopLayers(): LoopLayer[] {
+    return this.looper.getLayers();
+  }
+  
+  // Set a function to be called when recording starts or stops, a layer
+  // changes or the clock starts or stops
+  public setLooperChangeCallback(callback: (() => void) | null): void {
+    this.looper.setChangeCallback(callback);
+  }
+  
+  // Start recording a loop layer (starts the clock if needed)
+  public startLoopRecording(): boolean {
+    return this.looper.startRecording();
+  }
+  
+  // Stop recording and start looping the new layer
+  public stopLoopRecording(): boolean {
+    return this.looper.stopRecording();
+  }
+  
+  public setLoopLayerMuted(id: number, muted: boolean): void {
+    this.looper.setLayerMuted(id, muted);
+  }
+  
+  public clearLoopLayer(id: number): void {
+    this.looper.clearLayer(id);
+  }
+  
+  public clearLoop(): void {
+    this.looper.clearAll();
+  }
+  
+  public getLooperGesture(): string | null {
+    return this.looperGesture;
+  }
+  
+  // Choose a keypoint whose movements start and stop loop recording (null for none)
+  public setLooperGesture(keypoint: string | null): void {
+    this.looperGesture = keypoint;
+  }
+  
+  // Number of notes played since the performance log was last cleared
+  public getPerformanceNoteCount(): number {
+    return this.performanceLog.getCount();
+  }
+  
+  // Everything played so far as a MIDI file (one track per voice group), or
+  // null if nothing has been played
+  public exportPerformanceMidi(): Uint8Array | null {
+    if (this.performanceLog.getCount() === 0) return null;
+    return this.performanceLog.toMidiFile(this.clock.getSettings().bpm);
+  }
+  
+  public clearPerformanceLog(): void {
+    this.performanceLog.clear();
+  }
+  
+  // Whether this browser can record the performance audio
+  public canRecordAudio(): boolean {
+    return SessionRecorder.isSupported();
+  }
+  
+  // Start recording the master output; it stops by itself at the maximum length
+  public async startAudioRecording(): Promise<boolean> {
+    await this.initialize();
+    return this.audioRecorder.start(this.recordingSettings.maxMinutes * 60);
+  }
+  
+  // Stop recording and return the audio (usually WebM), or null if not recording
+  public stopAudioRecording(): Promise<Blob | null> {
+    return this.audioRecorder.stop();
+  }
+  
+  public isAudioRecording(): boolean {
+    return this.audioRecorder.isRecording();
+  }
+  
+  // Seconds recorded so far
+  public getAudioRecordingElapsed(): number {
+    return this.audioRecorder.getElapsed();
+  }
+  
+  // Called with each finished recording, including ones stopped at the limit
+  public setAudioRecordingCallback(callback: ((recording: Blob, seconds: number) => void) | null): void {
+    this.audioRecorder.setFinishedCallback(callback);
+  }
+  
+  // Convert a finished recording (of a length canConvertToWav allows) to a WAV file
+  public convertRecordingToWav(recording: Blob, seconds: number): Promise<Blob> {
+    return SessionRecorder.toWav(recording, seconds);
+  }
+  
+  public getRecordingSettings(): RecordingSettings {
+    return { ...this.recordingSettings };
+  }
+  
+  // Change the maximum recording length (remembered on this device, used from
+  // the next recording)
+  public setRecordingSettings(settings: Partial<RecordingSettings>): void {
+    const merged = { ...this.recordingSettings, ...settings };
+    this.recordingSettings = { maxMinutes: clampRecordingMinutes(merged.maxMinutes) };
+    saveRecordingSettings(this.recordingSettings);
+  }
+  
+  // Whether this browser can send MIDI to other apps and devices
+  public canSendMidi(): boolean {
+    return MidiOutput.isSupported();
+  }
+  
+  public getMidiOutputSettings(): MidiOutputSettings {
+    return { ...this.midiSettings };
+  }
+  
+  // Change the MIDI output mode or port (remembered on this device). Turning
+  // it on asks the browser for MIDI access if we don't have it yet.
+  public async setMidiOutputSettings(settings: Partial<MidiOutputSettings>): Promise<boolean> {
+    this.midiSettings = { ...this.midiSettings, ...settings };
+    saveMidiOutputSettings(this.midiSettings);
+    
+    if (this.midiSettings.mode === 'off') {
+      this.midiOutput.allNotesOff();
+      return true;
+    }
+    return this.connectMidiOutput();
+  }
+  
+  // Get MIDI access if needed, re-read the ports and select the chosen one
+  private async connectMidiOutput(): Promise<boolean> {
+    if (!(await this.midiOutput.connect())) {
+      return false;
+    }
+    if (this.midiOutput.getSelectedPortId() !== this.midiSettings.portId) {
+      this.midiOutput.selectPort(this.midiSettings.portId);
+    }
+    return true;
+  }
+  
+  // Re-read the list of MIDI output ports
+  public refreshMidiOutputPorts(): Promise<boolean> {
+    return this.connectMidiOutput();
+  }
+  
+  public getMidiOutputPorts(): MidiPortInfo[] {
+    return this.midiOutput.getPorts();
+  }
+  
+  // Whether the chosen MIDI output port is connected and ready
+  public isMidiOutputReady(): boolean {
+    return this.midiOutput.isReady();
+  }
+  
+  // The last problem with MIDI access or the chosen port, if any
+  public getMidiOutputError(): string | null {
+    return this.midiOutput.getError();
+  }
+  
+  // Called when MIDI ports are plugged in or out, or the output fails
+  public setMidiOutputCallback(callback: (() => void) | null): void {
+    this.midiOutput.setChangeCallback(callback);
+  }
+  
+  // Called for every note the engine plays, e.g. to send it over OSC
+  public setNoteListener(listener: ((note: TriggeredNote) => void) | null): void {
+    this.noteListener = listener;
+  }
+  
+  // Load a song for song-follow mode (null to go back to the mappings)
+  public loadSong(song: Song | null): void {
+    this.songFollower.load(song);
+    this.songCallback?.(this.songFollower.getPosition());
+  }
+  
+  public getSong(): Song | null {
+    return this.songFollower.getSong();
+  }
+  
+  // Index of the next melody step to play
+  public getSongPosition(): number {
+    return this.songFollower.getPosition();
+  }
+  
+  public resetSong(): void {
+    this.songFollower.reset();
+    this.songCallback?.(this.songFollower.getPosition());
+  }
+  
+  public isSongAccompanimentEnabled(): boolean {
+    return this.songFollower.isAccompanimentEnabled();
+  }
+  
+  public setSongAccompanimentEnabled(enabled: boolean): void {
+    this.songFollower.setAccompanimentEnabled(enabled);
+  }
+  
+  // Set a function to be called when the song moves on a step
+  public setSongCallback(callback: ((position: number) => void) | null): void {
+    this.songCallback = callback;
+  }
+  
+  public isAmbientRunning(): boolean {
+    return this.ambient.isRunning();
+  }
+  
+  // The ambient mood, harmony, density and brightness (null when not running)
+  public getAmbientState(): AmbientState | null {
+    return this.ambient.getState();
+  }
+  
+  // Start ambient mode in a mood, or switch to another mood while it runs
+  public async startAmbient(mood: AmbientMood): Promise<void> {
+    await this.initialize();
+    
+    // The texture steps in time with the tempo clock
+    this.clock.start();
+    this.ambient.start(mood);
+    this.ambientCallback?.(this.ambient.getState());
+  }
+  
+  public stopAmbient(): void {
+    if (!this.ambient.isRunning()) return;
+    this.ambient.stop();
+    this.ambientCallback?.(null);
+  }
+  
+  // Set a function to be called when ambient mode starts, stops or changes
+  public setAmbientCallback(callback: ((state: AmbientState | null) => void) | null): void {
+    this.ambientCallback = callback;
+  }
+  
+  public isAccompanimentRunning(): boolean {
+    return this.accompaniment.isRunning();
+  }
+  
+  // Whether the band is waiting, playing or holding, its chord and tempo (null when off)
+  public getAccompanimentStatus(): AccompanimentStatus | null {
+    return this.accompaniment.getStatus();
+  }
+  
+  // Start the backing band; it comes in when the user next moves
+  public async startAccompaniment(): Promise<void> {
+    await this.initialize();
+    
+    // The band plays on the tempo clock, which then follows the user
+    this.clock.start();
+    this.accompaniment.start(this.clock.getSettings().bpm);
+  }
+  
+  public stopAccompaniment(): void {
+    this.accompaniment.stop();
+  }
+  
+  // Set a function to be called when the band starts, stops, pauses or changes chord
+  public setAccompanimentCallback(callback: ((status: AccompanimentStatus | null) => void) | null): void {
+    this.accompaniment.setChangeCallback(callback);
+  }
+  
+  // Get the backing band's style and how long a pause it waits for
+  public getAccompanimentSettings(): AccompanimentSettings {
+    return { ...this.accompanimentSettings };
+  }
+  
+  // Change the backing band's style or pause length (remembered on this device)
+  public setAccompanimentSettings(settings: Partial<AccompanimentSettings>): void {
+    this.accompanimentSettings = { ...this.accompanimentSettings, ...settings };
+    this.accompanimentSettings.pauseBeats = clampPauseBeats(this.accompanimentSettings.pauseBeats);
+    saveAccompanimentSettings(this.accompanimentSettings);
+    this.accompaniment.setSettings(this.accompanimentSettings);
+  }
+  
+  // Get the chord progression and its gestures
+  public getProgressionSettings(): ProgressionSettings {
+    return this.progression.getSettings();
+  }
+  
+  // Change the chord progression (changing the chords starts it from the beginning)
+  public setProgressionSettings(settings: Partial<ProgressionSettings>): void {
+    this.progression.setSettings(settings);
+    this.progressionCallback?.(this.progression.getPosition());
+  }
+  
+  // Index of the chord played last (-1 before the first chord)
+  public getProgressionPosition(): number {
+    return this.progression.getPosition();
+  }
+  
+  public resetProgression(): void {
+    this.progression.reset();
+    this.progressionCallback?.(this.progression.getPosition());
+  }
+  
+  // Set a function to be called when the progression moves to another chord
+  public setProgressionCallback(callback: ((position: number) => void) | null): void {
+    this.progressionCallback = callback;
+  }
+  
+  // Get the mixer settings for every voice group
+  public getMixerSettings(): MixerSettings {
+    return this.mixer.getSettings();
+  }
+  
+  // Change one mixer channel's gain, pan, mute or solo
+  public setMixerChannel(channel: MixerChannelId, settings: Partial<MixerChannelSettings>): void {
+    this.mixer.setChannel(channel, settings);
+  }
+  
+  // Current level of each mixer channel in decibels (for meters)
+  public getMixerLevels(): Record<MixerChannelId, number> {
+    return this.mixer.getLevels();
   }
   
   // Check if the audio context is running
@@ -571,7 +1974,7 @@ export class SoundEngine {
   public createCustomMapping(
     keypoint: string, 
     direction: string, 
-    soundType: 'note' | 'chord' | 'drum' | 'effect',
+    soundType: SoundMapping['soundType'],
     soundValue: string | string[],
     parameter?: 'volume' | 'pitch' | 'tempo' | 'filter'
   ): SoundMapping {
@@ -584,15 +1987,137 @@ export class SoundEngine {
     };
   }
   
+  // Get the mappings that are currently active
+  public getMappings(): SoundMapping[] {
+    return [...this.mappings];
+  }
+  
+  // Get only the presets the user has saved
+  public getCustomPresets(): SoundPreset[] {
+    return this.presetStore.list();
+  }
+  
+  // Check if a preset was created by the user (and can be edited or deleted)
+  public isCustomPreset(name: string): boolean {
+    return this.presetStore.has(name);
+  }
+  
   // Save custom preset
-  public saveCustomPreset(name: string, description: string, mappings: SoundMapping[]): void {
-    // In a real application, this would save to localStorage or a database
-    // For now, we'll just log it
-    console.log('Custom preset saved:', {
+  public saveCustomPreset(
+    name: string, 
+    description: string, 
+    mappings: SoundMapping[], 
+    instrument: string = this.instrumentId
+  ): boolean {
+    if (BUILT_IN_PRESETS.some(p => p.name === name)) {
+      console.error(`Cannot overwrite built-in preset: ${name}`);
+      return false;
+    }
+    
+    const saved = this.presetStore.create(this.captureCurrentPreset(name, description, mappings, instrument));
+    if (saved) {
+      console.log('Custom preset saved:', name);
+    }
+    return saved;
+  }
+  
+  // Replace a custom preset with the current sound setup, keeping its name
+  // and description
+  public saveOverCustomPreset(name: string): boolean {
+    const existing = this.presetStore.get(name);
+    if (!existing) {
+      console.error(`Could not find custom preset: ${name}`);
+      return false;
+    }
+    
+    const saved = this.presetStore.update(
       name,
-      description,
-      instrument: 'custom',
-      mappings
+      this.captureCurrentPreset(name, existing.description, this.getMappings(), this.instrumentId)
+    );
+    if (saved) {
+      console.log('Custom preset saved over:', name);
+    }
+    return saved;
+  }
+  
+  // The current modulation, effects, mixer and progression as a preset
+  private captureCurrentPreset(
+    name: string,
+    description: string,
+    mappings: SoundMapping[],
+    instrument: string
+  ): SoundPreset {
+    const modulation = this.modulationMatrix.getRoutes();
+    const progression = this.progression.getSettings();
+    return {
+      name, 
+      description, 
+      instrument, 
+      mappings,
+      ...(modulation.length > 0 ? { modulation } : {}),
+      effects: this.effects.getEffects(),
+      mixer: this.mixer.getSettings(),
+      ...(progression.enabled ? { progression } : {})
+    };
+  }
+  
+  // Update a custom preset (built-in presets can't be changed)
+  public updateCustomPreset(name: string, preset: SoundPreset): boolean {
+    if (BUILT_IN_PRESETS.some(p => p.name === preset.name)) {
+      console.error(`Cannot overwrite built-in preset: ${preset.name}`);
+      return false;
+    }
+    
+    const updated = this.presetStore.update(name, preset);
+    if (updated) {
+      console.log('Custom preset updated:', preset.name);
+    }
+    return updated;
+  }
+  
+  // Delete a custom preset
+  public deleteCustomPreset(name: string): boolean {
+    const deleted = this.presetStore.delete(name);
+    if (deleted) {
+      console.log('Custom preset deleted:', name);
+    }
+    return deleted;
+  }
+  
+  // Export presets (built-in or custom) as a versioned JSON document
+  public exportPresets(presetNames: string[]): string {
+    const presets = this.getPresets().filter(p => presetNames.includes(p.name));
+    return createPresetFile(presets);
+  }
+  
+  // Import presets from a JSON document. Existing custom presets with the same
+  // name are replaced; names that clash with built-in presets get a suffix.
+  public importPresets(json: string): { imported: string[]; errors: string[] } {
+    const { presets, errors } = parsePresetFile(json);
+    if (errors.length > 0) {
+      console.error('Preset import failed:', errors);
+      return { imported: [], errors };
+    }
+    
+    const imported: string[] = [];
+    presets.forEach(preset => {
+      const name = BUILT_IN_PRESETS.some(p => p.name === preset.name)
+        ? `${preset.name} (Imported)`
+        : preset.name;
+      const toSave = { ...preset, name };
+      
+      const saved = this.presetStore.has(name)
+        ? this.presetStore.update(name, toSave)
+        : this.presetStore.create(toSave);
+      
+      if (saved) {
+        imported.push(name);
+      } else {
+        errors.push(`Preset "${name}" could not be saved`);
+      }
     });
+    
+    console.log('Imported presets:', imported);
+    return { imported, errors };
   }
-}
\ No newline at end of file
+}
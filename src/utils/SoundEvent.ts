@@ -0,0 +1,18 @@
+import { MixerChannelId } from './MixerSettings';
+
+// A sound the engine triggered, with everything needed to play it again
+export interface SoundEvent {
+  soundType: 'note' | 'chord' | 'drum' | 'effect' | 'sample';
+  soundValue: string | string[]; // Notes are already in the session key
+  velocity: number;              // 0-1, after the velocity curve
+  midiChannel?: number;          // MIDI output channel (1-16) from the mapping
+  pan?: number;                  // Where it was played from in spatial mode (-1 to 1)
+}
+
+// A note starting (or a held note ending), for listeners outside the engine
+export interface TriggeredNote {
+  group: MixerChannelId;
+  note: string;     // Note name, or a frequency for some synth sounds
+  velocity: number; // 0-1; 0 is the release of a held note
+  duration: number; // seconds, or 0 for a note held until released
+}
@@ -0,0 +1,22 @@
+import { depthFromZ, placeSound } from './SpatialSettings';
+
+test('pans by horizontal position within the chosen width', () => {
+  const settings = { enabled: true, width: 1, useDepth: false };
+  expect(placeSound({ x: 0, y: 0.5 }, settings)).toEqual({ pan: -1, level: 1 });
+  expect(placeSound({ x: 0.75, y: 0.5 }, settings).pan).toBeCloseTo(0.5);
+  expect(placeSound({ x: 1, y: 0.5 }, { ...settings, width: 0.5 }).pan).toBeCloseTo(0.5);
+});
+
+test('makes far sounds quieter only when depth is used and known', () => {
+  const settings = { enabled: true, width: 1, useDepth: true };
+  expect(placeSound({ x: 0.5, y: 0.5, depth: 0 }, settings).level).toBe(1);
+  expect(placeSound({ x: 0.5, y: 0.5, depth: 1 }, settings).level).toBeCloseTo(0.251, 3); // -12 dB
+  expect(placeSound({ x: 0.5, y: 0.5 }, settings).level).toBe(1);
+  expect(placeSound({ x: 0.5, y: 0.5, depth: 1 }, { ...settings, useDepth: false }).level).toBe(1);
+});
+
+test('converts pose z coordinates to depth', () => {
+  expect(depthFromZ(0, 640)).toBe(0.5);
+  expect(depthFromZ(-640, 640)).toBe(0);
+  expect(depthFromZ(160, 640)).toBe(0.75);
+});
@@ -0,0 +1,67 @@
+import { loadStoredSettings, saveStoredSettings, storedBoolean, storedNumber } from './storedSettings';
+
+// Spatial mode: each triggered sound is panned to where the body part that
+// played it is, so users can hear where they are in the instrument. Stored on
+// this device, like the hearing-safety settings.
+
+// Where a keypoint is, from the performer's point of view: x runs from 0 at
+// their left to 1 at their right, y from 0 at the top of the frame to 1 at
+// the bottom, and depth (when the pose model gives one) from 0 nearest the
+// camera to 1 furthest away
+export interface KeypointPosition {
+  x: number;
+  y: number;
+  depth?: number;
+}
+
+export interface SpatialSettings {
+  enabled: boolean;
+  width: number;     // 0-1: how far to the sides sounds can go
+  useDepth: boolean; // Sounds further from the camera are quieter
+}
+
+// Where and how loud to play one triggered sound
+export interface SpatialPlacement {
+  pan: number;   // -1 (left) to 1 (right)
+  level: number; // Gain multiplier for the velocity, 0-1
+}
+
+// How much quieter a sound is at the furthest depth
+export const MAX_DEPTH_ATTENUATION = 12; // dB
+
+export const DEFAULT_SPATIAL_SETTINGS: SpatialSettings = {
+  enabled: false,
+  width: 0.8,
+  useDepth: false
+};
+
+const STORAGE_KEY = 'spatial-audio-settings';
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Work out the pan and level for a sound played at a position
+export const placeSound = (position: KeypointPosition, settings: SpatialSettings): SpatialPlacement => {
+  const pan = clamp((position.x * 2 - 1) * settings.width, -1, 1);
+  const level = settings.useDepth && position.depth !== undefined
+    ? Math.pow(10, (-clamp(position.depth, 0, 1) * MAX_DEPTH_ATTENUATION) / 20)
+    : 1;
+  return { pan, level };
+};
+
+// Turn a pose model's z coordinate (same scale as x, negative towards the
+// camera and centred on the hips) into a 0-1 depth
+export const depthFromZ = (z: number, frameWidth: number): number => {
+  return clamp(0.5 + z / frameWidth, 0, 1);
+};
+
+export const loadSpatialSettings = (): SpatialSettings => {
+  return loadStoredSettings(STORAGE_KEY, 'spatial audio settings', DEFAULT_SPATIAL_SETTINGS, stored => ({
+    enabled: storedBoolean(stored.enabled, DEFAULT_SPATIAL_SETTINGS.enabled),
+    width: clamp(storedNumber(stored.width, DEFAULT_SPATIAL_SETTINGS.width), 0, 1),
+    useDepth: storedBoolean(stored.useDepth, DEFAULT_SPATIAL_SETTINGS.useDepth)
+  }));
+};
+
+export const saveSpatialSettings = (settings: SpatialSettings): boolean => {
+  return saveStoredSettings(STORAGE_KEY, 'spatial audio settings', settings);
+};
@@ -0,0 +1,81 @@
+import * as Tone from 'tone';
+import { InstrumentVoice } from './InstrumentRegistry';
+
+// Synthesized stand-in for a sampled drum kit, used while samples load
+// or when they can't be decoded. Uses the same trigger notes as the kits.
+export class SynthDrumKit implements InstrumentVoice {
+  private output = new Tone.Volume(0);
+  private kick = new Tone.MembraneSynth({ octaves: 6, pitchDecay: 0.05 });
+  private snare = new Tone.NoiseSynth({ noise: { type: 'white' }, envelope: { attack: 0.001, decay: 0.2, sustain: 0 } });
+  private hihat = new Tone.MetalSynth({ envelope: { attack: 0.001, decay: 0.08, release: 0.01 }, harmonicity: 5.1, resonance: 4000, octaves: 1.5 });
+  private clap = new Tone.NoiseSynth({ noise: { type: 'pink' }, envelope: { attack: 0.005, decay: 0.15, sustain: 0 } });
+  private snareFilter = new Tone.Filter(1500, 'highpass');
+  private clapFilter = new Tone.Filter(1000, 'bandpass');
+
+  constructor() {
+    this.kick.connect(this.output);
+    this.snare.chain(this.snareFilter, this.output);
+    this.hihat.connect(this.output);
+    this.hihat.volume.value = -12;
+    this.clap.chain(this.clapFilter, this.output);
+  }
+
+  public get volume(): Tone.Param<'decibels'> {
+    return this.output.volume;
+  }
+
+  public triggerAttack(notes: Tone.Unit.Frequency | Tone.Unit.Frequency[], time?: Tone.Unit.Time, velocity = 1): this {
+    return this.triggerAttackRelease(notes, '8n', time, velocity);
+  }
+
+  // Drum hits are one-shots, so there is nothing to release
+  public triggerRelease(): this {
+    return this;
+  }
+
+  public triggerAttackRelease(
+    notes: Tone.Unit.Frequency | Tone.Unit.Frequency[],
+    duration: Tone.Unit.Time | Tone.Unit.Time[],
+    time?: Tone.Unit.Time,
+    velocity = 1
+  ): this {
+    const noteList = Array.isArray(notes) ? notes : [notes];
+    const hitTime = time ?? Tone.now();
+
+    noteList.forEach(note => {
+      switch (Tone.Frequency(note).toNote()) {
+        case 'C2':
+          this.kick.triggerAttackRelease('C1', '8n', hitTime, velocity);
+          break;
+        case 'D2':
+          this.snare.triggerAttackRelease('16n', hitTime, velocity);
+          break;
+        case 'E2':
+          this.hihat.triggerAttackRelease('C4', '32n', hitTime, velocity);
+          break;
+        case 'F2':
+          this.clap.triggerAttackRelease('16n', hitTime, velocity);
+          break;
+        default:
+          // Anything else becomes a tuned tom
+          this.kick.triggerAttackRelease(note, '8n', hitTime, velocity);
+      }
+    });
+
+    return this;
+  }
+
+  public releaseAll(): this {
+    return this;
+  }
+
+  public connect(destination: Tone.InputNode): this {
+    this.output.connect(destination);
+    return this;
+  }
+
+  public dispose(): this {
+    [this.kick, this.snare, this.hihat, this.clap, this.snareFilter, this.clapFilter, this.output].forEach(node => node.dispose());
+    return this;
+  }
+}
@@ -0,0 +1,113 @@
+import * as Tone from 'tone';
+import { ClockSettings, DEFAULT_CLOCK_SETTINGS, clampBpm, quantizeTriggerTime } from './ClockSettings';
+
+// Called on every beat while the clock runs (beat 0 is the first beat of the bar)
+export type BeatCallback = (beat: number, beatsPerBar: number) => void;
+
+// A musical clock on Tone's transport with an optional metronome and
+// quantized trigger times
+export class TempoClock {
+  private settings: ClockSettings = { ...DEFAULT_CLOCK_SETTINGS };
+  private click: Tone.MembraneSynth;
+  private beatEventId: number | null = null;
+  private beatCallback: BeatCallback | null = null;
+  private changeCallback: (() => void) | null = null;
+  private running = false; // The transport starts a moment after start() is called
+
+  constructor() {
+    this.click = new Tone.MembraneSynth({
+      pitchDecay: 0.008,
+      octaves: 2,
+      envelope: { attack: 0.001, decay: 0.08, sustain: 0, release: 0.01 },
+      volume: -8
+    });
+    this.applySettings();
+  }
+
+  // Route the metronome click
+  public connect(destination: Tone.InputNode): this {
+    this.click.connect(destination);
+    return this;
+  }
+
+  public getSettings(): ClockSettings {
+    return { ...this.settings };
+  }
+
+  public setSettings(settings: Partial<ClockSettings>): void {
+    this.settings = { ...this.settings, ...settings, bpm: clampBpm(settings.bpm ?? this.settings.bpm) };
+    this.applySettings();
+    this.changeCallback?.();
+  }
+
+  public setBeatCallback(callback: BeatCallback | null): void {
+    this.beatCallback = callback;
+  }
+
+  // Called when the clock starts or stops or its settings change
+  public setChangeCallback(callback: (() => void) | null): void {
+    this.changeCallback = callback;
+  }
+
+  public isRunning(): boolean {
+    return this.running;
+  }
+
+  public start(): void {
+    if (this.running) return;
+
+    this.running = true;
+    this.beatEventId = Tone.Transport.scheduleRepeat(time => this.onBeat(time), '4n', 0);
+    Tone.Transport.start('+0.05');
+    this.changeCallback?.();
+  }
+
+  public stop(): void {
+    const wasRunning = this.running;
+    this.running = false;
+    Tone.Transport.stop();
+    if (this.beatEventId !== null) {
+      Tone.Transport.clear(this.beatEventId);
+      this.beatEventId = null;
+    }
+    if (wasRunning) {
+      this.changeCallback?.();
+    }
+  }
+
+  // When a gesture should sound: now, or nudged towards the next grid point
+  // if the clock is running and quantizing
+  public getTriggerTime(): number {
+    const now = Tone.now();
+    const { quantize, quantizeStrength } = this.settings;
+    if (quantize === 'off' || Tone.Transport.state !== 'started') {
+      return now;
+    }
+    return quantizeTriggerTime(now, Tone.Transport.nextSubdivision(quantize), quantizeStrength);
+  }
+
+  private applySettings(): void {
+    Tone.Transport.bpm.value = this.settings.bpm;
+    Tone.Transport.timeSignature = this.settings.beatsPerBar;
+  }
+
+  private onBeat(time: number): void {
+    const { metronome, beatsPerBar } = this.settings;
+    const beat = Math.floor(Tone.Transport.getTicksAtTime(time) / Tone.Transport.PPQ) % beatsPerBar;
+
+    if (metronome === 'audible' || metronome === 'both') {
+      // Accent the first beat of each bar
+      this.click.triggerAttackRelease(beat === 0 ? 'C6' : 'G5', '32n', time, beat === 0 ? 1 : 0.6);
+    }
+
+    if (this.beatCallback && (metronome === 'visual' || metronome === 'both')) {
+      const callback = this.beatCallback;
+      Tone.Draw.schedule(() => callback(beat, beatsPerBar), time);
+    }
+  }
+
+  public dispose(): void {
+    this.stop();
+    this.click.dispose();
+  }
+}
@@ -0,0 +1,47 @@
+import { TempoFollower, tempoFromInterval } from './TempoFollower';
+
+// Trigger every `interval` seconds, `count` times
+const play = (follower: TempoFollower, start: number, interval: number, count: number) => {
+  for (let i = 0; i < count; i++) {
+    follower.addTrigger(start + i * interval);
+  }
+};
+
+test('reads a gap as the nearest of half, the same or double the tempo', () => {
+  expect(tempoFromInterval(0.5, 120)).toBe(120);
+  expect(tempoFromInterval(1, 120)).toBe(120);   // Every other beat
+  expect(tempoFromInterval(0.25, 120)).toBe(120); // Twice a beat
+  expect(tempoFromInterval(0.6, 120)).toBe(100);
+});
+
+test('moves towards the tempo the user is playing at', () => {
+  const follower = new TempoFollower(90);
+  play(follower, 0, 0.5, 8);
+  expect(follower.getBpm()).toBeGreaterThanOrEqual(118);
+  expect(follower.getBpm()).toBeLessThanOrEqual(120);
+
+  // Slowing down pulls the tempo down again
+  play(follower, 10, 0.6, 8);
+  expect(follower.getBpm()).toBeGreaterThanOrEqual(99);
+  expect(follower.getBpm()).toBeLessThanOrEqual(102);
+});
+
+test('ignores double triggers and the gap after a pause', () => {
+  const follower = new TempoFollower(100);
+  play(follower, 0, 0.6, 4);
+  follower.addTrigger(1.85);
+  follower.addTrigger(10);
+  expect(follower.getBpm()).toBe(100);
+});
+
+test('is paused before the first trigger and after a few quiet beats', () => {
+  const follower = new TempoFollower(120);
+  expect(follower.isPaused(0, 4)).toBe(true);
+
+  follower.addTrigger(1);
+  expect(follower.isPaused(2.9, 4)).toBe(false);
+  expect(follower.isPaused(3.1, 4)).toBe(true);
+
+  follower.reset(120);
+  expect(follower.isPaused(1.5, 4)).toBe(true);
+});
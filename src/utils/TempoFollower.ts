@@ -0,0 +1,72 @@
+import { MAX_BPM, MIN_BPM, clampBpm } from './ClockSettings';
+
+// Gaps between triggers shorter than this are flams or double triggers (seconds)
+const MIN_INTERVAL = 0.2;
+
+// Gaps longer than this are pauses, not beats (seconds)
+const MAX_INTERVAL = 2.5;
+
+// How many recent gaps the estimate is based on
+const HISTORY = 6;
+
+// How far each new estimate pulls the tempo (0-1), so one late trigger
+// doesn't jolt the band
+const SMOOTHING = 0.5;
+
+// Tempo that a gap between triggers is closest to. The user may move on every
+// beat, every other beat or twice a beat, so a gap can mean half, the same or
+// double the current tempo.
+export const tempoFromInterval = (interval: number, currentBpm: number): number => {
+  let bpm = 60 / interval;
+  while (bpm < currentBpm / Math.SQRT2 && bpm * 2 <= MAX_BPM) bpm *= 2;
+  while (bpm > currentBpm * Math.SQRT2 && bpm / 2 >= MIN_BPM) bpm /= 2;
+  return bpm;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Estimates the tempo from when the user's intentional triggers happen
+export class TempoFollower {
+  private bpm: number;
+  private lastTrigger: number | null = null;
+  private tempos: number[] = [];
+
+  constructor(bpm: number) {
+    this.bpm = clampBpm(bpm);
+  }
+
+  public getBpm(): number {
+    return this.bpm;
+  }
+
+  // Forget the triggers so far and start from a tempo
+  public reset(bpm: number): void {
+    this.bpm = clampBpm(bpm);
+    this.lastTrigger = null;
+    this.tempos = [];
+  }
+
+  // Note a trigger (in seconds) and return the updated tempo
+  public addTrigger(time: number): number {
+    const interval = this.lastTrigger === null ? null : time - this.lastTrigger;
+    if (interval !== null && interval < MIN_INTERVAL) {
+      return this.bpm;
+    }
+    this.lastTrigger = time;
+
+    if (interval !== null && interval <= MAX_INTERVAL) {
+      this.tempos = [...this.tempos, tempoFromInterval(interval, this.bpm)].slice(-HISTORY);
+      this.bpm = clampBpm(this.bpm + (median(this.tempos) - this.bpm) * SMOOTHING);
+    }
+    return this.bpm;
+  }
+
+  // Whether nothing has been triggered for this many beats (or at all)
+  public isPaused(time: number, beats: number): boolean {
+    return this.lastTrigger === null || time - this.lastTrigger > beats * 60 / this.bpm;
+  }
+}
@@ -0,0 +1,111 @@
+import * as Tone from 'tone';
+import { ScaleName, midiToFrequency, nearestPitchClass, noteToMidi, quantizeToScale } from './musicTheory';
+
+export interface ThereminSettings {
+  scale: ScaleName;
+  lowestNote: string;
+  octaves: number;
+  glideTime: number; // seconds
+}
+
+const DEFAULT_SETTINGS: ThereminSettings = {
+  scale: 'pentatonic',
+  lowestNote: 'C3',
+  octaves: 2,
+  glideTime: 0.15
+};
+
+// How long a keypoint can go unseen before the note fades out (ms)
+const RELEASE_TIMEOUT = 400;
+
+// A single sustained voice whose pitch glides with the height of a keypoint
+export class Theremin {
+  private synth: Tone.Synth;
+  private settings: ThereminSettings = { ...DEFAULT_SETTINGS };
+  private tonic = 0; // Pitch class of the session key
+  private currentMidi: number | null = null;
+  private releaseTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    this.synth = new Tone.Synth({
+      oscillator: { type: 'sine' },
+      envelope: { attack: 0.1, decay: 0.2, sustain: 0.9, release: 0.8 },
+      portamento: DEFAULT_SETTINGS.glideTime,
+      volume: -10
+    });
+  }
+
+  public get volume(): Tone.Param<'decibels'> {
+    return this.synth.volume;
+  }
+
+  // Route the theremin's output
+  public connect(destination: Tone.InputNode): this {
+    this.synth.connect(destination);
+    return this;
+  }
+
+  public getSettings(): ThereminSettings {
+    return { ...this.settings };
+  }
+
+  public setSettings(settings: Partial<ThereminSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+    this.synth.portamento = this.settings.glideTime;
+  }
+
+  // Build the scale on the session key's tonic (a pitch class, C = 0)
+  public setTonic(pitchClass: number): void {
+    this.tonic = pitchClass;
+  }
+
+  // Bend the voice away from the quantized pitch (cents)
+  public setDetune(cents: number): void {
+    this.synth.detune.rampTo(cents, 0.05);
+  }
+
+  // Check if a note is currently sounding
+  public isPlaying(): boolean {
+    return this.currentMidi !== null;
+  }
+
+  // Set the pitch from a 0-1 value (0 = bottom of the range, 1 = top).
+  // Starts a sustained note if needed, otherwise glides to the new pitch.
+  public update(value: number, velocity: number = 0.6): void {
+    // The range starts on the tonic nearest the lowest note, so the scale
+    // always starts on the key's first degree
+    const root = nearestPitchClass(noteToMidi(this.settings.lowestNote), this.tonic);
+    const midi = quantizeToScale(value, root, this.settings.scale, this.settings.octaves);
+
+    if (this.currentMidi === null) {
+      this.synth.triggerAttack(midiToFrequency(midi), Tone.now(), velocity);
+    } else if (midi !== this.currentMidi) {
+      this.synth.setNote(midiToFrequency(midi));
+    }
+    this.currentMidi = midi;
+
+    // Keep sustaining while updates keep arriving
+    if (this.releaseTimer) {
+      clearTimeout(this.releaseTimer);
+    }
+    this.releaseTimer = setTimeout(() => this.release(), RELEASE_TIMEOUT);
+  }
+
+  // Fade out the current note
+  public release(): void {
+    if (this.releaseTimer) {
+      clearTimeout(this.releaseTimer);
+      this.releaseTimer = null;
+    }
+
+    if (this.currentMidi !== null) {
+      this.synth.triggerRelease(Tone.now());
+      this.currentMidi = null;
+    }
+  }
+
+  public dispose(): void {
+    this.release();
+    this.synth.dispose();
+  }
+}
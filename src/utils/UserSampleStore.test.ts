@@ -0,0 +1,63 @@
+import { UserSampleStore, STORED_SAMPLE_RATE, MAX_SAMPLE_DURATION } from './UserSampleStore';
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+test('saves recordings per user and loads them back as mono audio', () => {
+  const left = new Float32Array(STORED_SAMPLE_RATE).map((_, i) => Math.sin(i / 10) * 0.5);
+  const right = left.map(v => -v);
+
+  const saved = new UserSampleStore('alex').save('Dog bark', [left, left], STORED_SAMPLE_RATE);
+  new UserSampleStore('alex').save('Silence', [left, right], STORED_SAMPLE_RATE);
+  expect(saved).not.toBeNull();
+
+  const store = new UserSampleStore('alex');
+  expect(store.list().map(s => s.name)).toEqual(['Dog bark', 'Silence']);
+  expect(new UserSampleStore('sam').list()).toEqual([]);
+
+  const loaded = store.load(saved!.id)!;
+  expect(loaded.duration).toBe(1);
+  expect(loaded.sampleRate).toBe(STORED_SAMPLE_RATE);
+  expect(loaded.samples[100]).toBeCloseTo(left[100], 3);
+});
+
+test('resamples and caps long recordings', () => {
+  const tenSeconds = new Float32Array(44100 * 10);
+  const saved = new UserSampleStore('alex').save('Long', [tenSeconds], 44100)!;
+  expect(saved.duration).toBe(MAX_SAMPLE_DURATION);
+});
+
+test('refuses clips too short to play', () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  const store = new UserSampleStore('alex');
+
+  expect(store.save('Empty', [new Float32Array(0)], 44100)).toBeNull();
+  expect(store.save('Click', [new Float32Array(100)], 44100)).toBeNull();
+  expect(store.list()).toEqual([]);
+  expect(localStorage.length).toBe(0);
+});
+
+test('deletes recordings and their audio', () => {
+  const store = new UserSampleStore('alex');
+  const saved = store.save('Clap', [new Float32Array(STORED_SAMPLE_RATE / 10)], STORED_SAMPLE_RATE)!;
+
+  expect(store.delete(saved.id)).toBe(true);
+  expect(store.load(saved.id)).toBeUndefined();
+  expect(localStorage.length).toBe(1); // Only the (now empty) index remains
+});
+
+test('reports storage errors when deleting instead of throwing', () => {
+  const store = new UserSampleStore('alex');
+  const saved = store.save('Clap', [new Float32Array(STORED_SAMPLE_RATE / 10)], STORED_SAMPLE_RATE)!;
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  const setItem = jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+    throw new Error('SecurityError');
+  });
+
+  expect(store.delete(saved.id)).toBe(false);
+
+  setItem.mockRestore();
+  expect(store.list().map(s => s.name)).toEqual(['Clap']);
+  expect(store.load(saved.id)).toBeDefined();
+});
@@ -0,0 +1,130 @@
+import { arrayBufferToBase64, base64ToArrayBuffer, decodeWav, encodeWav, toMono } from './wav';
+
+// Recordings are stored as mono WAV at a reduced rate to fit in localStorage
+export const STORED_SAMPLE_RATE = 22050;
+
+// Longest clip we keep (seconds)
+export const MAX_SAMPLE_DURATION = 5;
+
+// Shortest clip worth playing (seconds); Web Audio can't make an empty buffer
+export const MIN_SAMPLE_DURATION = 0.01;
+
+// Whether raw audio is long enough to save or play
+export const isPlayableClip = (channels: Float32Array[], sampleRate: number): boolean => {
+  return channels.length > 0 && channels[0].length >= MIN_SAMPLE_DURATION * sampleRate;
+};
+
+export interface UserSampleInfo {
+  id: string;
+  name: string;
+  duration: number;
+  createdAt: number;
+}
+
+export interface UserSample extends UserSampleInfo {
+  sampleRate: number;
+  samples: Float32Array;
+}
+
+// Keeps a user's recorded sounds with their profile in localStorage
+export class UserSampleStore {
+  private userId: string;
+
+  constructor(userId: string) {
+    this.userId = userId;
+  }
+
+  // List the user's recordings (without the audio data)
+  public list(): UserSampleInfo[] {
+    try {
+      const stored = localStorage.getItem(this.indexKey());
+      const parsed = stored ? JSON.parse(stored) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error('Error reading recorded sounds:', error);
+      return [];
+    }
+  }
+
+  // Load one recording with its audio data
+  public load(id: string): UserSample | undefined {
+    const info = this.list().find(sample => sample.id === id);
+    const wav = localStorage.getItem(this.sampleKey(id));
+    if (!info || !wav) {
+      return undefined;
+    }
+
+    try {
+      const { channels, sampleRate } = decodeWav(base64ToArrayBuffer(wav));
+      return { ...info, sampleRate, samples: channels[0] };
+    } catch (error) {
+      console.error(`Error decoding recorded sound ${id}:`, error);
+      return undefined;
+    }
+  }
+
+  // Load every recording with its audio data
+  public loadAll(): UserSample[] {
+    return this.list()
+      .map(info => this.load(info.id))
+      .filter((sample): sample is UserSample => sample !== undefined);
+  }
+
+  // Save a recording. Returns null if it is too short or storage is full.
+  public save(name: string, channels: Float32Array[], sampleRate: number): UserSample | null {
+    if (!isPlayableClip(channels, sampleRate)) {
+      console.error('Recorded sound is too short to save');
+      return null;
+    }
+
+    const mono = toMono(channels, sampleRate, STORED_SAMPLE_RATE)
+      .slice(0, MAX_SAMPLE_DURATION * STORED_SAMPLE_RATE);
+
+    const sample: UserSample = {
+      id: `sample-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name: name.trim() || 'My sound',
+      duration: mono.length / STORED_SAMPLE_RATE,
+      createdAt: Date.now(),
+      sampleRate: STORED_SAMPLE_RATE,
+      samples: mono
+    };
+
+    try {
+      const wav = arrayBufferToBase64(encodeWav([mono], STORED_SAMPLE_RATE));
+      localStorage.setItem(this.sampleKey(sample.id), wav);
+
+      const { samples, sampleRate: rate, ...info } = sample;
+      localStorage.setItem(this.indexKey(), JSON.stringify([...this.list(), info]));
+      return sample;
+    } catch (error) {
+      console.error('Error saving recorded sound (storage may be full):', error);
+      localStorage.removeItem(this.sampleKey(sample.id));
+      return null;
+    }
+  }
+
+  // Delete a recording
+  public delete(id: string): boolean {
+    const samples = this.list();
+    const remaining = samples.filter(s => s.id !== id);
+    if (remaining.length === samples.length) return false;
+
+    try {
+      // Update the index first, so a failure never leaves it listing a sound without audio
+      localStorage.setItem(this.indexKey(), JSON.stringify(remaining));
+      localStorage.removeItem(this.sampleKey(id));
+      return true;
+    } catch (error) {
+      console.error('Error deleting recorded sound:', error);
+      return false;
+    }
+  }
+
+  private indexKey(): string {
+    return `user-samples-${this.userId}`;
+  }
+
+  private sampleKey(id: string): string {
+    return `user-sample-${this.userId}-${id}`;
+  }
+}
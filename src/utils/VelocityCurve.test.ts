@@ -0,0 +1,42 @@
+import {
+  DEFAULT_VELOCITY_CURVE,
+  applyVelocityCurve,
+  learnVelocityRange,
+  loadVelocityCurve,
+  saveVelocityCurve
+} from './VelocityCurve';
+
+const curve = { ...DEFAULT_VELOCITY_CURVE, inputMin: 10, inputMax: 110 };
+
+test('maps velocity across the input range with each curve', () => {
+  expect(applyVelocityCurve(60, curve)).toBe(0.5);
+  expect(applyVelocityCurve(5, curve)).toBe(0);
+  expect(applyVelocityCurve(500, curve)).toBe(1);
+  expect(applyVelocityCurve(35, { ...curve, type: 'soft' })).toBe(0.5);
+  expect(applyVelocityCurve(60, { ...curve, type: 'hard' })).toBe(0.25);
+  expect(applyVelocityCurve(500, { ...curve, type: 'fixed', fixedVelocity: 0.4 })).toBe(0.4);
+});
+
+test('follows custom breakpoints', () => {
+  const custom = {
+    ...curve,
+    type: 'custom' as const,
+    breakpoints: [{ input: 1, output: 1 }, { input: 0.2, output: 0.5 }]
+  };
+  expect(applyVelocityCurve(10, custom)).toBe(0.5);
+  expect(applyVelocityCurve(70, custom)).toBeCloseTo(0.75);
+  expect(applyVelocityCurve(110, custom)).toBe(1);
+});
+
+test('learns an input range from calibration velocities', () => {
+  const velocities = [1, 20, 22, 25, 30, 35, 40, 45, 50, 400];
+  expect(learnVelocityRange(velocities)).toEqual({ inputMin: 20, inputMax: 50 });
+  expect(learnVelocityRange([10, 20])).toBeNull();
+});
+
+test('stores a curve per user', () => {
+  localStorage.clear();
+  saveVelocityCurve('sam', { ...curve, type: 'soft' });
+  expect(loadVelocityCurve('sam')).toEqual({ ...curve, type: 'soft' });
+  expect(loadVelocityCurve('alex')).toEqual(DEFAULT_VELOCITY_CURVE);
+});
@@ -0,0 +1,117 @@
+import { loadStoredSettings, saveStoredSettings, storedChoice, storedNumber } from './storedSettings';
+
+// Maps how fast someone moves to how loud a sound plays, per user
+
+export type VelocityCurveType = 'linear' | 'soft' | 'hard' | 'fixed' | 'custom';
+
+export interface VelocityBreakpoint {
+  input: number;  // 0-1 across the input range
+  output: number; // 0-1 loudness
+}
+
+export interface VelocityCurveSettings {
+  type: VelocityCurveType;
+  // Movement speeds (pixels per second) treated as the softest and hardest movements
+  inputMin: number;
+  inputMax: number;
+  // Loudness for the 'fixed' curve
+  fixedVelocity: number;
+  // Points for the 'custom' curve, joined by straight lines
+  breakpoints: VelocityBreakpoint[];
+}
+
+export const VELOCITY_CURVE_TYPES: VelocityCurveType[] = ['linear', 'soft', 'hard', 'fixed', 'custom'];
+
+export const DEFAULT_VELOCITY_CURVE: VelocityCurveSettings = {
+  type: 'linear',
+  inputMin: 0,
+  inputMax: 50,
+  fixedVelocity: 0.7,
+  breakpoints: [
+    { input: 0, output: 0.2 },
+    { input: 0.5, output: 0.6 },
+    { input: 1, output: 1 }
+  ]
+};
+
+// Fewest intentional calibration movements needed to learn a range
+const MIN_CALIBRATION_SAMPLES = 5;
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+// Follow straight lines between breakpoints (flat beyond the first and last)
+const interpolate = (breakpoints: VelocityBreakpoint[], x: number): number => {
+  const points = [...breakpoints].sort((a, b) => a.input - b.input);
+  if (points.length === 0) return x;
+  if (x <= points[0].input) return points[0].output;
+
+  for (let i = 1; i < points.length; i++) {
+    if (x <= points[i].input) {
+      const from = points[i - 1];
+      const to = points[i];
+      const span = to.input - from.input;
+      return span === 0 ? to.output : from.output + (to.output - from.output) * ((x - from.input) / span);
+    }
+  }
+  return points[points.length - 1].output;
+};
+
+// Turn a raw movement velocity into a 0-1 loudness
+export const applyVelocityCurve = (velocity: number, curve: VelocityCurveSettings): number => {
+  if (curve.type === 'fixed') {
+    return clamp01(curve.fixedVelocity);
+  }
+
+  const range = curve.inputMax - curve.inputMin;
+  const x = range > 0 ? clamp01((velocity - curve.inputMin) / range) : 1;
+
+  switch (curve.type) {
+    case 'soft':
+      // Small movements come through louder
+      return Math.sqrt(x);
+    case 'hard':
+      // It takes a big movement to play loudly
+      return x * x;
+    case 'custom':
+      return clamp01(interpolate(curve.breakpoints, x));
+    default:
+      return x;
+  }
+};
+
+// Learn a user's input range from the speeds of their intentional
+// calibration movements, ignoring the slowest and fastest 10%
+export const learnVelocityRange = (velocities: number[]): { inputMin: number; inputMax: number } | null => {
+  const sorted = velocities.filter(v => isFinite(v) && v >= 0).sort((a, b) => a - b);
+  if (sorted.length < MIN_CALIBRATION_SAMPLES) {
+    return null;
+  }
+
+  const percentile = (p: number) => sorted[Math.round(p * (sorted.length - 1))];
+  const inputMin = percentile(0.1);
+  const inputMax = Math.max(percentile(0.9), inputMin + 1);
+  return { inputMin, inputMax };
+};
+
+const storageKey = (userId: string) => `user-velocity-curve-${userId}`;
+
+const isBreakpoint = (value: unknown): value is VelocityBreakpoint => {
+  const point = value as VelocityBreakpoint;
+  return typeof point === 'object' && point !== null && typeof point.input === 'number' && typeof point.output === 'number';
+};
+
+export const loadVelocityCurve = (userId: string): VelocityCurveSettings => {
+  return loadStoredSettings(storageKey(userId), 'velocity curve', DEFAULT_VELOCITY_CURVE, stored => ({
+    type: storedChoice(stored.type, VELOCITY_CURVE_TYPES, DEFAULT_VELOCITY_CURVE.type),
+    inputMin: storedNumber(stored.inputMin, DEFAULT_VELOCITY_CURVE.inputMin),
+    inputMax: storedNumber(stored.inputMax, DEFAULT_VELOCITY_CURVE.inputMax),
+    fixedVelocity: storedNumber(stored.fixedVelocity, DEFAULT_VELOCITY_CURVE.fixedVelocity),
+    breakpoints: Array.isArray(stored.breakpoints) && stored.breakpoints.length > 0 && stored.breakpoints.every(isBreakpoint)
+      ? stored.breakpoints
+      : DEFAULT_VELOCITY_CURVE.breakpoints
+  }));
+};
+
+export const saveVelocityCurve = (userId: string, curve: VelocityCurveSettings): boolean => {
+  return saveStoredSettings(storageKey(userId), 'velocity curve', curve);
+};
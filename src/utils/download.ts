@@ -0,0 +1,15 @@
+// Offer data to the user as a file download
+export const downloadFile = (data: Blob | string, filename: string, mimeType = 'application/octet-stream') => {
+  const blob = typeof data === 'string' ? new Blob([data], { type: mimeType }) : data;
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Give the browser a moment to start the download before releasing the data
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,69 @@
+import { parseMidiFile, writeMidiFile } from './midiFile';
+
+// Build a MIDI file from a header and track byte lists
+const buildFile = (ticksPerBeat: number, tracks: number[][]): ArrayBuffer => {
+  const bytes = [
+    0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6,
+    0, 1, 0, tracks.length, ticksPerBeat >> 8, ticksPerBeat & 0xff
+  ];
+  tracks.forEach(track => {
+    const length = track.length;
+    bytes.push(0x4d, 0x54, 0x72, 0x6b, (length >> 24) & 0xff, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff);
+    bytes.push(...track);
+  });
+  return new Uint8Array(bytes).buffer;
+};
+
+test('reads notes with times from the tempo map', () => {
+  const tempoTrack = [
+    0x00, 0xff, 0x51, 0x03, 0x0f, 0x42, 0x40, // 60 BPM
+    0x00, 0xff, 0x2f, 0x00
+  ];
+  const melodyTrack = [
+    0x00, 0xff, 0x03, 0x04, 0x54, 0x75, 0x6e, 0x65, // name "Tune"
+    0x00, 0x90, 60, 100,   // C4 on
+    0x60, 0x80, 60, 0,     // off after a beat
+    0x00, 0x90, 64, 127,   // E4 on
+    0x00, 67, 64,          // G4 on (running status)
+    0x81, 0x40, 64, 0,     // E4 off (velocity 0) after two beats
+    0x00, 67, 0,
+    0x00, 0xff, 0x2f, 0x00
+  ];
+
+  const midi = parseMidiFile(buildFile(96, [tempoTrack, melodyTrack]));
+  expect(midi.ticksPerBeat).toBe(96);
+  expect(midi.tracks[0].notes).toEqual([]);
+  expect(midi.tracks[1].name).toBe('Tune');
+  expect(midi.tracks[1].notes.map(note => [note.midi, note.time, note.duration])).toEqual([
+    [60, 0, 1],
+    [64, 1, 2],
+    [67, 1, 2]
+  ]);
+  expect(midi.tracks[1].notes[2].velocity).toBeCloseTo(64 / 127);
+});
+
+test('rejects files that are not MIDI', () => {
+  expect(() => parseMidiFile(new Uint8Array(20).buffer)).toThrow('This is not a MIDI file');
+});
+
+test('rejects files that are cut short', () => {
+  const track = [0x00, 0x90, 60, 100, 0x60, 0x80, 60, 0, 0x00, 0xff, 0x2f, 0x00];
+  const whole = buildFile(96, [track]);
+  expect(() => parseMidiFile(whole.slice(0, whole.byteLength - 3))).toThrow('The MIDI file is cut short');
+  expect(() => parseMidiFile(buildFile(96, [[0x00, 0x90, 60]]))).toThrow('The MIDI file is cut short');
+  expect(() => parseMidiFile(buildFile(96, [[0x00, 0xff, 0x03, 0x10, 0x54]]))).toThrow('The MIDI file is cut short');
+});
+
+test('writes files that read back with the same notes', () => {
+  const data = writeMidiFile([
+    { name: 'Melody', channel: 0, notes: [{ midi: 60, time: 0, duration: 0.5, velocity: 1 }, { midi: 62, time: 0.5, duration: 0.25, velocity: 0.5 }] },
+    { name: 'Drums', channel: 9, notes: [{ midi: 36, time: 1.25, duration: 0.1, velocity: 0.8 }] }
+  ], 120);
+
+  const midi = parseMidiFile(data.buffer);
+  expect(midi.tracks).toHaveLength(3);
+  expect(midi.tracks[1].name).toBe('Melody');
+  expect(midi.tracks[1].notes.map(note => [note.midi, note.time, note.duration])).toEqual([[60, 0, 0.5], [62, 0.5, 0.25]]);
+  expect(midi.tracks[1].notes[1].velocity).toBeCloseTo(64 / 127);
+  expect(midi.tracks[2].notes[0]).toMatchObject({ midi: 36, time: 1.25, channel: 9 });
+});
@@ -0,0 +1,274 @@
+// Minimal Standard MIDI File (SMF) reading and writing helpers
+
+export interface MidiNote {
+  midi: number;
+  time: number;     // seconds from the start of the file
+  duration: number; // seconds
+  velocity: number; // 0-1
+  channel: number;
+}
+
+export interface MidiTrack {
+  name: string;
+  notes: MidiNote[];
+}
+
+export interface MidiFile {
+  ticksPerBeat: number;
+  tracks: MidiTrack[];
+}
+
+// A track to write: its notes all go on one MIDI channel (0-15, drums are 9)
+export interface MidiTrackData {
+  name: string;
+  channel: number;
+  notes: Array<Pick<MidiNote, 'midi' | 'time' | 'duration' | 'velocity'>>;
+}
+
+// Microseconds per quarter note when a file doesn't set a tempo (120 BPM)
+const DEFAULT_TEMPO = 500000;
+
+// Throw if a read of `length` bytes at `offset` would run past `end`
+const checkLength = (offset: number, length: number, end: number) => {
+  if (offset + length > end) {
+    throw new Error('The MIDI file is cut short');
+  }
+};
+
+interface RawNote {
+  midi: number;
+  startTick: number;
+  endTick: number;
+  velocity: number;
+  channel: number;
+}
+
+interface RawTrack {
+  name: string;
+  notes: RawNote[];
+  tempos: Array<{ tick: number; tempo: number }>;
+}
+
+// Parse a MIDI file into tracks of notes with times in seconds.
+// Throws an Error with a readable message if the file can't be read.
+export const parseMidiFile = (data: ArrayBuffer): MidiFile => {
+  const view = new DataView(data);
+  let offset = 0;
+
+  const readString = (length: number): string => {
+    checkLength(offset, length, data.byteLength);
+    let value = '';
+    for (let i = 0; i < length; i++) {
+      value += String.fromCharCode(view.getUint8(offset + i));
+    }
+    offset += length;
+    return value;
+  };
+
+  if (data.byteLength < 14 || readString(4) !== 'MThd') {
+    throw new Error('This is not a MIDI file');
+  }
+
+  const headerLength = view.getUint32(offset);
+  const trackCount = view.getUint16(offset + 6);
+  const division = view.getUint16(offset + 8);
+  offset += 4 + headerLength;
+
+  if (division & 0x8000) {
+    throw new Error('MIDI files timed in SMPTE frames are not supported');
+  }
+
+  const rawTracks: RawTrack[] = [];
+  for (let i = 0; i < trackCount; i++) {
+    const chunkType = readString(4);
+    checkLength(offset, 4, data.byteLength);
+    const length = view.getUint32(offset);
+    offset += 4;
+    checkLength(offset, length, data.byteLength);
+
+    // Skip any chunks we don't know about
+    if (chunkType === 'MTrk') {
+      rawTracks.push(readTrack(view, offset, offset + length));
+    }
+    offset += length;
+  }
+
+  // Tempo changes can be in any track (usually the first) and apply to all
+  const tempos = rawTracks
+    .flatMap(track => track.tempos)
+    .sort((a, b) => a.tick - b.tick);
+  const toSeconds = ticksToSeconds(tempos, division);
+
+  return {
+    ticksPerBeat: division,
+    tracks: rawTracks.map(track => ({
+      name: track.name,
+      notes: track.notes
+        .map(note => ({
+          midi: note.midi,
+          time: toSeconds(note.startTick),
+          duration: toSeconds(note.endTick) - toSeconds(note.startTick),
+          velocity: note.velocity,
+          channel: note.channel
+        }))
+        .sort((a, b) => a.time - b.time || a.midi - b.midi)
+    }))
+  };
+};
+
+// Read the events of one track chunk
+const readTrack = (view: DataView, start: number, end: number): RawTrack => {
+  const track: RawTrack = { name: '', notes: [], tempos: [] };
+  const openNotes = new Map<number, RawNote[]>(); // by channel * 128 + note
+  let offset = start;
+  let tick = 0;
+  let runningStatus = 0;
+
+  const readByte = (): number => {
+    checkLength(offset, 1, end);
+    return view.getUint8(offset++);
+  };
+
+  const readVariableLength = (): number => {
+    let value = 0;
+    let byte: number;
+    do {
+      byte = readByte();
+      value = (value << 7) | (byte & 0x7f);
+    } while (byte & 0x80);
+    return value;
+  };
+
+  const endNote = (channel: number, midi: number) => {
+    const open = openNotes.get(channel * 128 + midi);
+    const note = open?.shift();
+    if (note) {
+      note.endTick = tick;
+      track.notes.push(note);
+    }
+  };
+
+  while (offset < end) {
+    tick += readVariableLength();
+
+    checkLength(offset, 1, end);
+    let status = view.getUint8(offset);
+    if (status & 0x80) {
+      offset++;
+    } else {
+      // Running status: reuse the last channel message type
+      status = runningStatus;
+    }
+
+    if (status === 0xff) {
+      const type = readByte();
+      const length = readVariableLength();
+      checkLength(offset, length, end);
+      if (type === 0x03 && !track.name) {
+        track.name = String.fromCharCode(...Array.from(new Uint8Array(view.buffer, view.byteOffset + offset, length)));
+      } else if (type === 0x51 && length === 3) {
+        const tempo = (view.getUint8(offset) << 16) | (view.getUint8(offset + 1) << 8) | view.getUint8(offset + 2);
+        track.tempos.push({ tick, tempo });
+      }
+      offset += length;
+    } else if (status === 0xf0 || status === 0xf7) {
+      const length = readVariableLength();
+      checkLength(offset, length, end);
+      offset += length;
+    } else {
+      runningStatus = status;
+      const type = status & 0xf0;
+      const channel = status & 0x0f;
+      const data1 = readByte();
+      const data2 = type === 0xc0 || type === 0xd0 ? 0 : readByte();
+
+      if (type === 0x90 && data2 > 0) {
+        const key = channel * 128 + data1;
+        const note = { midi: data1, startTick: tick, endTick: tick, velocity: data2 / 127, channel };
+        openNotes.set(key, [...(openNotes.get(key) || []), note]);
+      } else if (type === 0x80 || type === 0x90) {
+        // Note-on with velocity 0 is a note-off
+        endNote(channel, data1);
+      }
+    }
+  }
+
+  // Close anything left sounding at the end of the track
+  openNotes.forEach((notes, key) => notes.forEach(() => endNote(Math.floor(key / 128), key % 128)));
+  return track;
+};
+
+// Build a function converting ticks to seconds through a tempo map
+const ticksToSeconds = (tempos: Array<{ tick: number; tempo: number }>, ticksPerBeat: number) => {
+  return (tick: number): number => {
+    let seconds = 0;
+    let lastTick = 0;
+    let tempo = DEFAULT_TEMPO;
+
+    for (const change of tempos) {
+      if (change.tick >= tick) break;
+      seconds += ((change.tick - lastTick) * tempo) / ticksPerBeat / 1000000;
+      lastTick = change.tick;
+      tempo = change.tempo;
+    }
+    return seconds + ((tick - lastTick) * tempo) / ticksPerBeat / 1000000;
+  };
+};
+
+// Write tracks of notes (times in seconds) as a format 1 MIDI file at a fixed tempo
+export const writeMidiFile = (tracks: MidiTrackData[], bpm: number, ticksPerBeat: number = 480): Uint8Array => {
+  const toTicks = (seconds: number) => Math.max(Math.round((seconds * bpm / 60) * ticksPerBeat), 0);
+  const tempo = Math.round(60000000 / bpm);
+
+  const tempoTrack = [
+    0x00, 0xff, 0x51, 0x03, (tempo >> 16) & 0xff, (tempo >> 8) & 0xff, tempo & 0xff,
+    0x00, 0xff, 0x2f, 0x00
+  ];
+
+  const noteTracks = tracks.map(track => {
+    const name = Array.from(track.name).map(char => char.charCodeAt(0) & 0x7f);
+    const bytes = [0x00, 0xff, 0x03, ...variableLength(name.length), ...name];
+
+    // Note-offs sort before note-ons at the same tick so repeated notes retrigger
+    const events = track.notes.flatMap(note => {
+      const velocity = Math.min(Math.max(Math.round(note.velocity * 127), 1), 127);
+      const start = toTicks(note.time);
+      const end = Math.max(toTicks(note.time + note.duration), start + 1);
+      return [
+        { tick: start, data: [0x90 | track.channel, note.midi, velocity] },
+        { tick: end, data: [0x80 | track.channel, note.midi, 0] }
+      ];
+    }).sort((a, b) => a.tick - b.tick || (a.data[0] & 0xf0) - (b.data[0] & 0xf0));
+
+    let lastTick = 0;
+    events.forEach(event => {
+      bytes.push(...variableLength(event.tick - lastTick), ...event.data);
+      lastTick = event.tick;
+    });
+    bytes.push(0x00, 0xff, 0x2f, 0x00);
+    return bytes;
+  });
+
+  const trackCount = noteTracks.length + 1;
+  const bytes = [
+    0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6,
+    0, 1, trackCount >> 8, trackCount & 0xff, ticksPerBeat >> 8, ticksPerBeat & 0xff
+  ];
+  [tempoTrack, ...noteTracks].forEach(track => {
+    const length = track.length;
+    bytes.push(0x4d, 0x54, 0x72, 0x6b, (length >> 24) & 0xff, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff);
+    track.forEach(byte => bytes.push(byte)); // Long tracks are too big to spread
+  });
+  return new Uint8Array(bytes);
+};
+
+// Encode a number as a MIDI variable-length quantity
+const variableLength = (value: number): number[] => {
+  const bytes = [value & 0x7f];
+  let remaining = value >> 7;
+  while (remaining > 0) {
+    bytes.unshift((remaining & 0x7f) | 0x80);
+    remaining >>= 7;
+  }
+  return bytes;
+};
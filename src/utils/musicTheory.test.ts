@@ -0,0 +1,48 @@
+import {
+  getKeyTransposition, getScaleNotes, midiToFrequency, midiToNote, nearestPitchClass, noteToMidi, quantizeToScale, snapToScale,
+  transposeNote
+} from './musicTheory';
+
+test('converts between note names and MIDI numbers', () => {
+  expect(noteToMidi('C4')).toBe(60);
+  expect(noteToMidi('F#3')).toBe(54);
+  expect(noteToMidi('Bb2')).toBe(46);
+  expect(midiToNote(61)).toBe('C#4');
+  expect(midiToFrequency(69)).toBe(440);
+  expect(() => noteToMidi('H2')).toThrow('Invalid note: H2');
+});
+
+test('lists scale notes across octaves including the top root', () => {
+  expect(getScaleNotes(60, 'pentatonic', 1)).toEqual([60, 62, 64, 67, 69, 72]);
+  expect(getScaleNotes(48, 'major', 2)).toHaveLength(15);
+});
+
+test('quantizes a 0-1 value to evenly sized scale zones', () => {
+  expect(quantizeToScale(0, 60, 'pentatonic', 1)).toBe(60);
+  expect(quantizeToScale(0.5, 60, 'pentatonic', 1)).toBe(67);
+  expect(quantizeToScale(1, 60, 'pentatonic', 1)).toBe(72);
+  expect(quantizeToScale(1.7, 60, 'blues', 1)).toBe(72);
+});
+
+test('transposes presets written in C into other keys', () => {
+  expect(getKeyTransposition('C')).toBe(0);
+  expect(getKeyTransposition('F#')).toBe(6);
+  expect(getKeyTransposition('G')).toBe(-5);
+  expect(getKeyTransposition('Bb')).toBe(-2);
+  expect(transposeNote('C4', -5)).toBe('G3');
+});
+
+test('snaps notes to the nearest scale tone', () => {
+  expect(snapToScale(61, 0, 'major')).toBe(60); // C# -> C
+  expect(snapToScale(66, 7, 'major')).toBe(66); // F# is in G major
+  expect(snapToScale(65, 7, 'major')).toBe(64); // F -> E in G major
+  expect(snapToScale(63, 9, 'minor')).toBe(62); // D# -> D in A minor
+});
+
+test('finds the nearest note of a pitch class', () => {
+  expect(nearestPitchClass(55, 0)).toBe(60); // G3 -> C4
+  expect(nearestPitchClass(48, 2)).toBe(50); // C3 -> D3
+  expect(nearestPitchClass(48, 11)).toBe(47); // C3 -> B2
+  expect(nearestPitchClass(48, 6)).toBe(54); // Up on ties, like the key transposition
+  expect(nearestPitchClass(57, 9)).toBe(57);
+});
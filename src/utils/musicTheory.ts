@@ -0,0 +1,105 @@
+// Note names, scales and pitch helpers shared by the sound engine
+
+export const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const FLAT_TO_SHARP: Record<string, string> = {
+  Db: 'C#', Eb: 'D#', Fb: 'E', Gb: 'F#', Ab: 'G#', Bb: 'A#', Cb: 'B'
+};
+
+export type ScaleName = 'chromatic' | 'major' | 'minor' | 'pentatonic' | 'blues';
+
+// Semitone offsets from the root for each scale
+export const SCALES: Record<ScaleName, number[]> = {
+  chromatic: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+  pentatonic: [0, 2, 4, 7, 9],
+  blues: [0, 3, 5, 6, 7, 10]
+};
+
+export const SCALE_NAMES = Object.keys(SCALES) as ScaleName[];
+
+// Get the pitch class (0-11) of a note name without an octave, e.g. "F#" or "Bb"
+export const pitchClassOf = (name: string): number => {
+  const normalized = FLAT_TO_SHARP[name] || name;
+  const index = NOTE_NAMES.indexOf(normalized);
+  if (index === -1) {
+    throw new Error(`Unknown note name: ${name}`);
+  }
+  return index;
+};
+
+// Convert a note like "C4", "F#3" or "Bb2" to a MIDI note number (C4 = 60)
+export const noteToMidi = (note: string): number => {
+  const match = /^([A-G])(#|b)?(-?\d+)$/.exec(note);
+  if (!match) {
+    throw new Error(`Invalid note: ${note}`);
+  }
+
+  const [, letter, accidental = '', octave] = match;
+  let midi = NOTE_NAMES.indexOf(letter) + (parseInt(octave, 10) + 1) * 12;
+  if (accidental === '#') midi += 1;
+  if (accidental === 'b') midi -= 1;
+  return midi;
+};
+
+// Convert a MIDI note number to a note name (using sharps)
+export const midiToNote = (midi: number): string => {
+  const rounded = Math.round(midi);
+  return `${NOTE_NAMES[((rounded % 12) + 12) % 12]}${Math.floor(rounded / 12) - 1}`;
+};
+
+// Convert a MIDI note number to a frequency in Hz (A4 = 440)
+export const midiToFrequency = (midi: number): number => {
+  return 440 * Math.pow(2, (midi - 69) / 12);
+};
+
+// List every MIDI note of a scale from the root up to `octaves` octaves higher (inclusive)
+export const getScaleNotes = (rootMidi: number, scale: ScaleName, octaves: number): number[] => {
+  const notes: number[] = [];
+  for (let octave = 0; octave < octaves; octave++) {
+    SCALES[scale].forEach(interval => notes.push(rootMidi + octave * 12 + interval));
+  }
+  notes.push(rootMidi + octaves * 12);
+  return notes;
+};
+
+// Map a 0-1 value onto the notes of a scale, giving every note an equal-sized zone
+export const quantizeToScale = (value: number, rootMidi: number, scale: ScaleName, octaves: number): number => {
+  const notes = getScaleNotes(rootMidi, scale, Math.max(1, Math.round(octaves)));
+  const clamped = Math.min(Math.max(value, 0), 1);
+  return notes[Math.min(notes.length - 1, Math.floor(clamped * notes.length))];
+};
+
+// Shift a note name by a number of semitones
+export const transposeNote = (note: string, semitones: number): string => {
+  return semitones === 0 ? note : midiToNote(noteToMidi(note) + semitones);
+};
+
+// Semitones from C to a key, picking the closest direction (-5 to +6) so
+// transposed presets stay in roughly the same register
+export const getKeyTransposition = (key: string): number => {
+  const pitchClass = pitchClassOf(key);
+  return pitchClass > 6 ? pitchClass - 12 : pitchClass;
+};
+
+// The note with a pitch class nearest to a MIDI note (going up on ties,
+// like getKeyTransposition)
+export const nearestPitchClass = (midi: number, pitchClass: number): number => {
+  const up = (((pitchClass - midi) % 12) + 12) % 12;
+  return up > 6 ? midi + up - 12 : midi + up;
+};
+
+// Move a MIDI note to the nearest note of a scale (rounding down on ties)
+export const snapToScale = (midi: number, rootPitchClass: number, scale: ScaleName): number => {
+  const intervals = SCALES[scale];
+  for (let distance = 0; distance < 12; distance++) {
+    for (const candidate of [midi - distance, midi + distance]) {
+      const interval = (((candidate - rootPitchClass) % 12) + 12) % 12;
+      if (intervals.includes(interval)) {
+        return candidate;
+      }
+    }
+  }
+  return midi;
+};
@@ -0,0 +1,22 @@
+import { encodeOscMessage } from './osc';
+
+test('encodes the address, type tags and arguments padded to 4 bytes', () => {
+  const message = encodeOscMessage('/note', [
+    { type: 's', value: 'C4' },
+    { type: 'i', value: 60 },
+    { type: 'f', value: 0.5 }
+  ]);
+
+  expect(Array.from(message)).toEqual([
+    0x2f, 0x6e, 0x6f, 0x74, 0x65, 0, 0, 0, // "/note"
+    0x2c, 0x73, 0x69, 0x66, 0, 0, 0, 0,    // ",sif"
+    0x43, 0x34, 0, 0,                      // "C4"
+    0, 0, 0, 60,                           // 60
+    0x3f, 0, 0, 0                          // 0.5
+  ]);
+});
+
+test('adds a full word of padding when a string fills its last word', () => {
+  const message = encodeOscMessage('/abc', []);
+  expect(Array.from(message)).toEqual([0x2f, 0x61, 0x62, 0x63, 0, 0, 0, 0, 0x2c, 0, 0, 0]);
+});
@@ -0,0 +1,36 @@
+// Minimal Open Sound Control (OSC 1.0) message encoding
+
+// OSC arguments need an explicit type: JavaScript numbers could be either
+export type OscArgument =
+  | { type: 'i'; value: number }  // 32-bit integer
+  | { type: 'f'; value: number }  // 32-bit float
+  | { type: 's'; value: string };
+
+// OSC strings are ASCII, null terminated and padded to a multiple of 4 bytes
+const oscString = (value: string): number[] => {
+  const bytes = Array.from(value).map(char => char.charCodeAt(0) & 0x7f);
+  const padded = Math.ceil((bytes.length + 1) / 4) * 4;
+  return [...bytes, ...new Array(padded - bytes.length).fill(0)];
+};
+
+// Encode a message with an address pattern (e.g. "/gesture/movement") and arguments
+export const encodeOscMessage = (address: string, args: OscArgument[]): Uint8Array => {
+  const bytes = [...oscString(address), ...oscString(',' + args.map(arg => arg.type).join(''))];
+  const view = new DataView(new ArrayBuffer(4));
+
+  args.forEach(arg => {
+    if (arg.type === 's') {
+      bytes.push(...oscString(arg.value));
+      return;
+    }
+
+    if (arg.type === 'i') {
+      view.setInt32(0, Math.round(arg.value));
+    } else {
+      view.setFloat32(0, arg.value);
+    }
+    bytes.push(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3));
+  });
+
+  return new Uint8Array(bytes);
+};
@@ -0,0 +1,72 @@
+import {
+  StoredValues,
+  loadStoredSettings,
+  saveStoredSettings,
+  storedBoolean,
+  storedChoice,
+  storedNumber,
+  storedString
+} from './storedSettings';
+
+interface TestSettings {
+  on: boolean;
+  level: number;
+}
+
+const DEFAULTS: TestSettings = { on: false, level: 5 };
+
+const read = (stored: StoredValues): TestSettings => ({
+  on: storedBoolean(stored.on, DEFAULTS.on),
+  level: storedNumber(stored.level, DEFAULTS.level)
+});
+
+const load = () => loadStoredSettings('test-settings', 'test settings', DEFAULTS, read);
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('uses the defaults when nothing is stored', () => {
+  expect(load()).toEqual(DEFAULTS);
+});
+
+test('remembers saved settings', () => {
+  expect(saveStoredSettings('test-settings', 'test settings', { on: true, level: 9 })).toBe(true);
+  expect(load()).toEqual({ on: true, level: 9 });
+});
+
+test('falls back for each missing or invalid value', () => {
+  localStorage.setItem('test-settings', JSON.stringify({ on: 'yes', level: 3 }));
+  expect(load()).toEqual({ on: false, level: 3 });
+
+  localStorage.setItem('test-settings', JSON.stringify([1, 2]));
+  expect(load()).toEqual(DEFAULTS);
+});
+
+test('uses the defaults when the stored text is not JSON', () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  localStorage.setItem('test-settings', '{not json');
+  expect(load()).toEqual(DEFAULTS);
+});
+
+test('reports when settings cannot be saved', () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+    throw new Error('QuotaExceededError');
+  });
+  expect(saveStoredSettings('test-settings', 'test settings', DEFAULTS)).toBe(false);
+});
+
+test('reads values only when they have the right type', () => {
+  expect(storedNumber(NaN, 1)).toBe(1);
+  expect(storedNumber('2', 1)).toBe(1);
+  expect(storedString('/a', null)).toBe('/a');
+  expect(storedString(4, null)).toBeNull();
+  expect(storedString('bad', 'good', value => value.startsWith('g'))).toBe('good');
+  expect(storedChoice('rock', ['pop', 'rock'] as const, 'pop')).toBe('rock');
+  expect(storedChoice('polka', ['pop', 'rock'] as const, 'pop')).toBe('pop');
+});
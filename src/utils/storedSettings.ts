@@ -0,0 +1,56 @@
+// Device-level settings (output levels, ports, bridges) are kept in
+// localStorage as JSON, separately from presets. Each settings module passes
+// a `read` function that checks every stored value and falls back to its
+// default for anything missing, out of date or invalid.
+
+export type StoredValues = Record<string, unknown>;
+
+const isStoredValues = (value: unknown): value is StoredValues =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const loadStoredSettings = <T>(
+  key: string,
+  label: string,
+  defaults: T,
+  read: (stored: StoredValues) => T
+): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    const parsed: unknown = stored ? JSON.parse(stored) : {};
+    return read(isStoredValues(parsed) ? parsed : {});
+  } catch (error) {
+    console.error(`Error reading ${label}:`, error);
+    return { ...defaults };
+  }
+};
+
+export const saveStoredSettings = <T>(key: string, label: string, settings: T): boolean => {
+  try {
+    localStorage.setItem(key, JSON.stringify(settings));
+    return true;
+  } catch (error) {
+    console.error(`Error saving ${label}:`, error);
+    return false;
+  }
+};
+
+// Read one stored value, using the fallback if it's the wrong type
+export const storedBoolean = (value: unknown, fallback: boolean): boolean => {
+  return typeof value === 'boolean' ? value : fallback;
+};
+
+export const storedNumber = (value: unknown, fallback: number): number => {
+  return typeof value === 'number' && !isNaN(value) ? value : fallback;
+};
+
+export const storedString = <T extends string | null>(
+  value: unknown,
+  fallback: T,
+  isValid: (value: string) => boolean = () => true
+): string | T => {
+  return typeof value === 'string' && isValid(value) ? value : fallback;
+};
+
+export const storedChoice = <T extends string>(value: unknown, choices: readonly T[], fallback: T): T => {
+  return choices.includes(value as T) ? value as T : fallback;
+};
@@ -0,0 +1,51 @@
+import { decodeWav, encodeWav, encodeWavParts, toMono } from './wav';
+
+const concat = (parts: ArrayBuffer[]): Uint8Array => {
+  const joined = new Uint8Array(parts.reduce((total, part) => total + part.byteLength, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    joined.set(new Uint8Array(part), offset);
+    offset += part.byteLength;
+  });
+  return joined;
+};
+
+test('writes a 16-bit PCM header for the channels and rate', () => {
+  const view = new DataView(encodeWav([new Float32Array(10), new Float32Array(10)], 48000));
+  const text = (offset: number) => String.fromCharCode(...Array.from(new Uint8Array(view.buffer, offset, 4)));
+
+  expect([text(0), text(8), text(12), text(36)]).toEqual(['RIFF', 'WAVE', 'fmt ', 'data']);
+  expect(view.getUint32(4, true)).toBe(36 + 40);
+  expect(view.getUint16(22, true)).toBe(2);
+  expect(view.getUint32(24, true)).toBe(48000);
+  expect(view.getUint32(28, true)).toBe(48000 * 4);
+  expect(view.getUint16(34, true)).toBe(16);
+  expect(view.getUint32(40, true)).toBe(40);
+});
+
+test('round-trips samples, clipping anything outside -1 to 1', () => {
+  const left = Float32Array.from([0, 0.5, -0.5, 1, -1, 2]);
+  const right = Float32Array.from([0.25, -0.25, 0, 0, 0, -2]);
+  const { channels, sampleRate } = decodeWav(encodeWav([left, right], 22050));
+
+  expect(sampleRate).toBe(22050);
+  const expectClose = (actual: Float32Array, expected: number[]) => {
+    expect(actual).toHaveLength(expected.length);
+    expected.forEach((value, i) => expect(actual[i]).toBeCloseTo(value, 4));
+  };
+  expectClose(channels[0], [0, 0.5, -0.5, 1, -1, 1]);
+  expectClose(channels[1], [0.25, -0.25, 0, 0, 0, -1]);
+});
+
+test('encodes the same file in pieces', () => {
+  const channels = [Float32Array.from({ length: 1000 }, (_, i) => Math.sin(i / 10))];
+  const parts = encodeWavParts(channels, 44100, 300);
+
+  expect(parts).toHaveLength(1 + 4);
+  expect(concat(parts)).toEqual(new Uint8Array(encodeWav(channels, 44100)));
+});
+
+test('mixes down to mono and resamples', () => {
+  const mono = toMono([Float32Array.from([1, 1, 1, 1]), Float32Array.from([0, 0, 0, 0])], 44100, 22050);
+  expect(Array.from(mono)).toEqual([0.5, 0.5]);
+});
@@ -0,0 +1,143 @@
+// Minimal 16-bit PCM WAV encoding/decoding helpers
+
+const BYTES_PER_SAMPLE = 2;
+
+// Write the 44-byte header of a 16-bit PCM WAV file
+const writeWavHeader = (view: DataView, numChannels: number, sampleRate: number, numFrames: number): void => {
+  const dataSize = numFrames * numChannels * BYTES_PER_SAMPLE;
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  // RIFF header
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+
+  // Format chunk
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * BYTES_PER_SAMPLE, true);
+  view.setUint16(32, numChannels * BYTES_PER_SAMPLE, true);
+  view.setUint16(34, BYTES_PER_SAMPLE * 8, true);
+
+  // Sample data follows
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+};
+
+// Write frames [from, to) of the channels as interleaved 16-bit samples
+const writeSamples = (view: DataView, offset: number, channels: Float32Array[], from: number, to: number): void => {
+  for (let frame = from; frame < to; frame++) {
+    for (let channel = 0; channel < channels.length; channel++) {
+      const sample = Math.max(-1, Math.min(1, channels[channel][frame]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += BYTES_PER_SAMPLE;
+    }
+  }
+};
+
+// Encode one or more channels of float samples (-1..1) as a 16-bit PCM WAV file
+export const encodeWav = (channels: Float32Array[], sampleRate: number): ArrayBuffer => {
+  const numFrames = channels.length > 0 ? channels[0].length : 0;
+  const buffer = new ArrayBuffer(44 + numFrames * channels.length * BYTES_PER_SAMPLE);
+  const view = new DataView(buffer);
+  writeWavHeader(view, channels.length, sampleRate, numFrames);
+  writeSamples(view, 44, channels, 0, numFrames);
+  return buffer;
+};
+
+// The same WAV file as encodeWav, in pieces of at most `framesPerPart`
+// frames to join into a Blob, so a long recording never needs one more
+// buffer the size of the whole file
+export const encodeWavParts = (
+  channels: Float32Array[],
+  sampleRate: number,
+  framesPerPart: number = 1 << 16
+): ArrayBuffer[] => {
+  const numFrames = channels.length > 0 ? channels[0].length : 0;
+  const header = new ArrayBuffer(44);
+  writeWavHeader(new DataView(header), channels.length, sampleRate, numFrames);
+
+  const parts = [header];
+  for (let from = 0; from < numFrames; from += framesPerPart) {
+    const to = Math.min(from + framesPerPart, numFrames);
+    const part = new ArrayBuffer((to - from) * channels.length * BYTES_PER_SAMPLE);
+    writeSamples(new DataView(part), 0, channels, from, to);
+    parts.push(part);
+  }
+  return parts;
+};
+
+// Decode a 16-bit PCM WAV file produced by encodeWav
+export const decodeWav = (buffer: ArrayBuffer): { channels: Float32Array[]; sampleRate: number } => {
+  const view = new DataView(buffer);
+  const numChannels = view.getUint16(22, true);
+  const sampleRate = view.getUint32(24, true);
+  const dataSize = view.getUint32(40, true);
+  const numFrames = dataSize / (numChannels * 2);
+
+  const channels = Array.from({ length: numChannels }, () => new Float32Array(numFrames));
+  let offset = 44;
+  for (let frame = 0; frame < numFrames; frame++) {
+    for (let channel = 0; channel < numChannels; channel++) {
+      const sample = view.getInt16(offset, true);
+      channels[channel][frame] = sample < 0 ? sample / 0x8000 : sample / 0x7fff;
+      offset += 2;
+    }
+  }
+
+  return { channels, sampleRate };
+};
+
+// Mix channels down to mono and resample with linear interpolation
+export const toMono = (channels: Float32Array[], fromRate: number, toRate: number = fromRate): Float32Array => {
+  const length = channels.length > 0 ? channels[0].length : 0;
+  const mixed = new Float32Array(length);
+  channels.forEach(channel => {
+    for (let i = 0; i < length; i++) {
+      mixed[i] += channel[i] / channels.length;
+    }
+  });
+
+  if (fromRate === toRate) {
+    return mixed;
+  }
+
+  const ratio = fromRate / toRate;
+  const resampled = new Float32Array(Math.floor(length / ratio));
+  for (let i = 0; i < resampled.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, length - 1);
+    const fraction = position - index;
+    resampled[i] = mixed[index] * (1 - fraction) + mixed[next] * fraction;
+  }
+  return resampled;
+};
+
+// Convert binary data to base64 (for storing audio in localStorage)
+export const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + chunkSize)));
+  }
+  return btoa(binary);
+};
+
+// Convert base64 back to binary data
+export const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+};